@@ -3,8 +3,44 @@ export const AGENT_CONFIG = {
     base: "gpt-4o-mini",
     advanced: "gpt-4o"
   },
-  limits: {
-    complexityThreshold: 10
+  // Scoring used by RoutingPolicy; a score at or above upgradeScore selects the advanced model
+  routing: {
+    upgradeScore: 3,
+    promptTokens: {
+      medium: 2000,
+      long: 6000
+    },
+    deepToolCallDepth: 2,
+    points: {
+      mediumPrompt: 1,
+      longPrompt: 3,
+      deepToolCalls: 1,
+      structuredOutput: 1,
+      advancedPersona: 3
+    },
+    // Completion size assumed for cost estimates when a persona sets no target length
+    defaultOutputTokens: 1000
+  },
+  // Default run budget; personas and the request context can override each field
+  budget: {
+    maxTokens: 50000,
+    softLimitRatio: 0.8,
+    onHardLimit: "downgrade"
+  },
+  // HandleToolErrors: retry policy for tools registered without one (see RetryPolicyOptions)
+  toolErrors: {
+    maxAttempts: 3,
+    initialDelay: 250,
+    multiplier: 2,
+    maxDelay: 2000,
+    jitter: 0.2,
+    retryOn: ["timeout", "upstream"]
+  },
+  // deep_research: sub-questions planned per topic and searches run at once
+  research: {
+    maxSubQuestions: 4,
+    concurrency: 2,
+    resultsPerQuestion: 3
   }
 } as const;
 
@@ -13,4 +49,10 @@ export const USER_ROLES = {
   EXPERT: "expert"
 } as const;
 
-export type UserRole = typeof USER_ROLES[keyof typeof USER_ROLES];
\ No newline at end of file
+// Built-in personas; more can be added as JSON files in config/personas/
+export type BuiltInUserRole = typeof USER_ROLES[keyof typeof USER_ROLES];
+
+/**
+ * Id of any persona registered in PersonaRegistry
+ */
+export type UserRole = BuiltInUserRole | (string & {});
\ No newline at end of file
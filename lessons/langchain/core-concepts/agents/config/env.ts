@@ -1,10 +1,17 @@
+import type { ModelProvider } from "../../models/config/index.js";
+
 export const ENV = {
   OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+  MODEL_PROVIDER: (process.env.AGENT_MODEL_PROVIDER || 'openai') as ModelProvider,
   NODE_ENV: process.env.NODE_ENV || 'development',
+  SEARCH_PROVIDER: process.env.AGENT_SEARCH_PROVIDER || 'local',
+  SEARCH_BASE_URL: process.env.AGENT_SEARCH_BASE_URL,
+  SEARCH_API_KEY: process.env.AGENT_SEARCH_API_KEY,
+  SEARCH_INDEX_FILE: process.env.AGENT_SEARCH_INDEX_FILE,
 } as const;
 
 export function validateEnv() {
-  if (!ENV.OPENAI_API_KEY) {
+  if (ENV.MODEL_PROVIDER === 'openai' && !ENV.OPENAI_API_KEY) {
     throw new Error('OPENAI_API_KEY environment variable is required');
   }
 }
@@ -1,18 +1,102 @@
-import { ChatOpenAI } from "@langchain/openai";
-import { ENV, validateEnv } from "./env.js";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { ModelFactory } from "../../models/core/model-factory.js";
+import type { ModelParameters, ModelProvider } from "../../models/config/index.js";
+import { ENV } from "./env.js";
 import { AGENT_CONFIG } from "./constants.js";
 
-// Validate environment on module load
-validateEnv();
+export interface AgentModelRequest {
+  model: string;
+  provider?: ModelProvider;
+  parameters?: ModelParameters;
+}
 
-const basicModel = new ChatOpenAI({
-  model: AGENT_CONFIG.models.base,
-  apiKey: ENV.OPENAI_API_KEY,
-});
+// Matches every model name when registering an override
+const ANY_MODEL = "*";
 
-const advancedModel = new ChatOpenAI({
-  model: AGENT_CONFIG.models.advanced,
-  apiKey: ENV.OPENAI_API_KEY,
-});
+/**
+ * Lazy, cached chat models for the agents lesson
+ *
+ * Models are built through ModelFactory on first use and cached per
+ * provider, model name and parameters. Tests can inject overrides so
+ * no provider credentials are needed.
+ */
+export class AgentModels {
+  private static cache = new Map<string, Promise<BaseChatModel>>();
+  private static overrides = new Map<string, BaseChatModel>();
 
-export { basicModel, advancedModel };
+  /**
+   * Get (and create on first use) the model for a request
+   */
+  static get(request: AgentModelRequest): Promise<BaseChatModel> {
+    const override = this.overrides.get(request.model) ?? this.overrides.get(ANY_MODEL);
+    if (override) {
+      return Promise.resolve(override);
+    }
+
+    const provider = request.provider ?? ENV.MODEL_PROVIDER;
+    const key = JSON.stringify([provider, request.model, request.parameters ?? {}]);
+
+    let model = this.cache.get(key);
+    if (!model) {
+      model = ModelFactory.createModel({
+        provider,
+        model: request.model,
+        parameters: request.parameters,
+      });
+      // Do not cache failures, so a fixed environment is picked up on the next call
+      model.catch(() => this.cache.delete(key));
+      this.cache.set(key, model);
+    }
+
+    return model;
+  }
+
+  /**
+   * Use `model` instead of building one; without a name it replaces every model
+   */
+  static override(model: BaseChatModel, modelName: string = ANY_MODEL): void {
+    this.overrides.set(modelName, model);
+  }
+
+  /**
+   * Run `fn` with `model` replacing every model, then restore the previous overrides
+   */
+  static async withOverride<T>(model: BaseChatModel, fn: () => Promise<T>): Promise<T> {
+    const previous = new Map(this.overrides);
+    this.override(model);
+
+    try {
+      return await fn();
+    } finally {
+      this.overrides = previous;
+    }
+  }
+
+  /**
+   * Model name of a chat model instance, whichever field its provider uses
+   */
+  static nameOf(model: unknown): string | undefined {
+    const { model: name, modelName } = (model ?? {}) as { model?: string; modelName?: string };
+    return name ?? modelName;
+  }
+
+  static hasOverrides(): boolean {
+    return this.overrides.size > 0;
+  }
+
+  /**
+   * Drop overrides and cached models
+   */
+  static reset(): void {
+    this.overrides.clear();
+    this.cache.clear();
+  }
+}
+
+export function getBasicModel(): Promise<BaseChatModel> {
+  return AgentModels.get({ model: AGENT_CONFIG.models.base });
+}
+
+export function getAdvancedModel(): Promise<BaseChatModel> {
+  return AgentModels.get({ model: AGENT_CONFIG.models.advanced });
+}
@@ -0,0 +1,123 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { extname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import z from "zod/v3";
+import { USER_ROLES } from "./constants.js";
+import { budgetSchema, personaSchema, type Persona, type PersonaInput } from "./schemas.js";
+import { AgentConfigurationError } from "../core/types.js";
+
+const DEFAULT_PERSONAS_DIR = fileURLToPath(new URL("./personas/", import.meta.url));
+
+/**
+ * Registry of personas (user roles)
+ *
+ * Personas are loaded from the JSON files in `config/personas/` on first use,
+ * or from `AGENT_PERSONAS_DIR` when set. Every file is validated by personaSchema.
+ */
+export class PersonaRegistry {
+  private static personas?: Map<string, Persona>;
+
+  /**
+   * Load every `*.json` persona in a directory, replacing personas with the same id
+   */
+  static loadDirectory(dir: string): Persona[] {
+    const files = readdirSync(dir).filter(file => extname(file) === ".json").sort();
+
+    return files.map(file => {
+      const filePath = join(dir, file);
+      try {
+        return this.register(JSON.parse(readFileSync(filePath, "utf-8")));
+      } catch (error) {
+        throw new AgentConfigurationError(
+          `Invalid persona file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+          { filePath, cause: error }
+        );
+      }
+    });
+  }
+
+  /**
+   * Validate and register a persona
+   */
+  static register(input: PersonaInput | unknown): Persona {
+    const persona = personaSchema.parse(input);
+    this.getPersonas().set(persona.id, persona);
+    return persona;
+  }
+
+  static has(id: string): boolean {
+    return this.getPersonas().has(id);
+  }
+
+  static get(id: string): Persona {
+    const persona = this.getPersonas().get(id);
+    if (!persona) {
+      throw new AgentConfigurationError(`Unknown persona "${id}"`, { available: this.ids() });
+    }
+    return persona;
+  }
+
+  /**
+   * Persona for a role, falling back to the beginner persona
+   */
+  static resolve(id?: string): Persona {
+    return this.getPersonas().get(id ?? "") ?? this.get(USER_ROLES.BEGINNER);
+  }
+
+  static list(): Persona[] {
+    return [...this.getPersonas().values()];
+  }
+
+  static ids(): string[] {
+    return [...this.getPersonas().keys()];
+  }
+
+  /**
+   * Fill `{{placeholders}}` in the persona's system prompt template
+   */
+  static renderSystemPrompt(persona: Persona): string {
+    const values: Record<string, string | number | undefined> = {
+      name: persona.name,
+      targetWords: persona.outputLength?.targetWords,
+      maxReadingTimeMinutes: persona.outputLength?.maxReadingTimeMinutes,
+    };
+
+    return persona.systemPrompt.replace(/\{\{(\w+)\}\}/g, (match, key: string) =>
+      values[key] !== undefined ? String(values[key]) : match
+    );
+  }
+
+  /**
+   * Forget registered personas; the config directory is reloaded on next use
+   */
+  static reset(): void {
+    this.personas = undefined;
+  }
+
+  private static getPersonas(): Map<string, Persona> {
+    if (!this.personas) {
+      this.personas = new Map();
+      this.loadDirectory(process.env.AGENT_PERSONAS_DIR || DEFAULT_PERSONAS_DIR);
+    }
+    return this.personas;
+  }
+}
+
+// Shared by the middlewares and the API request schemas
+export const personaIdSchema = z
+  .string()
+  .refine(id => PersonaRegistry.has(id), id => ({
+    message: `Unknown persona "${id}". Available: ${PersonaRegistry.ids().join(", ")}`,
+  }));
+
+export const contextSchema = z.object({
+  userRole: personaIdSchema,
+  maxCostUsd: z
+    .number()
+    .positive()
+    .optional()
+    .describe("Per-request budget in USD; keeps routing on the basic model when the advanced one would exceed it"),
+  budget: budgetSchema
+    .optional()
+    .describe("Run budget overriding the persona's; enforced by the BudgetGuard middleware"),
+});
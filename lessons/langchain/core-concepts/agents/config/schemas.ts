@@ -6,15 +6,170 @@ export const agentStateSchema = z.object({
   userPreferences: z.record(z.string(), z.string()).optional(),
 });
 
+export const articleSourceSchema = z.object({
+  id: z.string().describe("Source ID from the search or deep_research output, e.g. src_1a2b3c4d"),
+  title: z.string().describe("Title of the source"),
+  url: z.string().describe("URL of the source"),
+});
+
 export const articleSchema = z.object({
   title: z.string().describe("The title of the article"),
   subtitle: z.string().describe("The subtitle of the article"),
-  content: z.string().describe("The content of the article"),
+  content: z
+    .string()
+    .describe("The content of the article; cite sources inline by ID, e.g. [src_1a2b3c4d]"),
   readingTime: z
     .number()
     .describe("The reading time of the article in minutes"),
   date: z.string().describe("The date of the article"),
+  sources: z
+    .array(articleSourceSchema)
+    .optional()
+    .describe("Every source cited in the content, copied from the tool output"),
+});
+
+// A document in the local search index
+export const searchDocumentSchema = z.object({
+  title: z.string().min(1),
+  url: z.string().url(),
+  content: z.string().min(1),
+});
+
+export const searchIndexFileSchema = z.object({
+  documents: z.array(searchDocumentSchema),
+});
+
+// Response body expected from an HTTP search backend
+export const searchResponseSchema = z.object({
+  results: z.array(
+    z.object({
+      title: z.string(),
+      url: z.string(),
+      snippet: z.string().optional(),
+      content: z.string().optional(),
+      score: z.number().optional(),
+    })
+  ),
+});
+
+// Token and cost limits for one agent run; the hard limits apply to the run's totals
+export const budgetSchema = z.object({
+  maxTokens: z.number().int().positive().optional().describe("Hard limit on input + output tokens"),
+  maxCostUsd: z.number().positive().optional().describe("Hard limit on estimated cost in USD"),
+  softLimitRatio: z
+    .number()
+    .gt(0)
+    .max(1)
+    .optional()
+    .describe("Share of a hard limit at which a warning is logged"),
+  onHardLimit: z
+    .enum(["downgrade", "end"])
+    .optional()
+    .describe("downgrade: one last call on the basic model without tools; end: stop with a partial answer"),
+});
+
+export const personaSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z][a-z0-9-]*$/, "Persona id must be lowercase kebab-case"),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  systemPrompt: z
+    .string()
+    .min(1)
+    .describe("System prompt template; {{name}}, {{targetWords}} and {{maxReadingTimeMinutes}} are filled in"),
+  modelTier: z.enum(["basic", "advanced"]).default("basic"),
+  allowedTools: z
+    .array(z.string())
+    .optional()
+    .describe("Tool names the persona may use; all tools when omitted"),
+  outputLength: z
+    .object({
+      targetWords: z.number().int().positive(),
+      maxReadingTimeMinutes: z.number().positive().optional(),
+    })
+    .optional(),
+  budget: budgetSchema.optional().describe("Run budget for this persona, on top of AGENT_CONFIG.budget"),
+});
+
+// A message in LangChain's stored format (mapChatMessagesToStoredMessages)
+export const storedMessageSchema = z.object({
+  type: z.string(),
+  data: z.record(z.any()),
+});
+
+// A tool error as thrown, enough to classify it again on replay
+export const recordedErrorSchema = z.object({
+  name: z.string(),
+  message: z.string(),
+  status: z.number().optional(),
+});
+
+// One agent run captured by RunRecorder: portable JSON that RunReplayer can re-execute
+export const runFileSchema = z.object({
+  version: z.literal(1),
+  runId: z.string(),
+  recordedAt: z.string(),
+  traceId: z.string().optional(),
+  input: z.object({
+    prompt: z.string(),
+    userRole: z.string(),
+    threadId: z.string().optional(),
+    userId: z.string().optional(),
+    context: z.object({
+      maxCostUsd: z.number().optional(),
+      budget: budgetSchema.optional(),
+    }),
+    messages: z
+      .array(storedMessageSchema)
+      .describe("Agent state messages when the run started, including any thread history"),
+  }),
+  modelCalls: z.array(
+    z.object({
+      model: z.string().optional(),
+      tools: z.array(z.string()).describe("Tools offered to the model after the middlewares ran"),
+      request: z.array(storedMessageSchema),
+      response: storedMessageSchema.optional(),
+      structuredResponse: z.record(z.any()).optional(),
+      error: recordedErrorSchema.optional(),
+      durationMs: z.number(),
+    })
+  ),
+  toolCalls: z.array(
+    z.object({
+      id: z.string().optional(),
+      name: z.string(),
+      args: z.record(z.any()),
+      result: storedMessageSchema.optional(),
+      error: recordedErrorSchema.optional(),
+      durationMs: z.number(),
+    })
+  ),
+  decisions: z.array(
+    z.object({
+      type: z.enum(["routing", "budget", "tool_error"]),
+      messageIndex: z.number().describe("Position of the message carrying the decision in output.messages"),
+      detail: z.record(z.any()),
+    })
+  ),
+  output: z
+    .object({
+      structuredResponse: z.record(z.any()).optional(),
+      messages: z.array(storedMessageSchema),
+    })
+    .optional(),
+  error: recordedErrorSchema.optional(),
 });
 
 export type AgentState = z.infer<typeof agentStateSchema>;
-export type ArticleFormat = z.infer<typeof articleSchema>;
\ No newline at end of file
+export type ArticleFormat = z.infer<typeof articleSchema>;
+export type ArticleSource = z.infer<typeof articleSourceSchema>;
+export type SearchDocument = z.infer<typeof searchDocumentSchema>;
+export type Budget = z.infer<typeof budgetSchema>;
+export type Persona = z.infer<typeof personaSchema>;
+export type PersonaInput = z.input<typeof personaSchema>;
+export type RunFile = z.infer<typeof runFileSchema>;
+export type RecordedModelCall = RunFile["modelCalls"][number];
+export type RecordedToolCall = RunFile["toolCalls"][number];
+export type RecordedDecision = RunFile["decisions"][number];
+export type RecordedError = z.infer<typeof recordedErrorSchema>;
@@ -1,28 +1,51 @@
 import { createAgent } from "langchain";
-import { search, deepResearch } from "./tools/index.js";
+import { agentToolService } from "./tools/index.js";
 import { 
+  budgetGuard,
   contextSchema, 
+  createHandleToolErrors,
+  createHumanApproval,
+  createToolHealthFilter,
   dynamicModelSelection, 
   dynamicSystemPrompt, 
-  handleToolErrors 
+  personaToolFilter,
+  runRecorder,
+  withTracingAll
 } from "./middlewares/index.js";
 import { agentStateSchema, articleSchema } from "../config/schemas.js";
 import { AGENT_CONFIG } from "../config/constants.js";
 import { validateEnv } from "../config/env.js";
+import { AgentModels } from "../config/models.js";
 import type { AgentOptions } from "./types.js";
 
 export class AgentFactory {
   static createArticleAgent(options: AgentOptions = {}) {
-    // Validate environment before creating agent
-    validateEnv();
+    // Validate environment before creating agent, unless tests injected models
+    if (!AgentModels.hasOverrides()) {
+      validateEnv();
+    }
     
+    const toolService = options.toolService ?? agentToolService;
+
     const config = {
       model: options.model || AGENT_CONFIG.models.base,
-      tools: options.tools || [search, deepResearch],
+      // Every registered tool is bound; ToolHealthFilter hides broken ones per model call
+      tools: options.tools || toolService.getAllTools().map(registered => registered.tool),
       stateSchema: agentStateSchema,
       contextSchema,
-      middleware: [handleToolErrors, dynamicSystemPrompt, dynamicModelSelection],
+      // Every wrapModelCall/wrapToolCall runs in its own span; runRecorder must stay innermost
+      middleware: withTracingAll([
+        createHandleToolErrors({ toolService }),
+        dynamicSystemPrompt,
+        personaToolFilter,
+        createToolHealthFilter(toolService),
+        createHumanApproval(toolService),
+        dynamicModelSelection,
+        budgetGuard,
+        runRecorder,
+      ] as const),
       responseFormat: articleSchema,
+      checkpointer: options.checkpointer,
     };
 
     return createAgent(config);
@@ -1,60 +1,232 @@
-import { HumanMessage, type ToolCall } from "langchain";
+import { randomUUID } from "node:crypto";
+import { HumanMessage, type Decision, type HITLRequest, type HITLResponse, type ToolCall } from "langchain";
+import { Command, type Interrupt } from "@langchain/langgraph";
 import type { UserRole } from "../config/constants.js";
 import type { 
   StreamOptions, 
   ParsedResponse, 
   ChunkData,
-  ResponseParsingError 
+  GenerateOptions,
+  PendingApproval,
+  ResponseParsingError,
+  StructuredParseScope
 } from "./types.js";
+import { ApprovalRequiredError } from "./types.js";
 import { ResponseParser } from "../utils/response-parser.js";
+import { CitationValidator } from "../utils/citation-validator.js";
+import { PersonaRegistry } from "../config/personas.js";
+import { CheckpointerUtils } from "../../short-term-memory/core/memory-manager.js";
+import { UsageLedger } from "../../models/core/usage-ledger.js";
+import { Tracer, type SpanAttributes } from "../../models/core/tracer.js";
+import { Logger, type LogContext } from "../utils/logger.js";
+import type { BudgetUsage } from "./middlewares/budget-guard.js";
 
 export class AgentService {
   constructor(private agent: ReturnType<typeof import("./agent-factory.js").AgentFactory.createArticleAgent>) {}
 
-  async generateArticle(prompt: string, userRole: UserRole): Promise<ParsedResponse> {
-    const result = await this.agent.invoke(
-      {
-        messages: [new HumanMessage(prompt)],
-        userPreferences: {},
-      },
-      { context: { userRole } }
+  async generateArticle(
+    prompt: string,
+    userRole: UserRole,
+    options: GenerateOptions = {}
+  ): Promise<ParsedResponse> {
+    const input = {
+      prompt,
+      userRole,
+      threadId: options.threadId,
+      userId: options.userId,
+      context: { maxCostUsd: options.maxCostUsd, budget: options.budget },
+    };
+
+    return this.runArticle(
+      "agent.generate_article",
+      { messages: [new HumanMessage(prompt)], userPreferences: {} },
+      userRole,
+      options,
+      prompt,
+      run => (options.recorder ? options.recorder.capture(input, run) : run())
     );
-    
-    return ResponseParser.parseStructuredResponse(result);
   }
 
-  async compareRoleResponses(prompt: string): Promise<{
-    beginner: ParsedResponse;
-    expert: ParsedResponse;
-  }> {
-    const [beginnerResult, expertResult] = await Promise.all([
-      this.generateArticle(prompt, "beginner"),
-      this.generateArticle(prompt, "expert"),
-    ]);
+  /**
+   * Resume a thread paused for approval, with one decision per pending action.
+   * Context is not checkpointed, so pass the run's userRole and budget again.
+   */
+  async resumeArticle(
+    threadId: string,
+    decisions: Decision[],
+    userRole: UserRole,
+    options: Omit<GenerateOptions, "threadId" | "recorder"> = {}
+  ): Promise<ParsedResponse> {
+    const resume: HITLResponse = { decisions };
+
+    return this.runArticle("agent.resume_article", new Command({ resume }), userRole, { ...options, threadId });
+  }
+
+  /**
+   * The approval a thread is waiting for, read from its latest checkpoint
+   */
+  async getPendingApproval(threadId: string, userId?: string): Promise<PendingApproval | undefined> {
+    const state = await this.agent.graph.getState(CheckpointerUtils.createThreadConfig(threadId, userId));
+    return this.toPendingApproval(threadId, state.tasks.flatMap(task => task.interrupts));
+  }
+
+  /**
+   * Invoke the agent in a span and log context, then parse and validate the article.
+   * A run that stops on an interrupt throws ApprovalRequiredError.
+   */
+  private async runArticle(
+    spanName: string,
+    input: Parameters<AgentService["agent"]["invoke"]>[0],
+    userRole: UserRole,
+    options: GenerateOptions,
+    prompt?: string,
+    wrap: <T>(run: () => Promise<T>) => Promise<T> = run => run()
+  ): Promise<ParsedResponse> {
+    // With a thread ID the checkpointer appends to the stored conversation
+    const threadConfig = options.threadId
+      ? CheckpointerUtils.createThreadConfig(options.threadId, options.userId)
+      : {};
+    const scope = await this.getParseScope(options.threadId, options.userId);
+
+    // One span per run; log lines from middlewares, tools and model calls carry its IDs
+    const outcome = await Tracer.withSpan(spanName, this.spanAttributes(userRole, prompt, options.threadId), span =>
+      Logger.runWithContext(this.createLogContext(userRole, options.threadId), () => wrap(async () => {
+        const result = await this.agent.invoke(input, {
+          ...threadConfig,
+          context: { userRole, maxCostUsd: options.maxCostUsd, budget: options.budget },
+          callbacks: this.createCallbacks(userRole, options.threadId),
+        });
+
+        const usage = (result as { budgetUsage?: BudgetUsage }).budgetUsage;
+        span.setAttributes({
+          "gen_ai.usage.input_tokens": usage?.inputTokens,
+          "gen_ai.usage.output_tokens": usage?.outputTokens,
+          "agent.model_calls": usage?.modelCalls,
+        });
+
+        // Paused runs end the span normally; the caller gets the approval to review
+        const approval = this.toPendingApproval(options.threadId, (result as { __interrupt__?: Interrupt[] }).__interrupt__);
+        if (approval) {
+          span.setAttribute("agent.approval_pending", true);
+          return approval;
+        }
+
+        const parsed = ResponseParser.parseStructuredResponse(result, scope);
+        options.recorder?.finish(result.messages, parsed.structuredResponse);
+
+        // Every cited source must come from a search or deep_research call
+        return {
+          ...parsed,
+          structuredResponse: CitationValidator.validate(parsed.structuredResponse, parsed.messages),
+          traceId: span.traceId,
+        };
+      }))
+    );
+
+    if ("actionRequests" in outcome) {
+      const tools = outcome.actionRequests.map(action => action.name).join(", ");
+      throw new ApprovalRequiredError(`Run paused for approval of ${tools}`, outcome);
+    }
+    return outcome;
+  }
+
+  /**
+   * Generate the same article for several personas; defaults to every registered persona
+   */
+  async compareRoleResponses(
+    prompt: string,
+    roles: UserRole[] = PersonaRegistry.ids()
+  ): Promise<Record<string, ParsedResponse>> {
+    // The per-role runs share one trace
+    const results = await Tracer.withSpan("agent.compare_role_responses", { "agent.roles": roles }, () =>
+      Promise.all(roles.map(role => this.generateArticle(prompt, role)))
+    );
     
-    return {
-      beginner: beginnerResult,
-      expert: expertResult,
-    };
+    return Object.fromEntries(roles.map((role, index) => [role, results[index]]));
   }
 
   async *streamResponse(prompt: string, options: StreamOptions): AsyncGenerator<ChunkData> {
-    const stream = await this.agent.stream(
-      {
-        messages: [new HumanMessage(prompt)],
-        userPreferences: {},
-      },
-      {
-        streamMode: options.streamMode || "values",
-        context: { userRole: options.userRole }
-      }
-    );
+    // The span stays open until the stream is drained, cancelled or fails
+    const span = Tracer.startSpan("agent.stream_response", this.spanAttributes(options.userRole, prompt));
+    let chunks = 0;
 
-    for await (const chunk of stream) {
-      yield this.processChunk(chunk);
+    try {
+      // The graph's run loop starts here and keeps the span and log context for the whole stream
+      const stream = await Tracer.withActiveSpan(span, () =>
+        Logger.runWithContext(this.createLogContext(options.userRole), () => this.agent.stream(
+          {
+            messages: [new HumanMessage(prompt)],
+            userPreferences: {},
+          },
+          {
+            streamMode: options.streamMode || "values",
+            context: { userRole: options.userRole, maxCostUsd: options.maxCostUsd, budget: options.budget },
+            signal: options.signal,
+            callbacks: this.createCallbacks(options.userRole),
+          }
+        ))
+      );
+
+      for await (const chunk of stream) {
+        // Stop pulling chunks as soon as the caller cancels
+        if (options.signal?.aborted) {
+          span.addEvent("cancelled");
+          break;
+        }
+        chunks++;
+        yield this.processChunk(chunk);
+      }
+      span.setStatus("ok");
+    } catch (error) {
+      // The signal also reaches in-flight model and tool calls, which reject with its reason
+      if (options.signal?.aborted) {
+        span.addEvent("cancelled");
+      }
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.setAttribute("agent.stream.chunks", chunks).end();
     }
   }
 
+  /**
+   * A checkpointed thread returns its earlier turns too; parse only what this run adds
+   */
+  private async getParseScope(threadId?: string, userId?: string): Promise<StructuredParseScope> {
+    if (!threadId || !this.agent.graph.checkpointer) return {};
+
+    const { values } = await this.agent.graph.getState(CheckpointerUtils.createThreadConfig(threadId, userId));
+    const state = values as { messages?: unknown[]; structuredResponse?: unknown };
+    return { startIndex: state.messages?.length ?? 0, previousStructuredResponse: state.structuredResponse };
+  }
+
+  private createLogContext(userRole: UserRole, threadId?: string): LogContext {
+    return { runId: randomUUID(), threadId, userRole };
+  }
+
+  /**
+   * Usage is recorded in the UsageLedger and every model call gets a span
+   */
+  private createCallbacks(userRole: UserRole, threadId?: string) {
+    return [
+      UsageLedger.createCallbackHandler({ source: "agent", threadId, userRole }),
+      Tracer.createCallbackHandler(),
+    ];
+  }
+
+  private spanAttributes(userRole: UserRole, prompt?: string, threadId?: string): SpanAttributes {
+    return { "agent.user_role": userRole, "agent.thread_id": threadId, "agent.prompt_length": prompt?.length };
+  }
+
+  private toPendingApproval(threadId: string | undefined, interrupts: Interrupt[] = []): PendingApproval | undefined {
+    // HumanApproval interrupts with one HITLRequest for all sensitive calls of a model response
+    const pending = interrupts.find(item => (item.value as HITLRequest | undefined)?.actionRequests);
+    if (!pending || !threadId) return undefined;
+
+    const { actionRequests, reviewConfigs } = pending.value as HITLRequest;
+    return { threadId, interruptId: pending.id, actionRequests, reviewConfigs };
+  }
+
   private processChunk(chunk: any): ChunkData {
     const latestMessage = chunk.messages.at(-1);
     
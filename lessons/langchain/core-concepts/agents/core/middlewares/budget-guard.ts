@@ -0,0 +1,236 @@
+import { createMiddleware, AIMessage, ToolMessage, type BaseMessage } from "langchain";
+import z from "zod/v3";
+import { Logger } from "../../utils/logger.js";
+import { getBasicModel } from "../../config/models.js";
+import { AGENT_CONFIG } from "../../config/constants.js";
+import { PersonaRegistry, contextSchema } from "../../config/personas.js";
+import type { Budget, Persona } from "../../config/schemas.js";
+import { UsageLedger } from "../../../models/core/usage-ledger.js";
+import { toAIMessage } from "./utils.js";
+
+export type ResolvedBudget = Budget & Required<Pick<Budget, "softLimitRatio" | "onHardLimit">>;
+
+export interface BudgetUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  modelCalls: number;
+}
+
+export type BudgetStatus = "ok" | "soft_limit" | "hard_limit";
+
+export interface BudgetGuardOptions {
+  /** Final answer used when the run ends at the hard limit */
+  partialAnswer?: (messages: BaseMessage[], usage: BudgetUsage) => string;
+}
+
+// Usage is kept in agent state; beforeAgent resets it so the budget applies per run
+const budgetStateSchema = z.object({
+  budgetUsage: z
+    .object({
+      inputTokens: z.number(),
+      outputTokens: z.number(),
+      costUsd: z.number(),
+      modelCalls: z.number(),
+    })
+    .optional(),
+});
+
+export const EMPTY_USAGE: BudgetUsage = { inputTokens: 0, outputTokens: 0, costUsd: 0, modelCalls: 0 };
+
+/**
+ * Budget arithmetic shared by the middleware and its callers
+ */
+export class BudgetGuard {
+  /**
+   * AGENT_CONFIG.budget, overridden by the persona's budget, overridden by the request context
+   */
+  static resolve(persona: Persona, override?: Budget): ResolvedBudget {
+    return { ...AGENT_CONFIG.budget, ...persona.budget, ...override } as ResolvedBudget;
+  }
+
+  /**
+   * Budget of the run a runtime context belongs to
+   */
+  static forContext(context?: { userRole?: string; budget?: Budget }): ResolvedBudget {
+    return this.resolve(PersonaRegistry.resolve(context?.userRole), context?.budget);
+  }
+
+  /**
+   * Where usage stands against the budget; the soft limit is `softLimitRatio` of either hard limit
+   */
+  static status(usage: BudgetUsage, budget: ResolvedBudget): BudgetStatus {
+    const ratios = [
+      budget.maxTokens ? (usage.inputTokens + usage.outputTokens) / budget.maxTokens : 0,
+      budget.maxCostUsd ? usage.costUsd / budget.maxCostUsd : 0,
+    ];
+    const ratio = Math.max(...ratios);
+
+    if (ratio >= 1) return "hard_limit";
+    if (ratio >= budget.softLimitRatio) return "soft_limit";
+    return "ok";
+  }
+
+  /**
+   * Add the usage reported on a model response
+   */
+  static add(usage: BudgetUsage, message: BaseMessage | undefined): BudgetUsage {
+    const metadata = (message as AIMessage | undefined)?.usage_metadata;
+    const responseMetadata = (message?.response_metadata ?? {}) as Record<string, unknown>;
+    const model = String(responseMetadata.model_name ?? responseMetadata.model ?? "");
+    const inputTokens = metadata?.input_tokens ?? 0;
+    const outputTokens = metadata?.output_tokens ?? 0;
+
+    return {
+      inputTokens: usage.inputTokens + inputTokens,
+      outputTokens: usage.outputTokens + outputTokens,
+      costUsd: usage.costUsd + (UsageLedger.estimateCost(model, inputTokens, outputTokens) ?? 0),
+      modelCalls: usage.modelCalls + 1,
+    };
+  }
+
+  /**
+   * Add the usage tools report as `usage` on their artifact, such as deep_research's own
+   * model calls, for the tool results after the latest model response
+   */
+  static addToolUsage(usage: BudgetUsage, messages: BaseMessage[]): BudgetUsage {
+    let total = usage;
+
+    for (let index = messages.length - 1; index >= 0 && ToolMessage.isInstance(messages[index]); index--) {
+      const reported = ((messages[index] as ToolMessage).artifact as { usage?: BudgetUsage } | undefined)?.usage;
+      if (reported) {
+        total = this.combine(total, reported);
+      }
+    }
+    return total;
+  }
+
+  static combine(usage: BudgetUsage, other: BudgetUsage): BudgetUsage {
+    return {
+      inputTokens: usage.inputTokens + other.inputTokens,
+      outputTokens: usage.outputTokens + other.outputTokens,
+      costUsd: usage.costUsd + other.costUsd,
+      modelCalls: usage.modelCalls + other.modelCalls,
+    };
+  }
+
+  static describe(usage: BudgetUsage, budget: ResolvedBudget): string {
+    const tokens = `${usage.inputTokens + usage.outputTokens}${budget.maxTokens ? `/${budget.maxTokens}` : ""} tokens`;
+    const cost = `$${usage.costUsd.toFixed(4)}${budget.maxCostUsd ? `/$${budget.maxCostUsd}` : ""}`;
+    return `${tokens}, ${cost} after ${usage.modelCalls} model call(s)`;
+  }
+}
+
+function warnOnChange(before: BudgetUsage, usage: BudgetUsage, budget: ResolvedBudget): void {
+  const status = BudgetGuard.status(usage, budget);
+
+  if (status !== "ok" && status !== BudgetGuard.status(before, budget)) {
+    Logger.warn(`Budget ${status.replace("_", " ")} reached: ${BudgetGuard.describe(usage, budget)}`);
+  }
+}
+
+function defaultPartialAnswer(messages: BaseMessage[], usage: BudgetUsage): string {
+  return `Stopped early: this request reached its budget (${usage.inputTokens + usage.outputTokens} tokens). `
+    + "The answer is incomplete.";
+}
+
+/**
+ * Partial article built from the tool results gathered so far, so the structured
+ * response still parses and its citations still point at real sources
+ */
+export function partialArticleAnswer(messages: BaseMessage[], usage: BudgetUsage): string {
+  const topic = [...messages].reverse().find(message => message.getType() === "human");
+  const findings = messages
+    .filter(message => message.getType() === "tool" && typeof message.content === "string")
+    .map(message => (message.content as string).slice(0, 800));
+
+  return JSON.stringify({
+    title: `Partial article: ${String(topic?.content ?? "").slice(0, 80)}`,
+    subtitle: "Stopped at the budget limit before the article was finished",
+    content: findings.length > 0
+      ? `The research budget ran out. Material gathered so far:\n\n${findings.join("\n\n")}`
+      : defaultPartialAnswer(messages, usage),
+    readingTime: 1,
+    date: new Date().toISOString().slice(0, 10),
+  });
+}
+
+/**
+ * Create a BudgetGuard middleware: tracks the run's tokens and estimated cost in state,
+ * including what tools report for their own model calls, warns at the soft limit, and at the
+ * hard limit either makes one last call on the basic model without tools (`downgrade`) or
+ * jumps to the end with a partial answer (`end`)
+ */
+export function createBudgetGuard(options: BudgetGuardOptions = {}) {
+  const partialAnswer = options.partialAnswer ?? defaultPartialAnswer;
+
+  return createMiddleware({
+    name: "BudgetGuard",
+    stateSchema: budgetStateSchema,
+    contextSchema,
+    beforeAgent: () => ({ budgetUsage: EMPTY_USAGE }),
+    beforeModel: {
+      canJumpTo: ["end"],
+      hook: (state, runtime) => {
+        const budget = BudgetGuard.forContext(runtime.context);
+        const before = state.budgetUsage ?? EMPTY_USAGE;
+        // Tool results since the last model call may carry the tools' own usage
+        const usage = BudgetGuard.addToolUsage(before, state.messages);
+        const update = usage === before ? {} : { budgetUsage: usage };
+        warnOnChange(before, usage, budget);
+
+        if (budget.onHardLimit !== "end" || BudgetGuard.status(usage, budget) !== "hard_limit") {
+          return usage === before ? undefined : update;
+        }
+
+        Logger.warn(`Budget exhausted, ending run: ${BudgetGuard.describe(usage, budget)}`);
+        return {
+          ...update,
+          jumpTo: "end",
+          messages: [
+            new AIMessage({
+              content: partialAnswer(state.messages, usage),
+              response_metadata: { budget: { status: "hard_limit", action: "end", usage } },
+            }),
+          ],
+        };
+      },
+    },
+    wrapModelCall: async (request, handler) => {
+      const budget = BudgetGuard.forContext(request.runtime.context);
+      const usage = request.state.budgetUsage ?? EMPTY_USAGE;
+      const downgrade = budget.onHardLimit === "downgrade" && BudgetGuard.status(usage, budget) === "hard_limit";
+
+      if (downgrade) {
+        Logger.warn(`Budget exhausted, finishing on the basic model: ${BudgetGuard.describe(usage, budget)}`);
+      }
+
+      const response = downgrade
+        ? await handler({ ...request, model: await getBasicModel(), tools: [] })
+        : await handler(request);
+
+      const message = toAIMessage(response);
+
+      if (downgrade) {
+        message.response_metadata = {
+          ...message.response_metadata,
+          budget: { status: "hard_limit", action: "downgrade", usage },
+        };
+      }
+      return message;
+    },
+    afterModel: (state, runtime) => {
+      const budget = BudgetGuard.forContext(runtime.context);
+      const before = state.budgetUsage ?? EMPTY_USAGE;
+      const usage = BudgetGuard.add(before, state.messages.at(-1));
+      warnOnChange(before, usage, budget);
+
+      return { budgetUsage: usage };
+    },
+  });
+}
+
+/**
+ * BudgetGuard middleware for the article agent; the partial answer is an article
+ */
+export const budgetGuard = createBudgetGuard({ partialAnswer: partialArticleAnswer });
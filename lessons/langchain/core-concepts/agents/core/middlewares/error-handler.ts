@@ -1,30 +1,187 @@
 import { createMiddleware, ToolMessage } from "langchain";
+import { isGraphInterrupt } from "@langchain/langgraph";
 import { Logger } from "../../utils/logger.js";
+import { AGENT_CONFIG } from "../../config/constants.js";
+import { ToolExecutor, type ToolAttempt, type ToolExecutionResult } from "../../../tools/core/tool-executor.js";
+import { ToolErrorClassifier, type ToolFailureKind } from "../../../tools/core/tool-errors.js";
+import { RetryPolicy, type RetryPolicyOptions } from "../../../tools/core/retry-policy.js";
+import type { ToolService } from "../../../tools/core/tool-service.js";
+import { Tracer } from "../../../models/core/tracer.js";
+import { agentToolService } from "../tools/index.js";
+
+export interface ToolErrorHandlingOptions {
+  /** Executor whose history records every tool call */
+  executor?: ToolExecutor;
+  /** Registry whose retry policies and circuit breakers apply to the calls */
+  toolService?: ToolService;
+  /** Policy for tools registered without one; options are merged into AGENT_CONFIG.toolErrors */
+  retryPolicy?: RetryPolicy | RetryPolicyOptions;
+}
 
 /**
- * HandleToolErrors middleware: returns ToolMessage on error
- * Provides structured error handling for tool calls
+ * Machine-readable failure attached to the error ToolMessage as its artifact
  */
-export const handleToolErrors = createMiddleware({
-  name: "HandleToolErrors",
-  wrapToolCall: (request, handler) => {
-    try {
-      const result = handler(request);
-      Logger.debug(`Tool call successful: ${request.toolCall.name}`);
-      return result;
-    } catch (error) {
-      const errorMessage = `Tool error: Please check your input and try again. (${error})`;
-      
-      Logger.error(`Tool call failed: ${request.toolCall.name}`, {
-        toolName: request.toolCall.name,
-        error: error instanceof Error ? error.message : String(error),
-        request: request.toolCall.args
-      });
-      
-      return new ToolMessage({
-        content: errorMessage,
-        tool_call_id: request.toolCall.id!,
+export interface ToolFailure {
+  kind: ToolFailureKind;
+  message: string;
+  /** 0 when the call was refused because the tool's circuit breaker is open */
+  attempts: number;
+}
+
+/**
+ * Tool calls made by agents through HandleToolErrors; see `getStatistics()`
+ */
+export const agentToolExecutor = new ToolExecutor();
+
+/**
+ * Create a HandleToolErrors middleware: awaits each tool call, classifies failures,
+ * retries them as the tool's retry policy allows, and reports the rest to the model as an
+ * error ToolMessage. Each call is recorded once in the executor's history with its attempts;
+ * the outcome feeds the tool's circuit breaker, and calls to a tool whose breaker is open are
+ * reported without running it.
+ */
+export function createHandleToolErrors(options: ToolErrorHandlingOptions = {}) {
+  const executor = options.executor ?? agentToolExecutor;
+  const toolService = options.toolService ?? agentToolService;
+  const defaultPolicy = options.retryPolicy instanceof RetryPolicy
+    ? options.retryPolicy
+    : new RetryPolicy({
+        ...AGENT_CONFIG.toolErrors,
+        retryOn: [...AGENT_CONFIG.toolErrors.retryOn],
+        ...options.retryPolicy,
       });
+
+  const record = (result: ToolExecutionResult) => {
+    executor.record(result);
+    toolService.recordResult(result);
+  };
+
+  return createMiddleware({
+    name: "HandleToolErrors",
+    wrapToolCall: async (request, handler) => {
+      const { name: toolName, args, id } = request.toolCall;
+      const signal = request.runtime.signal;
+
+      if (!toolService.allowCall(toolName)) {
+        Logger.warn(`Tool call refused, circuit breaker open: ${toolName}`);
+        return createErrorMessage(
+          { kind: "upstream", message: `${toolName} is temporarily unavailable after repeated failures`, attempts: 0 },
+          id!,
+          toolName
+        );
+      }
+
+      const policy = toolService.getTool(toolName)?.retryPolicy ?? defaultPolicy;
+      const attempts: ToolAttempt[] = [];
+      const callStart = Date.now();
+
+      for (let attempt = 1; ; attempt++) {
+        const startTime = Date.now();
+        Tracer.activeSpan()?.setAttribute("tool.attempts", attempt);
+
+        try {
+          const result = await handler(request);
+          attempts.push({ attempt, success: true, executionTime: Date.now() - startTime });
+          record({
+            success: true,
+            result: ToolMessage.isInstance(result) ? result.content : result,
+            executionTime: Date.now() - callStart,
+            toolName,
+            args,
+            attempts,
+          });
+          Logger.debug(`Tool call successful: ${toolName}`);
+          return result;
+        } catch (error) {
+          // Interrupts pause the run for a human, and cancelled runs should stop;
+          // neither says anything about the tool's health
+          if (isGraphInterrupt(error) || signal?.aborted) {
+            toolService.releaseCall(toolName);
+            throw error;
+          }
+
+          const kind = ToolErrorClassifier.classify(error);
+          const message = ToolErrorClassifier.getMessage(error);
+          const failed: ToolAttempt = {
+            attempt,
+            success: false,
+            error: message,
+            failureKind: kind,
+            executionTime: Date.now() - startTime,
+          };
+          attempts.push(failed);
+
+          const delay = policy.nextDelay(attempt, error, kind, Date.now() - callStart);
+          if (delay !== undefined) {
+            failed.delay = delay;
+            Tracer.activeSpan()?.addEvent("retry", {
+              attempt,
+              "tool.failure_kind": kind,
+              "error.message": message,
+              "retry.delay_ms": delay,
+            });
+            Logger.warn(`Tool call failed (${kind}), retrying: ${toolName}`, { attempt, delay, error: message });
+            await wait(delay, signal);
+            // A run cancelled during the backoff stops without another attempt
+            if (signal?.aborted) {
+              toolService.releaseCall(toolName);
+              throw signal.reason;
+            }
+            continue;
+          }
+
+          Logger.error(`Tool call failed: ${toolName}`, {
+            toolName,
+            kind,
+            attempts: attempt,
+            error: message,
+            request: args,
+          });
+
+          Tracer.activeSpan()?.setAttribute("tool.failure_kind", kind);
+          record({
+            success: false,
+            error: message,
+            failureKind: kind,
+            executionTime: Date.now() - callStart,
+            toolName,
+            args,
+            attempts,
+          });
+          return createErrorMessage({ kind, message, attempts: attempt }, id!, toolName);
+        }
+      }
+    },
+  });
+}
+
+/**
+ * Backoff between attempts; ends early when the run is cancelled
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
     }
-  },
-});
\ No newline at end of file
+  });
+}
+
+function createErrorMessage(failure: ToolFailure, toolCallId: string, toolName: string): ToolMessage {
+  return new ToolMessage({
+    content: `Tool error (${failure.kind}): ${failure.message}\n${ToolErrorClassifier.guidance(failure.kind)}`,
+    tool_call_id: toolCallId,
+    name: toolName,
+    status: "error",
+    artifact: failure,
+  });
+}
+
+/**
+ * HandleToolErrors middleware for agentToolService; tools without a retry policy use AGENT_CONFIG.toolErrors
+ */
+export const handleToolErrors = createHandleToolErrors();
@@ -0,0 +1,36 @@
+import { createMiddleware, humanInTheLoopMiddleware } from "langchain";
+import { getConfig } from "@langchain/langgraph";
+import { Logger } from "../../utils/logger.js";
+import { agentToolService } from "../tools/index.js";
+import type { ToolService } from "../../../tools/core/tool-service.js";
+
+/**
+ * Create a HumanApproval middleware for the sensitive tools of `toolService`.
+ * A model response calling one of them interrupts the run before any tool executes;
+ * the run resumes from its checkpoint with the reviewer's decisions
+ * (`Command({ resume: { decisions } })`). Runs without a thread cannot be resumed,
+ * so they never see the sensitive tools.
+ */
+export function createHumanApproval(toolService: ToolService = agentToolService) {
+  const interruptOn = toolService.getApprovalPolicies();
+  const sensitive = new Set(Object.keys(interruptOn));
+  const approval = humanInTheLoopMiddleware({ interruptOn });
+
+  return createMiddleware({
+    name: "HumanApproval",
+    wrapModelCall: async (request, handler) => {
+      // The runtime carries no config; the run's thread comes from the graph's config
+      if (!sensitive.size || getConfig()?.configurable?.thread_id) {
+        return handler(request);
+      }
+
+      const tools = request.tools.filter(tool => !sensitive.has(String(tool.name)));
+      Logger.debug("Sensitive tools hidden from a run without a thread", {
+        hidden: [...sensitive],
+      });
+
+      return handler({ ...request, tools });
+    },
+    afterModel: approval.afterModel,
+  });
+}
@@ -1,19 +1,39 @@
 // Middleware exports with proper organization
-export { handleToolErrors } from "./error-handler.js";
-export { dynamicModelSelection } from "./model-selection.js";
+export { handleToolErrors, createHandleToolErrors, agentToolExecutor } from "./error-handler.js";
+export type { ToolErrorHandlingOptions, ToolFailure } from "./error-handler.js";
+export { dynamicModelSelection, createDynamicModelSelection } from "./model-selection.js";
 export { dynamicSystemPrompt } from "./system-prompt.js";
+export { personaToolFilter } from "./persona-tools.js";
+export { budgetGuard, createBudgetGuard, partialArticleAnswer, BudgetGuard } from "./budget-guard.js";
+export type { BudgetGuardOptions, BudgetStatus, BudgetUsage, ResolvedBudget } from "./budget-guard.js";
+export { withTracing, withTracingAll } from "./tracing.js";
+export { runRecorder } from "./run-recorder.js";
+export { createHumanApproval } from "./human-approval.js";
+export { toolHealthFilter, createToolHealthFilter } from "./tool-health.js";
 
-// Legacy context schema export for backward compatibility
-import z from "zod/v3";
-export const contextSchema = z.object({
-  userRole: z.enum(["expert", "beginner"]),
-});
+// Context schema shared with the persona registry
+export { contextSchema } from "../../config/personas.js";
+
+import { handleToolErrors } from "./error-handler.js";
+import { dynamicModelSelection } from "./model-selection.js";
+import { dynamicSystemPrompt } from "./system-prompt.js";
+import { personaToolFilter } from "./persona-tools.js";
+import { budgetGuard } from "./budget-guard.js";
+import { withTracingAll } from "./tracing.js";
+import { runRecorder } from "./run-recorder.js";
+import { createHumanApproval } from "./human-approval.js";
+import { toolHealthFilter } from "./tool-health.js";
 
 // Middleware configuration helper
 export function getDefaultMiddlewares() {
-  return [
+  return withTracingAll([
     handleToolErrors,
     dynamicSystemPrompt,
+    personaToolFilter,
+    toolHealthFilter,
+    createHumanApproval(),
     dynamicModelSelection,
-  ];
+    budgetGuard,
+    runRecorder,
+  ] as const);
 }
\ No newline at end of file
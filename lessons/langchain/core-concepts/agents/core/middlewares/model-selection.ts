@@ -1,40 +1,55 @@
 import { createMiddleware, AIMessage } from "langchain";
 import { Logger } from "../../utils/logger.js";
-import { AGENT_CONFIG } from "../../config/constants.js";
+import { getAdvancedModel, getBasicModel } from "../../config/models.js";
+import { PersonaRegistry, contextSchema } from "../../config/personas.js";
+import { RoutingPolicy } from "../routing-policy.js";
+
+export interface ModelSelectionOptions {
+  /** Whether the agent is created with a responseFormat */
+  structuredOutput?: boolean;
+}
+
+/**
+ * Create a DynamicModelSelection middleware: routes each model call through RoutingPolicy
+ * The decision is logged and attached to the response as `response_metadata.routing`
+ */
+export function createDynamicModelSelection(options: ModelSelectionOptions = {}) {
+  return createMiddleware({
+    name: "DynamicModelSelection",
+    contextSchema,
+    wrapModelCall: async (request, handler) => {
+      const context = request.runtime.context;
+      const decision = RoutingPolicy.decide({
+        messages: request.messages,
+        persona: PersonaRegistry.resolve(context?.userRole),
+        structuredOutput: options.structuredOutput,
+        maxCostUsd: context?.maxCostUsd,
+      });
+
+      // Models are created on first use and cached
+      const selectedModel = decision.tier === "advanced" ? await getAdvancedModel() : await getBasicModel();
+
+      Logger.info(`Model selection: ${decision.explanation}`);
+      Logger.debug("Routing decision", decision);
+
+      // Call handler with chosen model
+      const response = await handler({
+        ...request,
+        model: selectedModel,
+      });
+
+      // Ensure response is AIMessage instance: if not, wrap it
+      const message = AIMessage.isInstance(response)
+        ? response
+        : new AIMessage({ content: typeof response === "string" ? response : JSON.stringify(response) });
+
+      message.response_metadata = { ...message.response_metadata, routing: decision };
+      return message;
+    },
+  });
+}
 
 /**
- * DynamicModelSelection middleware: chooses model based on conversation complexity
- * Automatically upgrades to advanced model for complex conversations
+ * DynamicModelSelection middleware for the article agent, which always requests structured output
  */
-export const dynamicModelSelection = createMiddleware({
-  name: "DynamicModelSelection",
-  wrapModelCall: async (request, handler) => {
-    // Choose model based on conversation complexity
-    const messageCount = request.messages.length;
-    const isComplex = messageCount > AGENT_CONFIG.limits.complexityThreshold;
-    
-    // Import models dynamically to avoid circular dependencies
-    const { basicModel, advancedModel } = await import("../../config/models.js");
-    const selectedModel = isComplex ? advancedModel : basicModel;
-    
-    Logger.debug(`Model selection: ${isComplex ? 'advanced' : 'basic'}`, {
-      messageCount,
-      threshold: AGENT_CONFIG.limits.complexityThreshold,
-      modelName: isComplex ? AGENT_CONFIG.models.advanced : AGENT_CONFIG.models.base
-    });
-
-    // Call handler with chosen model
-    const response = await handler({
-      ...request,
-      model: selectedModel,
-    });
-
-    // Ensure response is AIMessage instance: if not, wrap it
-    if (AIMessage.isInstance(response)) {
-      return response;
-    }
-    
-    const content = typeof response === "string" ? response : JSON.stringify(response);
-    return new AIMessage({ content });
-  },
-});
\ No newline at end of file
+export const dynamicModelSelection = createDynamicModelSelection({ structuredOutput: true });
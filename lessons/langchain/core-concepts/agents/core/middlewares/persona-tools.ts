@@ -0,0 +1,29 @@
+import { createMiddleware } from "langchain";
+import { Logger } from "../../utils/logger.js";
+import { PersonaRegistry, contextSchema } from "../../config/personas.js";
+
+/**
+ * PersonaToolFilter middleware: limits the tools offered to the model
+ * to the persona's `allowedTools` (all tools when the persona has none)
+ */
+export const personaToolFilter = createMiddleware({
+  name: "PersonaToolFilter",
+  contextSchema,
+  wrapModelCall: async (request, handler) => {
+    const persona = PersonaRegistry.resolve(request.runtime.context?.userRole);
+
+    if (!persona.allowedTools) {
+      return handler(request);
+    }
+
+    const allowed = new Set(persona.allowedTools);
+    const tools = request.tools.filter(tool => allowed.has(String(tool.name)));
+
+    Logger.debug(`Tools filtered for role: ${persona.id}`, {
+      allowed: persona.allowedTools,
+      offered: tools.map(tool => tool.name)
+    });
+
+    return handler({ ...request, tools });
+  },
+});
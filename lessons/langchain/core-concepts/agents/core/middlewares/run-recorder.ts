@@ -0,0 +1,78 @@
+import { createMiddleware } from "langchain";
+import { RemoveMessage } from "@langchain/core/messages";
+import { isGraphInterrupt, REMOVE_ALL_MESSAGES } from "@langchain/langgraph";
+import { AgentModels } from "../../config/models.js";
+import { RunRecorder } from "../replay/run-recorder.js";
+import { toAIMessage } from "./utils.js";
+
+/**
+ * RunRecorder middleware: records the model and tool calls of runs started with a
+ * `recorder`, and serves recorded outputs when that recorder replays a run. It sits
+ * innermost, so it sees requests after the other middlewares changed them and raw tool
+ * outcomes before HandleToolErrors does. Runs without a recorder pass straight through.
+ */
+export const runRecorder = createMiddleware({
+  name: "RunRecorder",
+  beforeAgent: (state) => {
+    const recorder = RunRecorder.active();
+    const replayed = recorder?.replayer?.inputMessages();
+
+    if (!replayed) {
+      recorder?.recordInput(state.messages);
+      return undefined;
+    }
+
+    // Start from the recorded state, thread history included
+    recorder!.recordInput(replayed);
+    return { messages: [new RemoveMessage({ id: REMOVE_ALL_MESSAGES }), ...replayed] };
+  },
+  wrapModelCall: async (request, handler) => {
+    const recorder = RunRecorder.active();
+    if (!recorder) {
+      return toAIMessage(await handler(request));
+    }
+
+    const startTime = Date.now();
+    const call = {
+      model: AgentModels.nameOf(request.model),
+      tools: request.tools.map(tool => String(tool.name)),
+      messages: request.messages,
+    };
+
+    try {
+      const recordedError = recorder.replayer?.nextModelCall()?.error;
+      if (recordedError) {
+        throw RunRecorder.toError(recordedError);
+      }
+
+      const response = await handler(request);
+      recorder.recordModelCall({ ...call, response, durationMs: Date.now() - startTime });
+      return toAIMessage(response);
+    } catch (error) {
+      recorder.recordModelCall({ ...call, error, durationMs: Date.now() - startTime });
+      throw error;
+    }
+  },
+  wrapToolCall: async (request, handler) => {
+    const recorder = RunRecorder.active();
+    if (!recorder) {
+      return handler(request);
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const result = recorder.replayer
+        ? recorder.replayer.replayToolCall(request.toolCall)
+        : await handler(request);
+      recorder.recordToolCall(request.toolCall, { result, durationMs: Date.now() - startTime });
+      return result;
+    } catch (error) {
+      // Interrupts are not tool outcomes
+      if (!isGraphInterrupt(error)) {
+        recorder.recordToolCall(request.toolCall, { error, durationMs: Date.now() - startTime });
+      }
+      throw error;
+    }
+  },
+});
@@ -1,39 +1,22 @@
 import { createMiddleware, AIMessage } from "langchain";
 import { SystemMessage } from "@langchain/core/messages";
 import { Logger } from "../../utils/logger.js";
-import { USER_ROLES, type UserRole } from "../../config/constants.js";
-
-/**
- * System prompt templates for different user roles
- */
-const SYSTEM_PROMPTS = {
-  [USER_ROLES.EXPERT]: 
-    "You are an expert AI assistant. Provide precise, technically detailed answers with industry best practices and advanced concepts.",
-  
-  [USER_ROLES.BEGINNER]: 
-    "You are a friendly AI tutor. Explain concepts clearly with simple language, examples, and step-by-step guidance.",
-} as const;
+import { PersonaRegistry, contextSchema } from "../../config/personas.js";
 
 /**
  * DynamicSystemPrompt middleware: adapts system prompt based on user role
- * Provides context-aware responses for different expertise levels
+ * Renders the persona's system prompt template from the persona registry
  */
-import z from "zod/v3";
-
-const contextSchema = z.object({
-  userRole: z.enum(["expert", "beginner"]),
-});
-
 export const dynamicSystemPrompt = createMiddleware({
   name: "DynamicSystemPromptMiddleware",
   contextSchema,
   wrapModelCall: async (request, handler) => {
-    // Get user role from context, default to beginner
-    const userRole = (request.runtime.context?.userRole as UserRole) || USER_ROLES.BEGINNER;
-    const systemPrompt = SYSTEM_PROMPTS[userRole];
+    // Get persona from context, default to beginner
+    const persona = PersonaRegistry.resolve(request.runtime.context?.userRole);
+    const systemPrompt = PersonaRegistry.renderSystemPrompt(persona);
     
-    Logger.debug(`System prompt applied for role: ${userRole}`, {
-      userRole,
+    Logger.debug(`System prompt applied for role: ${persona.id}`, {
+      userRole: persona.id,
       promptLength: systemPrompt.length
     });
 
@@ -55,4 +38,4 @@ export const dynamicSystemPrompt = createMiddleware({
     
     return response;
   },
-});
\ No newline at end of file
+});
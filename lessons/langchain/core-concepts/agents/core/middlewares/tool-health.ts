@@ -0,0 +1,34 @@
+import { createMiddleware } from "langchain";
+import { Logger } from "../../utils/logger.js";
+import { agentToolService } from "../tools/index.js";
+import type { ToolService } from "../../../tools/core/tool-service.js";
+
+/**
+ * Create a ToolHealthFilter middleware: hides the tools of `toolService` whose circuit
+ * breaker is open, so the model stops choosing a tool that keeps failing. Checked on
+ * every model call, so a tool comes back once its breaker lets probe calls through.
+ */
+export function createToolHealthFilter(toolService: ToolService = agentToolService) {
+  return createMiddleware({
+    name: "ToolHealthFilter",
+    wrapModelCall: async (request, handler) => {
+      const hidden = request.tools
+        .map(tool => String(tool.name))
+        .filter(name => !toolService.isAvailable(name));
+
+      if (hidden.length === 0) {
+        return handler(request);
+      }
+
+      Logger.warn("Tools hidden while their circuit breaker is open", { hidden });
+      const tools = request.tools.filter(tool => !hidden.includes(String(tool.name)));
+
+      return handler({ ...request, tools });
+    },
+  });
+}
+
+/**
+ * ToolHealthFilter middleware for the article agent's tools
+ */
+export const toolHealthFilter = createToolHealthFilter();
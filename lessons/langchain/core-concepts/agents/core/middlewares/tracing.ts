@@ -0,0 +1,63 @@
+import { AIMessage, ToolMessage, type AgentMiddleware } from "langchain";
+import { Tracer, serializedSize } from "../../../models/core/tracer.js";
+import { AgentModels } from "../../config/models.js";
+
+type Hook = (request: any, handler: (request: any) => Promise<unknown>) => Promise<unknown>;
+
+/**
+ * Wrap a middleware's wrapModelCall/wrapToolCall in spans named
+ * `middleware.<name>.model_call` / `middleware.<name>.tool_call`; nested middlewares
+ * and the model or tool call itself become child spans
+ */
+export function withTracing<T extends AgentMiddleware<any, any, any>>(middleware: T): T {
+  const wrapModelCall = middleware.wrapModelCall as Hook | undefined;
+  const wrapToolCall = middleware.wrapToolCall as Hook | undefined;
+
+  const traced: Record<string, unknown> = { ...(middleware as object) };
+
+  if (wrapModelCall) {
+    traced.wrapModelCall = (request: any, handler: any) =>
+      Tracer.withSpan(`middleware.${middleware.name}.model_call`, {
+        "gen_ai.request.model": AgentModels.nameOf(request.model),
+        "gen_ai.request.tool_count": request.tools?.length,
+        "gen_ai.request.message_count": request.messages?.length,
+      }, async span => {
+        const response = await wrapModelCall(request, handler);
+
+        if (AIMessage.isInstance(response)) {
+          const metadata = response.response_metadata as Record<string, string | undefined>;
+          span.setAttributes({
+            "gen_ai.response.model": metadata?.model_name ?? metadata?.model,
+            "gen_ai.usage.input_tokens": response.usage_metadata?.input_tokens,
+            "gen_ai.usage.output_tokens": response.usage_metadata?.output_tokens,
+          });
+        }
+        return response;
+      });
+  }
+
+  if (wrapToolCall) {
+    traced.wrapToolCall = (request: any, handler: any) =>
+      Tracer.withSpan(`middleware.${middleware.name}.tool_call`, {
+        "gen_ai.tool.name": request.toolCall?.name,
+        "gen_ai.tool.call.id": request.toolCall?.id,
+        "tool.args_size": serializedSize(request.toolCall?.args),
+      }, async span => {
+        const result = await wrapToolCall(request, handler);
+
+        if (ToolMessage.isInstance(result) && result.status === "error") {
+          span.setStatus("error", typeof result.content === "string" ? result.content : undefined);
+        }
+        return result;
+      });
+  }
+
+  return traced as T;
+}
+
+/**
+ * `withTracing` for every middleware, keeping the tuple type createAgent infers state from
+ */
+export function withTracingAll<const T extends readonly AgentMiddleware<any, any, any>[]>(middlewares: T): T {
+  return middlewares.map(middleware => withTracing(middleware)) as unknown as T;
+}
@@ -0,0 +1,18 @@
+import { AIMessage } from "langchain";
+
+/**
+ * Wrap non-AIMessage results like the middlewares must, keeping the usage and metadata
+ * of the model message inside a structured response so the call is still counted
+ */
+export function toAIMessage(response: unknown): AIMessage {
+  if (AIMessage.isInstance(response)) {
+    return response;
+  }
+
+  const inner = (response as { messages?: unknown[] } | undefined)?.messages?.find(AIMessage.isInstance);
+  return new AIMessage({
+    content: typeof response === "string" ? response : JSON.stringify(response),
+    usage_metadata: inner?.usage_metadata,
+    response_metadata: inner?.response_metadata,
+  });
+}
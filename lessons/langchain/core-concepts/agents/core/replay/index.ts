@@ -0,0 +1,4 @@
+export { RunRecorder } from "./run-recorder.js";
+export type { RunInput, RunRecorderOptions } from "./run-recorder.js";
+export { RunReplayer } from "./run-replayer.js";
+export type { ReplayResult } from "./run-replayer.js";
@@ -0,0 +1,179 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+  AIMessage,
+  ToolMessage,
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+  type BaseMessage,
+  type StoredMessage,
+} from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import { Tracer } from "../../../models/core/tracer.js";
+import { Logger } from "../../utils/logger.js";
+import type { Budget, RecordedDecision, RecordedError, RunFile } from "../../config/schemas.js";
+import type { RunReplayer } from "./run-replayer.js";
+
+export interface RunInput {
+  prompt: string;
+  userRole: string;
+  threadId?: string;
+  userId?: string;
+  context: { maxCostUsd?: number; budget?: Budget };
+}
+
+export interface RunRecorderOptions {
+  /** Serve model and tool outputs from a recorded run instead of calling them */
+  replayer?: RunReplayer;
+}
+
+const recorderStorage = new AsyncLocalStorage<RunRecorder>();
+
+/**
+ * Captures one agent run - input, model calls, tool calls and middleware decisions -
+ * as a portable RunFile. Pass it to `AgentService.generateArticle` as `recorder`; the
+ * RunRecorder middleware fills it in while the run is active.
+ */
+export class RunRecorder {
+  readonly replayer?: RunReplayer;
+  private run: RunFile = {
+    version: 1,
+    runId: "",
+    recordedAt: "",
+    input: { prompt: "", userRole: "", context: {}, messages: [] },
+    modelCalls: [],
+    toolCalls: [],
+    decisions: [],
+  };
+
+  constructor(options: RunRecorderOptions = {}) {
+    this.replayer = options.replayer;
+  }
+
+  /**
+   * Recorder of the run executing in the current async context
+   */
+  static active(): RunRecorder | undefined {
+    return recorderStorage.getStore();
+  }
+
+  /**
+   * Run `fn` as the recorded run; a thrown error is recorded and re-thrown
+   */
+  async capture<T>(input: RunInput, fn: () => Promise<T>): Promise<T> {
+    this.run = {
+      ...this.run,
+      runId: Logger.getContext().runId ?? randomUUID(),
+      recordedAt: new Date().toISOString(),
+      traceId: Tracer.activeSpan()?.traceId,
+      input: { ...input, messages: [] },
+    };
+
+    try {
+      return await recorderStorage.run(this, fn);
+    } catch (error) {
+      this.run.error = RunRecorder.toRecordedError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * State messages the agent started with
+   */
+  recordInput(messages: BaseMessage[]): void {
+    this.run.input.messages = RunRecorder.toStored(messages);
+  }
+
+  recordModelCall(call: {
+    model?: string;
+    tools: string[];
+    messages: BaseMessage[];
+    response?: unknown;
+    error?: unknown;
+    durationMs: number;
+  }): void {
+    // With a response format the innermost handler returns the structured response next to the message
+    const response = call.response as { messages?: unknown[]; structuredResponse?: Record<string, any> } | undefined;
+    const message = AIMessage.isInstance(response) ? response : response?.messages?.find(AIMessage.isInstance);
+
+    this.run.modelCalls.push({
+      model: call.model,
+      tools: call.tools,
+      request: RunRecorder.toStored(call.messages),
+      response: message ? RunRecorder.toStored([message])[0] : undefined,
+      structuredResponse: AIMessage.isInstance(response) ? undefined : response?.structuredResponse,
+      error: call.error === undefined ? undefined : RunRecorder.toRecordedError(call.error),
+      durationMs: call.durationMs,
+    });
+  }
+
+  recordToolCall(toolCall: ToolCall, outcome: { result?: unknown; error?: unknown; durationMs: number }): void {
+    this.run.toolCalls.push({
+      id: toolCall.id,
+      name: toolCall.name,
+      args: toolCall.args,
+      result: ToolMessage.isInstance(outcome.result) ? RunRecorder.toStored([outcome.result])[0] : undefined,
+      error: outcome.error === undefined ? undefined : RunRecorder.toRecordedError(outcome.error),
+      durationMs: outcome.durationMs,
+    });
+  }
+
+  /**
+   * Record the final state and the middleware decisions found on its messages
+   */
+  finish(messages: BaseMessage[], structuredResponse?: Record<string, any>): void {
+    this.run.output = { structuredResponse, messages: RunRecorder.toStored(messages) };
+    this.run.decisions = messages.flatMap((message, messageIndex): RecordedDecision[] => {
+      const metadata = (message.response_metadata ?? {}) as Record<string, any>;
+      const decisions: RecordedDecision[] = [];
+
+      if (metadata.routing) decisions.push({ type: "routing", messageIndex, detail: metadata.routing });
+      if (metadata.budget) decisions.push({ type: "budget", messageIndex, detail: metadata.budget });
+      if (ToolMessage.isInstance(message) && message.status === "error" && message.artifact) {
+        decisions.push({ type: "tool_error", messageIndex, detail: message.artifact });
+      }
+      return decisions;
+    });
+  }
+
+  toJSON(): RunFile {
+    return structuredClone(this.run);
+  }
+
+  /**
+   * Write the run file as JSON, creating the directory if needed
+   */
+  async save(filePath: string): Promise<void> {
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, JSON.stringify(this.run, null, 2));
+  }
+
+  static toStored(messages: BaseMessage[]): RunFile["input"]["messages"] {
+    // Round-trip through JSON so the run holds plain data only
+    return JSON.parse(JSON.stringify(mapChatMessagesToStoredMessages(messages)));
+  }
+
+  static fromStored(messages: RunFile["input"]["messages"]): BaseMessage[] {
+    return mapStoredMessagesToChatMessages(messages as StoredMessage[]);
+  }
+
+  static toRecordedError(error: unknown): RecordedError {
+    const status = (error as { status?: unknown } | undefined)?.status;
+    return {
+      name: error instanceof Error ? error.name : "Error",
+      message: error instanceof Error ? error.message : String(error),
+      ...(typeof status === "number" ? { status } : {}),
+    };
+  }
+
+  /**
+   * Rebuild a recorded error so it classifies like the original
+   */
+  static toError(recorded: RecordedError): Error {
+    const error = Object.assign(new Error(recorded.message), recorded.status !== undefined ? { status: recorded.status } : {});
+    error.name = recorded.name;
+    return error;
+  }
+}
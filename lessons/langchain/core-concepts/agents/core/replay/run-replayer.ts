@@ -0,0 +1,207 @@
+import { readFile } from "node:fs/promises";
+import { tool } from "langchain";
+import { AIMessage, ToolMessage, type BaseMessage } from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import * as z from "zod";
+import { FakeChatModel } from "../../../models/core/fake-chat-model.js";
+import type { FakeResponseFixture } from "../../../models/config/index.js";
+import { AgentModels } from "../../config/models.js";
+import { runFileSchema, type RecordedModelCall, type RecordedToolCall, type RunFile } from "../../config/schemas.js";
+import { AgentFactory } from "../agent-factory.js";
+import { AgentService } from "../agent-service.js";
+import type { ParsedResponse, UserRole } from "../types.js";
+import { RunRecorder } from "./run-recorder.js";
+
+export interface ReplayResult {
+  response?: ParsedResponse;
+  error?: unknown;
+  /** The replayed run, recorded again */
+  run: RunFile;
+  /** Where the replay differed from the recording; empty when it reproduced the run */
+  divergences: string[];
+}
+
+// Structured output tool names used by createAgent
+const STRUCTURED_TOOL_NAME = /^extract(-\d+)?$/;
+
+/**
+ * Re-executes a recorded run against its recorded outputs: model responses come from a
+ * scripted FakeChatModel and tool calls return (or throw) what they did when recorded,
+ * so the middlewares, routing and parsing run again without provider calls
+ */
+export class RunReplayer {
+  private modelCursor = 0;
+  private toolCursor = 0;
+
+  constructor(readonly run: RunFile) {}
+
+  /**
+   * Load and validate a run file
+   */
+  static async load(filePath: string): Promise<RunReplayer> {
+    return new RunReplayer(runFileSchema.parse(JSON.parse(await readFile(filePath, "utf-8"))) as RunFile);
+  }
+
+  /**
+   * Run the recorded prompt through `AgentService.generateArticle` on an article agent
+   * built from the recorded tools, and compare the new recording with the original
+   */
+  async replay(): Promise<ReplayResult> {
+    this.modelCursor = 0;
+    this.toolCursor = 0;
+    const recorder = new RunRecorder({ replayer: this });
+    const { prompt, userRole, context } = this.run.input;
+
+    return AgentModels.withOverride(this.createModel(), async () => {
+      const service = new AgentService(AgentFactory.createArticleAgent({ tools: this.createTools() }));
+      let response: ParsedResponse | undefined;
+      let error: unknown;
+
+      try {
+        response = await service.generateArticle(prompt, userRole as UserRole, { ...context, recorder });
+      } catch (caught) {
+        error = caught;
+      }
+
+      const run = recorder.toJSON();
+      return { response, error, run, divergences: RunReplayer.compare(this.run, run) };
+    });
+  }
+
+  /**
+   * Messages the recorded run started with, thread history included
+   */
+  inputMessages(): BaseMessage[] {
+    return RunRecorder.fromStored(this.run.input.messages);
+  }
+
+  /**
+   * Next recorded model call; the replayed model serves the successful ones in order
+   */
+  nextModelCall(): RecordedModelCall | undefined {
+    return this.run.modelCalls[this.modelCursor++];
+  }
+
+  /**
+   * Return or throw the recorded outcome of the next tool call
+   */
+  replayToolCall(toolCall: ToolCall): ToolMessage {
+    const recorded: RecordedToolCall | undefined = this.run.toolCalls[this.toolCursor++];
+
+    if (!recorded || recorded.name !== toolCall.name) {
+      throw new Error(`Replay diverged: no recorded result for tool call ${toolCall.name}`);
+    }
+    if (recorded.error || !recorded.result) {
+      throw RunRecorder.toError(recorded.error ?? { name: "Error", message: "Tool call recorded without a result" });
+    }
+
+    const [message] = RunRecorder.fromStored([recorded.result]) as ToolMessage[];
+    // The replayed model may issue its own call IDs
+    message.tool_call_id = toolCall.id ?? message.tool_call_id;
+    return message;
+  }
+
+  /**
+   * Model scripted with the recorded responses, reporting the recorded model names and usage
+   */
+  createModel(): FakeChatModel {
+    return new FakeChatModel({
+      model: this.run.modelCalls.find(call => call.model)?.model,
+      responses: this.run.modelCalls
+        .filter(call => call.response)
+        .map(call => RunReplayer.toFixture(call)),
+    });
+  }
+
+  /**
+   * Stand-ins for the recorded tools; the RunRecorder middleware answers their calls
+   */
+  createTools() {
+    const names = new Set([
+      ...this.run.modelCalls.flatMap(call => call.tools),
+      ...this.run.toolCalls.map(call => call.name),
+    ]);
+
+    return [...names].map(name =>
+      tool(async () => {
+        throw new Error(`Tool ${name} is replayed from the run file`);
+      }, { name, description: `Recorded ${name} tool`, schema: z.looseObject({}) })
+    );
+  }
+
+  /**
+   * Differences between two recordings of the same run
+   */
+  static compare(expected: RunFile, actual: RunFile): string[] {
+    const divergences: string[] = [];
+
+    if (actual.modelCalls.length !== expected.modelCalls.length) {
+      divergences.push(`model calls: expected ${expected.modelCalls.length}, got ${actual.modelCalls.length}`);
+    }
+    expected.modelCalls.forEach((call, index) => {
+      const replayed = actual.modelCalls[index];
+      if (!replayed) return;
+      if (replayed.tools.join() !== call.tools.join()) {
+        divergences.push(`model call ${index + 1}: tools [${call.tools}] became [${replayed.tools}]`);
+      }
+      if (replayed.request.length !== call.request.length) {
+        divergences.push(`model call ${index + 1}: ${call.request.length} request messages became ${replayed.request.length}`);
+      }
+    });
+
+    if (actual.toolCalls.length !== expected.toolCalls.length) {
+      divergences.push(`tool calls: expected ${expected.toolCalls.length}, got ${actual.toolCalls.length}`);
+    }
+    expected.toolCalls.forEach((call, index) => {
+      const replayed = actual.toolCalls[index];
+      if (replayed && (replayed.name !== call.name || JSON.stringify(replayed.args) !== JSON.stringify(call.args))) {
+        divergences.push(`tool call ${index + 1}: ${call.name} became ${replayed.name}`);
+      }
+    });
+
+    // Routing, budget and tool failure handling are decided again on replay
+    const expectedDecisions = expected.decisions.map(RunReplayer.describeDecision).join(", ");
+    const actualDecisions = actual.decisions.map(RunReplayer.describeDecision).join(", ");
+    if (actualDecisions !== expectedDecisions) {
+      divergences.push(`decisions: [${expectedDecisions}] became [${actualDecisions}]`);
+    }
+
+    if (JSON.stringify(actual.output?.structuredResponse) !== JSON.stringify(expected.output?.structuredResponse)) {
+      divergences.push("structured response differs");
+    }
+    if (actual.error?.message !== expected.error?.message) {
+      divergences.push(`error: expected ${expected.error?.message ?? "none"}, got ${actual.error?.message ?? "none"}`);
+    }
+
+    return divergences;
+  }
+
+  private static describeDecision({ type, detail }: RunFile["decisions"][number]): string {
+    const outcome = type === "routing" ? detail.tier : type === "budget" ? detail.action : detail.kind;
+    return `${type}:${outcome}`;
+  }
+
+  /**
+   * FakeChatModel fixture reproducing a recorded response
+   */
+  private static toFixture(call: RecordedModelCall): FakeResponseFixture {
+    const [message] = RunRecorder.fromStored([call.response!]) as AIMessage[];
+    const toolCalls = message.tool_calls ?? [];
+    const structuredCall = toolCalls.find(toolCall => STRUCTURED_TOOL_NAME.test(toolCall.name));
+    const metadata = message.response_metadata as Record<string, string | undefined>;
+
+    return {
+      content: typeof message.content === "string" ? message.content : JSON.stringify(message.content),
+      toolCalls: toolCalls
+        .filter(toolCall => toolCall !== structuredCall)
+        .map(({ id, name, args }) => ({ id, name, args })),
+      // Sent to whichever structured output tool the replayed agent binds
+      structured: call.structuredResponse ?? structuredCall?.args,
+      model: metadata.model_name ?? metadata.model,
+      usage: message.usage_metadata && {
+        inputTokens: message.usage_metadata.input_tokens,
+        outputTokens: message.usage_metadata.output_tokens,
+      },
+    };
+  }
+}
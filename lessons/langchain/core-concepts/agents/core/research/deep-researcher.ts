@@ -0,0 +1,214 @@
+import * as z from "zod";
+import { HumanMessage, SystemMessage, type BaseMessage, type ToolMessage } from "@langchain/core/messages";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { ToolExecutor } from "../../../tools/core/tool-executor.js";
+import { AGENT_CONFIG } from "../../config/constants.js";
+import { getAdvancedModel, getBasicModel } from "../../config/models.js";
+import { Logger } from "../../utils/logger.js";
+import { BudgetGuard, EMPTY_USAGE, type BudgetUsage } from "../middlewares/budget-guard.js";
+import { SearchService, type SearchResult } from "../search/index.js";
+import { search } from "../tools/search-tool.js";
+
+const subQuestionsSchema = z.object({
+  subQuestions: z
+    .array(z.string().min(1))
+    .min(1)
+    .describe("Independent, searchable questions that together cover the topic"),
+});
+
+export interface ResearchRequest {
+  topic: string;
+  focus?: string;
+}
+
+export interface ResearchOptions {
+  maxSubQuestions?: number;
+  concurrency?: number;
+  resultsPerQuestion?: number;
+  onProgress?: (message: string) => void;
+  signal?: AbortSignal;
+  /** Checked with the research's own usage before synthesis; true skips the synthesis call */
+  isBudgetExhausted?: (usage: BudgetUsage) => boolean;
+}
+
+export interface ResearchFinding {
+  question: string;
+  results: SearchResult[];
+  error?: string;
+}
+
+export interface ResearchReport {
+  topic: string;
+  focus: string;
+  subQuestions: string[];
+  findings: ResearchFinding[];
+  /** Deduplicated results, cited in the summary by source ID */
+  sources: SearchResult[];
+  summary: string;
+  /** Tokens and estimated cost of the planning and synthesis calls */
+  usage: BudgetUsage;
+}
+
+/**
+ * Deep research sub-agent
+ *
+ * Plans sub-questions with the basic model, searches them in parallel through
+ * ToolExecutor, then has the advanced model write a report that cites the
+ * sources by ID.
+ */
+export class DeepResearcher {
+  constructor(private readonly executor: ToolExecutor = new ToolExecutor()) {}
+
+  async research(request: ResearchRequest, options: ResearchOptions = {}): Promise<ResearchReport> {
+    const focus = request.focus || "general analysis";
+    const progress = options.onProgress ?? (() => {});
+
+    let usage = EMPTY_USAGE;
+    const count = (response: BaseMessage | undefined) => {
+      if (response) usage = BudgetGuard.add(usage, response);
+    };
+
+    progress(`Planning research on "${request.topic}"`);
+    const plan = await this.plan(request.topic, focus, options);
+    count(plan.response);
+    const { subQuestions } = plan;
+    progress(`Researching ${subQuestions.length} sub-question${subQuestions.length === 1 ? "" : "s"}`);
+
+    const findings = await this.searchAll(subQuestions, options);
+    const sources = SearchService.deduplicate(findings.flatMap(finding => finding.results));
+
+    let summary = `No sources were found for ${request.topic}.`;
+    if (sources.length > 0 && options.isBudgetExhausted?.(usage)) {
+      progress("Budget exhausted, skipping synthesis");
+      summary = `The run's budget ran out before the findings on ${request.topic} were synthesized; see the sources below.`;
+    } else if (sources.length > 0) {
+      progress(`Synthesizing report from ${sources.length} sources`);
+      const response = await this.synthesize(request.topic, focus, findings, sources, options);
+      count(response);
+      summary = typeof response.content === "string" ? response.content : JSON.stringify(response.content);
+    }
+
+    Logger.debug("Deep research completed", {
+      topic: request.topic,
+      focus,
+      subQuestions: subQuestions.length,
+      sources: sources.length,
+    });
+
+    return { topic: request.topic, focus, subQuestions, findings, sources, summary, usage };
+  }
+
+  /**
+   * Render a report as text with its source list
+   */
+  static formatReport(report: ResearchReport): string {
+    const sources = report.sources.map(source => `[${source.id}] ${source.title} - ${source.url}`);
+    const questions = report.subQuestions.map(question => `- ${question}`);
+
+    return [
+      `Research report: ${report.topic} (focus: ${report.focus})`,
+      `Sub-questions:\n${questions.join("\n")}`,
+      report.summary,
+      sources.length > 0 ? `Sources:\n${sources.join("\n")}` : "Sources: none",
+    ].join("\n\n");
+  }
+
+  /**
+   * Ask the basic model for sub-questions; falls back to fixed angles when planning fails.
+   * The model's response is returned too, for its usage.
+   */
+  private async plan(
+    topic: string,
+    focus: string,
+    options: ResearchOptions
+  ): Promise<{ subQuestions: string[]; response?: BaseMessage }> {
+    const limit = options.maxSubQuestions ?? AGENT_CONFIG.research.maxSubQuestions;
+    let response: BaseMessage | undefined;
+
+    try {
+      const planner = (await getBasicModel()).withStructuredOutput(subQuestionsSchema, { includeRaw: true });
+      const { raw, parsed } = await planner.invoke([
+        new SystemMessage(
+          `You plan web research. Break the topic into at most ${limit} short, self-contained search questions.`
+        ),
+        new HumanMessage(`Topic: ${topic}\nFocus: ${focus}`),
+      ], { signal: options.signal });
+      response = raw;
+
+      if (!parsed) {
+        throw new Error("The plan did not match the sub-question schema");
+      }
+      const questions = [...new Set(parsed.subQuestions.map(question => question.trim()).filter(Boolean))];
+      if (questions.length > 0) {
+        return { subQuestions: questions.slice(0, limit), response };
+      }
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      Logger.warn("Research planning failed, using default sub-questions", {
+        topic,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const subQuestions = [
+      `What is ${topic}?`,
+      `${topic} ${focus}`,
+      `${topic} challenges and limitations`,
+      `${topic} future trends`,
+    ].slice(0, limit);
+    return { subQuestions, response };
+  }
+
+  private async searchAll(subQuestions: string[], options: ResearchOptions): Promise<ResearchFinding[]> {
+    const limit = options.resultsPerQuestion ?? AGENT_CONFIG.research.resultsPerQuestion;
+
+    let searched = 0;
+
+    // Invoked as tool calls so the typed results come back as the ToolMessage artifact
+    const executions = await this.executor.executeTools(
+      subQuestions.map((question, index) => ({
+        tool: search,
+        args: { type: "tool_call", id: `research_${index}`, name: search.name, args: { query: question, limit } },
+        config: { signal: options.signal },
+      })),
+      {
+        maxParallel: options.concurrency ?? AGENT_CONFIG.research.concurrency,
+        // Reported as each search finishes, not once all of them have
+        onSettled: (_execution, index) => {
+          options.onProgress?.(`Searched (${++searched}/${subQuestions.length}): ${subQuestions[index]}`);
+        },
+      }
+    );
+
+    return executions.map((execution, index) => {
+      const question = subQuestions[index];
+
+      if (!execution.success) {
+        return { question, results: [], error: execution.error };
+      }
+      return { question, results: ((execution.result as ToolMessage).artifact ?? []) as SearchResult[] };
+    });
+  }
+
+  private async synthesize(
+    topic: string,
+    focus: string,
+    findings: ResearchFinding[],
+    sources: SearchResult[],
+    options: ResearchOptions
+  ): Promise<BaseMessage> {
+    const model: BaseChatModel = await getAdvancedModel();
+    const sourceList = sources
+      .map(source => `[${source.id}] ${source.title} (${source.url})\n${source.snippet}`)
+      .join("\n\n");
+    const questions = findings.map(finding => `- ${finding.question}`).join("\n");
+
+    return model.invoke([
+      new SystemMessage(
+        "You are a research analyst. Answer the sub-questions using only the listed sources. " +
+        "Cite every claim with the source ID in brackets, e.g. [src_1a2b3c4d]. Say so when the sources do not cover a question."
+      ),
+      new HumanMessage(`Topic: ${topic}\nFocus: ${focus}\n\nSub-questions:\n${questions}\n\nSources:\n${sourceList}`),
+    ], { signal: options.signal });
+  }
+}
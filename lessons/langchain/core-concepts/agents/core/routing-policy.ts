@@ -0,0 +1,185 @@
+import type { BaseMessage } from "langchain";
+import { AGENT_CONFIG } from "../config/constants.js";
+import type { Persona } from "../config/schemas.js";
+import { MessageService } from "../../messages/core/message-service.js";
+import { UsageLedger } from "../../models/core/usage-ledger.js";
+
+export type ModelTier = Persona["modelTier"];
+
+export interface RoutingInput {
+  messages: BaseMessage[];
+  persona: Persona;
+  /** Whether the agent asks for a structured response */
+  structuredOutput?: boolean;
+  /** Per-request spending limit in USD */
+  maxCostUsd?: number;
+}
+
+/**
+ * One signal that contributed to a routing decision
+ */
+export interface RoutingFactor {
+  name: "promptTokens" | "toolCallDepth" | "structuredOutput" | "persona";
+  value: number | boolean | string;
+  points: number;
+  reason: string;
+}
+
+export interface RoutingDecision {
+  tier: ModelTier;
+  model: string;
+  score: number;
+  upgradeScore: number;
+  estimatedPromptTokens: number;
+  estimatedOutputTokens: number;
+  /** Estimated cost of this call with the selected model; undefined when the model has no price */
+  estimatedCostUsd?: number;
+  maxCostUsd?: number;
+  /** True when the budget forced the basic model despite a high score */
+  budgetLimited: boolean;
+  factors: RoutingFactor[];
+  explanation: string;
+}
+
+/**
+ * Routing policy: scores a model call and picks the basic or advanced model
+ *
+ * Prompt size, tool-call depth, structured output and the persona add points;
+ * reaching `AGENT_CONFIG.routing.upgradeScore` selects the advanced model unless
+ * its estimated cost exceeds the request budget.
+ */
+export class RoutingPolicy {
+  static decide(input: RoutingInput): RoutingDecision {
+    const config = AGENT_CONFIG.routing;
+    const estimatedPromptTokens = MessageService.estimateTokens(input.messages);
+    const estimatedOutputTokens = this.estimateOutputTokens(input.persona);
+
+    const factors = [
+      this.promptTokensFactor(estimatedPromptTokens),
+      this.toolCallDepthFactor(this.toolCallDepth(input.messages)),
+      this.structuredOutputFactor(!!input.structuredOutput),
+      this.personaFactor(input.persona),
+    ];
+    const score = factors.reduce((total, factor) => total + factor.points, 0);
+
+    const advancedCost = this.estimateCost(AGENT_CONFIG.models.advanced, estimatedPromptTokens, estimatedOutputTokens);
+    const wantsAdvanced = score >= config.upgradeScore;
+    const budgetLimited = wantsAdvanced
+      && input.maxCostUsd !== undefined
+      && advancedCost !== undefined
+      && advancedCost > input.maxCostUsd;
+
+    const tier: ModelTier = wantsAdvanced && !budgetLimited ? "advanced" : "basic";
+    const model = tier === "advanced" ? AGENT_CONFIG.models.advanced : AGENT_CONFIG.models.base;
+    const estimatedCostUsd = this.estimateCost(model, estimatedPromptTokens, estimatedOutputTokens);
+
+    return {
+      tier,
+      model,
+      score,
+      upgradeScore: config.upgradeScore,
+      estimatedPromptTokens,
+      estimatedOutputTokens,
+      estimatedCostUsd,
+      maxCostUsd: input.maxCostUsd,
+      budgetLimited,
+      factors,
+      explanation: this.explain({ tier, score, factors, budgetLimited, advancedCost, maxCostUsd: input.maxCostUsd }),
+    };
+  }
+
+  /**
+   * Number of consecutive model turns that requested tools since the last human message
+   */
+  static toolCallDepth(messages: BaseMessage[]): number {
+    let depth = 0;
+
+    for (let index = messages.length - 1; index >= 0; index--) {
+      const message = messages[index];
+      const type = message.getType();
+      if (type === "human") break;
+      if (type === "ai" && (message as { tool_calls?: unknown[] }).tool_calls?.length) {
+        depth++;
+      }
+    }
+
+    return depth;
+  }
+
+  /**
+   * Estimated USD cost of a call, or undefined when the model is not in MODEL_PRICING
+   */
+  static estimateCost(model: string, inputTokens: number, outputTokens: number): number | undefined {
+    return UsageLedger.estimateCost(model, inputTokens, outputTokens);
+  }
+
+  // Roughly 4 tokens per 3 words
+  private static estimateOutputTokens(persona: Persona): number {
+    const targetWords = persona.outputLength?.targetWords;
+    return targetWords ? Math.ceil(targetWords * 4 / 3) : AGENT_CONFIG.routing.defaultOutputTokens;
+  }
+
+  private static promptTokensFactor(tokens: number): RoutingFactor {
+    const { promptTokens, points } = AGENT_CONFIG.routing;
+
+    if (tokens >= promptTokens.long) {
+      return { name: "promptTokens", value: tokens, points: points.longPrompt, reason: `long prompt (~${tokens} tokens)` };
+    }
+    if (tokens >= promptTokens.medium) {
+      return { name: "promptTokens", value: tokens, points: points.mediumPrompt, reason: `medium prompt (~${tokens} tokens)` };
+    }
+    return { name: "promptTokens", value: tokens, points: 0, reason: `short prompt (~${tokens} tokens)` };
+  }
+
+  private static toolCallDepthFactor(depth: number): RoutingFactor {
+    const { deepToolCallDepth, points } = AGENT_CONFIG.routing;
+    const deep = depth >= deepToolCallDepth;
+
+    return {
+      name: "toolCallDepth",
+      value: depth,
+      points: deep ? points.deepToolCalls : 0,
+      reason: deep ? `${depth} tool-call rounds this turn` : `${depth} tool-call round(s) this turn`,
+    };
+  }
+
+  private static structuredOutputFactor(structuredOutput: boolean): RoutingFactor {
+    return {
+      name: "structuredOutput",
+      value: structuredOutput,
+      points: structuredOutput ? AGENT_CONFIG.routing.points.structuredOutput : 0,
+      reason: structuredOutput ? "structured response requested" : "free-form response",
+    };
+  }
+
+  private static personaFactor(persona: Persona): RoutingFactor {
+    const advanced = persona.modelTier === "advanced";
+
+    return {
+      name: "persona",
+      value: persona.id,
+      points: advanced ? AGENT_CONFIG.routing.points.advancedPersona : 0,
+      reason: `persona "${persona.id}" prefers the ${persona.modelTier} tier`,
+    };
+  }
+
+  private static explain(details: {
+    tier: ModelTier;
+    score: number;
+    factors: RoutingFactor[];
+    budgetLimited: boolean;
+    advancedCost?: number;
+    maxCostUsd?: number;
+  }): string {
+    const contributing = details.factors.filter(factor => factor.points > 0);
+    const because = contributing.length > 0
+      ? contributing.map(factor => `${factor.reason} (+${factor.points})`).join(", ")
+      : "no complexity signals";
+    const summary = `${details.tier} model, score ${details.score}/${AGENT_CONFIG.routing.upgradeScore}: ${because}`;
+
+    if (details.budgetLimited) {
+      return `${summary}; advanced model would cost ~$${details.advancedCost?.toFixed(4)}, over the $${details.maxCostUsd} budget`;
+    }
+    return summary;
+  }
+}
@@ -0,0 +1,71 @@
+import { searchResponseSchema } from "../../config/schemas.js";
+import { SearchProviderError, type SearchOptions, type SearchProvider, type SearchHit } from "./types.js";
+
+export interface HttpSearchProviderOptions {
+  baseUrl: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Search backend reached over HTTP
+ *
+ * Sends `GET {baseUrl}/search?q=<query>&limit=<n>` and expects
+ * `{ results: [{ title, url, snippet?, content?, score? }] }`.
+ * Results without a score are ranked by position.
+ */
+export class HttpSearchProvider implements SearchProvider {
+  readonly name = "http";
+
+  constructor(private readonly options: HttpSearchProviderOptions) {
+    if (!options.baseUrl) {
+      throw new SearchProviderError("HTTP search provider requires a baseUrl");
+    }
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    const limit = options.limit ?? 5;
+    const url = new URL("search", this.options.baseUrl.endsWith("/") ? this.options.baseUrl : `${this.options.baseUrl}/`);
+    url.searchParams.set("q", query);
+    url.searchParams.set("limit", String(limit));
+
+    const timeout = AbortSignal.timeout(this.options.timeoutMs ?? 10_000);
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          accept: "application/json",
+          ...(this.options.apiKey ? { authorization: `Bearer ${this.options.apiKey}` } : {}),
+        },
+        signal: options.signal ? AbortSignal.any([options.signal, timeout]) : timeout,
+      });
+    } catch (error) {
+      throw new SearchProviderError(
+        `Search request failed: ${error instanceof Error ? error.message : String(error)}`,
+        { url: url.origin, cause: error }
+      );
+    }
+
+    if (!response.ok) {
+      throw new SearchProviderError(`Search backend responded with ${response.status}`, {
+        url: url.origin,
+        status: response.status,
+      });
+    }
+
+    const parsed = searchResponseSchema.safeParse(await response.json().catch(() => undefined));
+    if (!parsed.success) {
+      throw new SearchProviderError("Search backend returned an unexpected body", {
+        issues: parsed.error.issues,
+      });
+    }
+
+    const results = parsed.data.results.slice(0, limit);
+    return results.map((result, index) => ({
+      title: result.title,
+      url: result.url,
+      snippet: result.snippet ?? result.content ?? "",
+      score: result.score ?? 1 - index / results.length,
+    }));
+  }
+}
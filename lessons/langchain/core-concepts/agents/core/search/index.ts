@@ -0,0 +1,7 @@
+// Search backends used by the agent tools
+export { SearchService } from "./search-service.js";
+export { LocalSearchProvider } from "./local-search-provider.js";
+export { HttpSearchProvider } from "./http-search-provider.js";
+export type { HttpSearchProviderOptions } from "./http-search-provider.js";
+export { SearchProviderError } from "./types.js";
+export type { SearchHit, SearchOptions, SearchProvider, SearchResult } from "./types.js";
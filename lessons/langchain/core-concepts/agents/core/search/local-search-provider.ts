@@ -0,0 +1,113 @@
+import { readFileSync } from "node:fs";
+import { searchIndexFileSchema, type SearchDocument } from "../../config/schemas.js";
+import type { SearchOptions, SearchProvider, SearchHit } from "./types.js";
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "how", "in", "is", "it",
+  "of", "on", "or", "that", "the", "this", "to", "was", "what", "when", "with", "why",
+]);
+
+// BM25 tuning constants
+const K1 = 1.2;
+const B = 0.75;
+const SNIPPET_LENGTH = 240;
+
+interface IndexedDocument {
+  document: SearchDocument;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(token => !STOP_WORDS.has(token));
+}
+
+/**
+ * In-memory full-text index ranked with BM25
+ *
+ * Runs offline, so it backs tests and demos; titles count twice.
+ */
+export class LocalSearchProvider implements SearchProvider {
+  readonly name = "local";
+
+  private documents: IndexedDocument[] = [];
+  private documentFrequencies = new Map<string, number>();
+
+  constructor(documents: SearchDocument[] = []) {
+    this.addDocuments(documents);
+  }
+
+  /**
+   * Build an index from a JSON file: `{ "documents": [{ title, url, content }] }`
+   */
+  static fromFile(filePath: string): LocalSearchProvider {
+    const raw = JSON.parse(readFileSync(filePath, "utf-8"));
+    return new LocalSearchProvider(searchIndexFileSchema.parse(raw).documents);
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  addDocuments(documents: SearchDocument[]): void {
+    for (const document of documents) {
+      const tokens = [...tokenize(document.title), ...tokenize(document.title), ...tokenize(document.content)];
+      const termFrequencies = new Map<string, number>();
+      for (const token of tokens) {
+        termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+      }
+      for (const term of termFrequencies.keys()) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+      }
+      this.documents.push({ document, termFrequencies, length: tokens.length });
+    }
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.documents.length === 0) {
+      return [];
+    }
+
+    const averageLength = this.documents.reduce((total, entry) => total + entry.length, 0) / this.documents.length;
+    const scored = this.documents
+      .map(entry => ({ entry, score: this.score(entry, terms, averageLength) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? 5);
+
+    // Normalise so the best hit scores 1
+    const best = scored[0]?.score ?? 1;
+    return scored.map(({ entry, score }) => ({
+      title: entry.document.title,
+      url: entry.document.url,
+      snippet: this.snippet(entry.document.content, terms),
+      score: Number((score / best).toFixed(3)),
+    }));
+  }
+
+  private score(entry: IndexedDocument, terms: string[], averageLength: number): number {
+    return terms.reduce((total, term) => {
+      const frequency = entry.termFrequencies.get(term) ?? 0;
+      if (frequency === 0) return total;
+
+      const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+      const idf = Math.log(1 + (this.documents.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const normalisedLength = 1 - B + B * (entry.length / averageLength);
+      return total + idf * (frequency * (K1 + 1)) / (frequency + K1 * normalisedLength);
+    }, 0);
+  }
+
+  /**
+   * The sentence matching the most query terms, trimmed to SNIPPET_LENGTH
+   */
+  private snippet(content: string, terms: string[]): string {
+    const sentences = content.match(/[^.!?]+[.!?]*/g) ?? [content];
+    const ranked = sentences
+      .map(sentence => ({ sentence: sentence.trim(), hits: tokenize(sentence).filter(token => terms.includes(token)).length }))
+      .sort((a, b) => b.hits - a.hits);
+    const best = ranked[0]?.sentence ?? content;
+
+    return best.length > SNIPPET_LENGTH ? `${best.slice(0, SNIPPET_LENGTH - 3).trimEnd()}...` : best;
+  }
+}
@@ -0,0 +1,109 @@
+import { createHash } from "node:crypto";
+import { fileURLToPath } from "node:url";
+import { ENV } from "../../config/env.js";
+import { Logger } from "../../utils/logger.js";
+import { HttpSearchProvider } from "./http-search-provider.js";
+import { LocalSearchProvider } from "./local-search-provider.js";
+import {
+  SearchProviderError,
+  type SearchHit,
+  type SearchOptions,
+  type SearchProvider,
+  type SearchResult,
+} from "./types.js";
+
+const DEFAULT_INDEX_FILE = fileURLToPath(new URL("../../config/search-index.json", import.meta.url));
+
+/**
+ * Entry point for the search tools
+ *
+ * The provider is chosen from `AGENT_SEARCH_PROVIDER` (`local` or `http`) on
+ * first use; tests and apps can swap it with `setProvider`.
+ */
+export class SearchService {
+  private static provider?: SearchProvider;
+
+  static getProvider(): SearchProvider {
+    this.provider ??= this.createDefaultProvider();
+    return this.provider;
+  }
+
+  static setProvider(provider: SearchProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Forget the provider; it is rebuilt from the environment on next use
+   */
+  static reset(): void {
+    this.provider = undefined;
+  }
+
+  /**
+   * Search with the current provider, deduplicated, ordered by score and tagged with source IDs
+   */
+  static async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const provider = this.getProvider();
+    const results = await provider.search(query, options);
+    const unique = this.deduplicate(results);
+
+    Logger.debug("Search completed", { provider: provider.name, query, results: results.length, unique: unique.length });
+    return unique.map(result => ({ id: this.sourceId(result.url), ...result }));
+  }
+
+  /**
+   * Stable citation ID for a URL: `src_` plus 8 hex characters of its normalised form
+   */
+  static sourceId(url: string): string {
+    return `src_${createHash("sha1").update(this.normalizeUrl(url)).digest("hex").slice(0, 8)}`;
+  }
+
+  /**
+   * Drop repeated URLs (ignoring protocol, `www.`, fragments, tracking params and trailing slashes),
+   * keeping the best scoring hit
+   */
+  static deduplicate<T extends SearchHit>(results: T[]): T[] {
+    const byUrl = new Map<string, T>();
+
+    for (const result of results) {
+      const key = this.normalizeUrl(result.url);
+      const existing = byUrl.get(key);
+      if (!existing || result.score > existing.score) {
+        byUrl.set(key, result);
+      }
+    }
+
+    return [...byUrl.values()].sort((a, b) => b.score - a.score);
+  }
+
+  static normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      for (const param of [...parsed.searchParams.keys()]) {
+        if (param.startsWith("utm_")) parsed.searchParams.delete(param);
+      }
+      const host = parsed.hostname.replace(/^www\./, "");
+      const path = parsed.pathname.replace(/\/+$/, "");
+      const search = parsed.searchParams.toString();
+      return `${host}${path}${search ? `?${search}` : ""}`.toLowerCase();
+    } catch {
+      return url.trim().toLowerCase();
+    }
+  }
+
+  private static createDefaultProvider(): SearchProvider {
+    switch (ENV.SEARCH_PROVIDER) {
+      case "local":
+        return LocalSearchProvider.fromFile(ENV.SEARCH_INDEX_FILE || DEFAULT_INDEX_FILE);
+      case "http":
+        if (!ENV.SEARCH_BASE_URL) {
+          throw new SearchProviderError("AGENT_SEARCH_BASE_URL is required when AGENT_SEARCH_PROVIDER=http");
+        }
+        return new HttpSearchProvider({ baseUrl: ENV.SEARCH_BASE_URL, apiKey: ENV.SEARCH_API_KEY });
+      default:
+        throw new SearchProviderError(`Unknown search provider "${ENV.SEARCH_PROVIDER}"`, {
+          available: ["local", "http"],
+        });
+    }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * A single hit as returned by a provider
+ */
+export interface SearchHit {
+  title: string;
+  url: string;
+  snippet: string;
+  /** Relevance between 0 and 1, higher is better */
+  score: number;
+}
+
+/**
+ * A hit with its source ID, derived from the URL so it is stable across searches
+ */
+export interface SearchResult extends SearchHit {
+  id: string;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Backend used by the search tool
+ */
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string, options?: SearchOptions): Promise<SearchHit[]>;
+}
+
+export class SearchProviderError extends Error {
+  constructor(message: string, public context?: any) {
+    super(message);
+    this.name = 'SearchProviderError';
+  }
+}
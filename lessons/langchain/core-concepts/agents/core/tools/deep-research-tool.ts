@@ -1,42 +1,53 @@
-import { tool } from "langchain";
 import * as z from "zod";
+import { ToolBuilder } from "../../../tools/core/tool-builder.js";
 import { Logger } from "../../utils/logger.js";
+import { DeepResearcher } from "../research/deep-researcher.js";
+import { BudgetGuard, EMPTY_USAGE, type BudgetUsage } from "../middlewares/budget-guard.js";
+import type { SearchResult } from "../search/index.js";
+import type { Budget } from "../../config/schemas.js";
+
+/**
+ * deep_research artifact: the report's sources, and the usage of the sub-agent's own
+ * model calls, which BudgetGuard adds to the run's budget
+ */
+export interface DeepResearchArtifact {
+  sources: SearchResult[];
+  usage: BudgetUsage;
+}
+
+const researcher = new DeepResearcher();
 
 /**
  * Deep research tool for comprehensive analysis
- * Provides detailed research and analysis on complex topics
+ * Plans sub-questions, searches them in parallel and returns a sourced report with
+ * a DeepResearchArtifact; progress is sent to the stream writer (`streamMode: "custom"`
+ * in agent runs). In an agent run, synthesis is skipped once the run's budget is exhausted.
  */
-export const deepResearch = tool(
-  ({ topic, focus = "general analysis" }) => {
+export const deepResearch = ToolBuilder.createStreamingTool({
+  name: "deep_research",
+  description: "Conduct comprehensive research and analysis on complex topics. Use when you need detailed, multi-faceted insights beyond basic search.",
+  schema: z.object({
+    topic: z.string().describe("The main topic to research in depth"),
+    focus: z.string().describe("Specific aspect or angle to focus the research on"),
+  }),
+  func: async ({ topic, focus }, config) => {
     Logger.info(`Deep research initiated`, { topic, focus, timestamp: new Date().toISOString() });
-    
-    // In a real implementation, this would call multiple APIs, databases, and analysis services
-    const mockResearchData = [
-      `Comprehensive analysis of ${topic} reveals multiple key insights:`,
-      `Historical context: ${topic} has evolved significantly over the past decade with major developments in ${focus}.`,
-      `Current trends: Industry experts identify three primary patterns affecting ${topic} implementation.`,
-      `Technical considerations: Deep dive into ${focus} shows promising approaches and potential challenges.`,
-      `Future outlook: Predictive analysis suggests ${topic} will continue expanding with focus on ${focus}.`,
-      `Recommendations: Based on comprehensive research, key actionable insights have been identified.`
-    ];
-    
-    const result = mockResearchData.join('\n\n');
-    
-    Logger.debug(`Deep research completed`, { 
-      topic, 
-      focus,
-      analysisDepth: mockResearchData.length,
-      resultLength: result.length 
-    });
-    
-    return result;
+
+    // The agent passes its state and context; usage so far plus the research's own counts
+    const budget = BudgetGuard.forContext(config?.context as { userRole?: string; budget?: Budget } | undefined);
+    const runUsage = (config?.state as { budgetUsage?: BudgetUsage } | undefined)?.budgetUsage ?? EMPTY_USAGE;
+
+    const report = await researcher.research(
+      { topic, focus },
+      {
+        onProgress: config?.streamWriter,
+        signal: config?.signal,
+        isBudgetExhausted: usage => BudgetGuard.status(BudgetGuard.combine(runUsage, usage), budget) === "hard_limit",
+      }
+    );
+
+    const artifact: DeepResearchArtifact = { sources: report.sources, usage: report.usage };
+    return [DeepResearcher.formatReport(report), artifact];
   },
-  {
-    name: "deep_research",
-    description: "Conduct comprehensive research and analysis on complex topics. Use when you need detailed, multi-faceted insights beyond basic search.",
-    schema: z.object({
-      topic: z.string().describe("The main topic to research in depth"),
-      focus: z.string().describe("Specific aspect or angle to focus the research on"),
-    }),
-  }
-);
\ No newline at end of file
+  responseFormat: "content_and_artifact",
+});
@@ -1,10 +1,11 @@
 // Tool exports with proper organization
-export { search } from "./search-tool.js";
+export { search, formatSearchResults } from "./search-tool.js";
 export { deepResearch } from "./deep-research-tool.js";
 
 // Import tools for internal use
 import { search } from "./search-tool.js";
 import { deepResearch } from "./deep-research-tool.js";
+import { ToolService } from "../../../tools/core/tool-service.js";
 
 // Legacy alias for backward compatibility
 export { deepResearch as getWeather } from "./deep-research-tool.js";
@@ -37,4 +38,13 @@ export const TOOL_REGISTRY = new Map<string, any>([
 
 export function getToolByName(name: string) {
   return TOOL_REGISTRY.get(name);
-}
\ No newline at end of file
+}
+
+/**
+ * Registry the article agent's tools and approval policies come from.
+ * Register tools that act outside the app with `sensitive: true` so every call waits for a reviewer.
+ * The built-in tools only read, so none of them needs approval.
+ */
+export const agentToolService = new ToolService();
+agentToolService.registerTool(search, { category: "information" });
+agentToolService.registerTool(deepResearch, { category: "research" });
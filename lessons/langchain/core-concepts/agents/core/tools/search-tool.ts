@@ -1,32 +1,44 @@
 import { tool } from "langchain";
 import * as z from "zod";
 import { Logger } from "../../utils/logger.js";
+import { SearchService, type SearchResult } from "../search/index.js";
+
+/**
+ * Render results as entries labelled with their source ID, which the model cites inline
+ */
+export function formatSearchResults(query: string, results: SearchResult[]): string {
+  if (results.length === 0) {
+    return `Search results for "${query}":\nNo results found.`;
+  }
+
+  const entries = results.map(result =>
+    `[${result.id}] ${result.title}\nURL: ${result.url}\n${result.snippet}`
+  );
+  return `Search results for "${query}":\n\n${entries.join("\n\n")}`;
+}
 
 /**
  * Search tool for information retrieval
- * Simulates web search functionality with structured input/output
+ * Queries the configured SearchProvider; the typed results are returned as the tool artifact.
+ * The run's abort signal cancels the provider request.
  */
 export const search = tool(
-  ({ query }) => {
+  async ({ query, limit }, config) => {
     Logger.info(`Search executed`, { query, timestamp: new Date().toISOString() });
-    
-    // In a real implementation, this would call an actual search API
-    const mockResults = [
-      "Recent advances in machine learning have shown remarkable progress...",
-      "AI technology continues to evolve with new breakthroughs in neural networks...",
-      "Industry experts predict significant growth in AI adoption across sectors...",
-    ];
-    
-    const result = `Search results for "${query}":\n${mockResults.join('\n')}`;
-    Logger.debug(`Search completed`, { query, resultLength: result.length });
-    
-    return result;
+
+    const results = await SearchService.search(query, { limit, signal: config?.signal });
+    const content = formatSearchResults(query, results);
+    Logger.debug(`Search completed`, { query, results: results.length, resultLength: content.length });
+
+    return [content, results];
   },
   {
     name: "search",
     description: "Search for current information on any topic. Use this when you need up-to-date information.",
     schema: z.object({
       query: z.string().describe("The search query - be specific and detailed for better results"),
+      limit: z.number().int().min(1).max(10).optional().describe("Maximum number of results (default 5)"),
     }),
+    responseFormat: "content_and_artifact",
   }
-);
\ No newline at end of file
+);
@@ -1,6 +1,10 @@
-import type { Tool } from "langchain";
+import type { StructuredToolInterface } from "@langchain/core/tools";
+import type { ActionRequest, ReviewConfig } from "langchain";
+import type { BaseCheckpointSaver } from "@langchain/langgraph";
 import type { UserRole } from "../config/constants.js";
-import type { ArticleFormat, AgentState } from "../config/schemas.js";
+import type { ArticleFormat, AgentState, Budget } from "../config/schemas.js";
+import type { RunRecorder } from "./replay/run-recorder.js";
+import type { ToolService } from "../../tools/core/tool-service.js";
 
 // Re-export types for convenience
 export type { UserRole } from "../config/constants.js";
@@ -8,17 +12,89 @@ export type { ArticleFormat, AgentState } from "../config/schemas.js";
 
 export interface AgentOptions {
   model?: string;
-  tools?: Tool[];
+  tools?: StructuredToolInterface[];
+  /** Registry of the agent's tools and their approval policies; defaults to agentToolService */
+  toolService?: ToolService;
+  checkpointer?: BaseCheckpointSaver;
+}
+
+export interface GenerateOptions {
+  threadId?: string;
+  userId?: string;
+  /** Per-request budget in USD for model routing */
+  maxCostUsd?: number;
+  /** Run budget enforced by the BudgetGuard middleware, overriding the persona's */
+  budget?: Budget;
+  /** Captures the run as a replayable run file */
+  recorder?: RunRecorder;
 }
 
 export interface StreamOptions {
   userRole: UserRole;
   streamMode?: string;
+  signal?: AbortSignal;
+  maxCostUsd?: number;
+  budget?: Budget;
 }
 
 export interface ParsedResponse {
   structuredResponse: ArticleFormat;
   messages: any[];
+  /** Trace of the run that produced the response, set by AgentService */
+  traceId?: string;
+}
+
+/**
+ * Where ResponseParser found the structured response
+ * - state: `result.structuredResponse`
+ * - tool_call: arguments of the `extract` tool call (tool strategy)
+ * - message_json: JSON embedded in a message's text
+ */
+export type StructuredResponseSource = 'state' | 'tool_call' | 'message_json';
+
+/**
+ * Limits parsing to the current run of a threaded conversation
+ */
+export interface StructuredParseScope {
+  /** Index of the run's first message; defaults to the last HumanMessage */
+  startIndex?: number;
+  /** `structuredResponse` of the checkpoint the run started from; an unchanged one is ignored */
+  previousStructuredResponse?: unknown;
+}
+
+export interface StructuredResponseIssue {
+  path: string;
+  message: string;
+}
+
+export type StructuredParseResult<T = ArticleFormat> =
+  | {
+      success: true;
+      data: T;
+      source: StructuredResponseSource;
+      messages: any[];
+    }
+  | {
+      success: false;
+      error: string;
+      issues: StructuredResponseIssue[];
+      /** Instructions that can be sent back to the model to fix the output */
+      repairHints: string[];
+      /** The candidate that failed validation, if any was found */
+      raw?: unknown;
+      source?: StructuredResponseSource;
+      messages: any[];
+    };
+
+/**
+ * A threaded run paused before sensitive tool calls, waiting for one decision per action
+ */
+export interface PendingApproval {
+  threadId: string;
+  /** ID of the persisted interrupt the decisions resume */
+  interruptId?: string;
+  actionRequests: ActionRequest[];
+  reviewConfigs: ReviewConfig[];
 }
 
 export interface ChunkData {
@@ -34,9 +110,29 @@ export class ResponseParsingError extends Error {
   }
 }
 
+/**
+ * The structured response cites sources that no tool returned
+ */
+export class CitationValidationError extends ResponseParsingError {
+  constructor(message: string, context?: any) {
+    super(message, context);
+    this.name = 'CitationValidationError';
+  }
+}
+
 export class AgentConfigurationError extends Error {
   constructor(message: string, public context?: any) {
     super(message);
     this.name = 'AgentConfigurationError';
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The run paused for human approval; resume it with `AgentService.resumeArticle`
+ */
+export class ApprovalRequiredError extends Error {
+  constructor(message: string, public approval: PendingApproval) {
+    super(message);
+    this.name = 'ApprovalRequiredError';
+  }
+}
@@ -36,7 +36,7 @@ async function main() {
     // Demo 3: Role Comparison
     console.log("\n3️⃣  Role Comparison Demo");
     const comparison = await demonstrateRoleComparison();
-    console.log("✅ Compared beginner vs expert responses");
+    console.log("✅ Compared responses across personas");
     console.log(`📊 Articles generated: ${Object.keys(comparison).length}`);
 
     // Demo 4: Streaming Demo with Deep Research
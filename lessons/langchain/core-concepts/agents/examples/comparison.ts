@@ -11,18 +11,17 @@ export async function demonstrateRoleComparison() {
   const prompt = "Write a short article about the benefits of machine learning";
   
   try {
-    const { beginner, expert } = await service.compareRoleResponses(prompt);
+    // Compares every persona registered in config/personas/
+    const responses = await service.compareRoleResponses(prompt);
     
-    Logger.agentResponse("beginner", beginner);
-    Logger.agentResponse("expert", expert);
+    for (const [role, response] of Object.entries(responses)) {
+      Logger.agentResponse(role, response);
+      
+      console.log(`\n=== ${role.toUpperCase()} RESPONSE ===`);
+      console.log(JSON.stringify(response.structuredResponse, null, 2));
+    }
     
-    console.log("=== BEGINNER RESPONSE ===");
-    console.log(JSON.stringify(beginner.structuredResponse, null, 2));
-    
-    console.log("\n=== EXPERT RESPONSE ===");
-    console.log(JSON.stringify(expert.structuredResponse, null, 2));
-    
-    return { beginner, expert };
+    return responses;
   } catch (error) {
     Logger.error("Failed to demonstrate role comparison", { error, prompt });
     throw error;
@@ -32,4 +31,4 @@ export async function demonstrateRoleComparison() {
 // Run example if executed directly
 if (import.meta.url === `file://${process.argv[1]}`) {
   demonstrateRoleComparison().catch(console.error);
-}
\ No newline at end of file
+}
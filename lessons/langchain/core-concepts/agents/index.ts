@@ -1,9 +1,12 @@
 // Main exports for the agents module
 export { AgentFactory } from './core/agent-factory.js';
 export { AgentService } from './core/agent-service.js';
+export { RoutingPolicy } from './core/routing-policy.js';
+export type { RoutingDecision, RoutingFactor, RoutingInput, ModelTier } from './core/routing-policy.js';
 
 // Configuration exports
-export { articleSchema, agentStateSchema } from './config/schemas.js';
+export { articleSchema, articleSourceSchema, agentStateSchema, personaSchema } from './config/schemas.js';
+export { PersonaRegistry, personaIdSchema } from './config/personas.js';
 export { AGENT_CONFIG, USER_ROLES } from './config/constants.js';
 export { validateEnv, isProduction, isDevelopment } from './config/env.js';
 
@@ -11,26 +14,65 @@ export { validateEnv, isProduction, isDevelopment } from './config/env.js';
 export type {
   AgentOptions,
   StreamOptions,
+  GenerateOptions,
   ParsedResponse,
+  PendingApproval,
   ChunkData,
   UserRole,
   ArticleFormat,
   AgentState
 } from './core/types.js';
+export { ResponseParsingError, CitationValidationError, AgentConfigurationError, ApprovalRequiredError } from './core/types.js';
+export type { Persona, ArticleSource, SearchDocument } from './config/schemas.js';
+
+// Research exports
+export { DeepResearcher } from './core/research/deep-researcher.js';
+export type { ResearchReport, ResearchFinding, ResearchRequest, ResearchOptions } from './core/research/deep-researcher.js';
+
+// Search exports
+export {
+  SearchService,
+  LocalSearchProvider,
+  HttpSearchProvider,
+  SearchProviderError
+} from './core/search/index.js';
+export type { SearchProvider, SearchResult, SearchOptions } from './core/search/index.js';
+
+// Run recording and replay
+export { RunRecorder, RunReplayer } from './core/replay/index.js';
+export type { RunInput, RunRecorderOptions, ReplayResult } from './core/replay/index.js';
+export type { RunFile, RecordedModelCall, RecordedToolCall, RecordedDecision } from './config/schemas.js';
+
+// Tool registry and human approval
+export { agentToolService } from './core/tools/index.js';
 
 // Utility exports
 export { ResponseParser } from './utils/response-parser.js';
-export { Logger } from './utils/logger.js';
+export { CitationValidator } from './utils/citation-validator.js';
+export { Logger, ConsoleLogSink, FileLogSink, MemoryLogSink } from './utils/logger.js';
+export type { LogContext, LogEntry, LogLevel, LogSink, LoggerOptions } from './utils/logger.js';
 
 // Legacy exports for backward compatibility
 export { search, getWeather } from './core/tools/index.js';
 export {
   dynamicModelSelection,
+  createDynamicModelSelection,
   handleToolErrors,
+  createHandleToolErrors,
+  agentToolExecutor,
   dynamicSystemPrompt,
+  personaToolFilter,
+  budgetGuard,
+  createBudgetGuard,
+  BudgetGuard,
+  runRecorder,
+  createHumanApproval,
+  toolHealthFilter,
+  createToolHealthFilter,
   contextSchema,
 } from './core/middlewares/index.js';
-export { basicModel, advancedModel } from './config/models.js';
+export { AgentModels, getBasicModel, getAdvancedModel } from './config/models.js';
+export type { AgentModelRequest } from './config/models.js';
 
 // Example exports
 export * from './examples/index.js';
\ No newline at end of file
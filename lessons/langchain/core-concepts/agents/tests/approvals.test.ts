@@ -0,0 +1,119 @@
+/// <reference path="./globals.d.ts" />
+
+import { MemorySaver } from "@langchain/langgraph";
+import { tool } from "langchain";
+import * as z from "zod";
+import { AgentFactory } from "../core/agent-factory.js";
+import { AgentService } from "../core/agent-service.js";
+import { ApprovalRequiredError } from "../core/types.js";
+import { RunRecorder } from "../core/replay/index.js";
+import { AgentModels } from "../config/models.js";
+import { FakeChatModel } from "../../models/core/fake-chat-model.js";
+import { ToolService } from "../../tools/core/tool-service.js";
+
+const article = { title: "Launch", subtitle: "Newsletter", content: "We launched.", readingTime: 1, date: "2025-01-01" };
+
+describe("Human approval", () => {
+  let sent: Array<{ to: string; subject: string }>;
+  let toolService: ToolService;
+
+  beforeEach(() => {
+    sent = [];
+    const sendEmail = tool(async ({ to, subject }) => {
+      sent.push({ to, subject });
+      return `Sent to ${to}`;
+    }, {
+      name: "send_email",
+      description: "Send an email",
+      schema: z.object({ to: z.string(), subject: z.string() }),
+    });
+    toolService = new ToolService();
+    toolService.registerTool(sendEmail, { sensitive: true });
+
+    AgentModels.override(new FakeChatModel({
+      responses: [
+        { toolCalls: [{ id: "call_1", name: "send_email", args: { to: "team@example.com", subject: "Launch" } }] },
+        { structured: article },
+      ],
+    }));
+  });
+
+  afterEach(() => {
+    AgentModels.reset();
+  });
+
+  function createService() {
+    return new AgentService(AgentFactory.createArticleAgent({ toolService, checkpointer: new MemorySaver() }));
+  }
+
+  async function pause(service: AgentService, recorder?: RunRecorder): Promise<ApprovalRequiredError> {
+    try {
+      await service.generateArticle("Announce the launch", "expert", { threadId: "thread-1", recorder });
+    } catch (error) {
+      if (error instanceof ApprovalRequiredError) return error;
+      throw error;
+    }
+    throw new Error("Run did not pause");
+  }
+
+  test("should pause before a sensitive tool runs and persist the interrupt", async () => {
+    const service = createService();
+    const recorder = new RunRecorder();
+
+    const { approval } = await pause(service, recorder);
+
+    expect(recorder.toJSON().modelCalls[0].tools).toContain("send_email");
+    expect(sent).toHaveLength(0);
+    expect(approval.threadId).toBe("thread-1");
+    expect(approval.actionRequests[0]).toMatchObject({ name: "send_email", args: { to: "team@example.com" } });
+    expect(approval.reviewConfigs[0].allowedDecisions).toEqual(["approve", "edit", "reject"]);
+    expect(await service.getPendingApproval("thread-1")).toEqual(approval);
+  });
+
+  test("should run the tool and finish the article once approved", async () => {
+    const service = createService();
+    await pause(service);
+
+    const response = await service.resumeArticle("thread-1", [{ type: "approve" }], "expert");
+
+    expect(sent).toEqual([{ to: "team@example.com", subject: "Launch" }]);
+    expect(response.structuredResponse).toEqual(article);
+    expect(await service.getPendingApproval("thread-1")).toBeUndefined();
+  });
+
+  test("should run the tool with the reviewer's edited arguments", async () => {
+    const service = createService();
+    await pause(service);
+
+    await service.resumeArticle("thread-1", [{
+      type: "edit",
+      editedAction: { name: "send_email", args: { to: "review@example.com", subject: "Launch (draft)" } },
+    }], "expert");
+
+    expect(sent).toEqual([{ to: "review@example.com", subject: "Launch (draft)" }]);
+  });
+
+  test("should tell the model about a rejection without running the tool", async () => {
+    const service = createService();
+    await pause(service);
+
+    const response = await service.resumeArticle("thread-1", [{ type: "reject", message: "Not before Monday" }], "expert");
+    const rejection = response.messages.find(message => message.tool_call_id === "call_1");
+
+    expect(sent).toHaveLength(0);
+    expect(rejection?.content).toContain("Not before Monday");
+    expect(response.structuredResponse).toEqual(article);
+  });
+
+  test("should hide sensitive tools from runs without a thread", async () => {
+    AgentModels.override(new FakeChatModel({ responses: [{ structured: article }] }));
+    const recorder = new RunRecorder();
+
+    const service = new AgentService(AgentFactory.createArticleAgent({ toolService }));
+
+    await service.generateArticle("Announce the launch", "expert", { recorder });
+
+    expect(recorder.toJSON().modelCalls[0].tools).not.toContain("send_email");
+    expect(sent).toHaveLength(0);
+  });
+});
@@ -0,0 +1,133 @@
+/// <reference path="./globals.d.ts" />
+
+import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { CitationValidator } from "../utils/citation-validator.js";
+import { CitationValidationError, ResponseParsingError } from "../core/types.js";
+import { AgentFactory } from "../core/agent-factory.js";
+import { AgentService } from "../core/agent-service.js";
+import { AgentModels } from "../config/models.js";
+import { LocalSearchProvider, SearchService } from "../core/search/index.js";
+import type { ArticleFormat } from "../config/schemas.js";
+import { FakeChatModel } from "../../models/core/fake-chat-model.js";
+
+const ragUrl = "https://example.com/rag";
+const vectorsUrl = "https://example.com/vectors";
+const ragId = SearchService.sourceId(ragUrl);
+const vectorsId = SearchService.sourceId(vectorsUrl);
+
+const transcript = [
+  new HumanMessage("Write about RAG"),
+  new AIMessage({ content: "", tool_calls: [{ id: "call_1", name: "search", args: { query: "rag" } }] }),
+  new ToolMessage({
+    content: "Search results",
+    tool_call_id: "call_1",
+    name: "search",
+    artifact: [
+      { id: ragId, title: "RAG", url: ragUrl, snippet: "", score: 1 },
+      { id: vectorsId, title: "Vectors", url: vectorsUrl, snippet: "", score: 0.5 },
+    ],
+  }),
+];
+
+const article = (content: string, sources?: ArticleFormat["sources"]): ArticleFormat => ({
+  title: "RAG",
+  subtitle: "Retrieval",
+  content,
+  readingTime: 1,
+  date: "2025-01-01",
+  sources,
+});
+
+function captureError(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+describe("CitationValidator", () => {
+  test("should extract inline citations once, in order", () => {
+    const text = `RAG retrieves documents [${ragId}]. It uses vectors [${vectorsId}] and more [${ragId}].`;
+
+    expect(CitationValidator.extractCitations(text)).toEqual([ragId, vectorsId]);
+  });
+
+  test("should collect sources from search tool artifacts", () => {
+    const sources = CitationValidator.collectSources(transcript);
+
+    expect([...sources.keys()]).toEqual([ragId, vectorsId]);
+    expect(sources.get(ragId)).toEqual({ id: ragId, title: "RAG", url: ragUrl });
+  });
+
+  test("should fill sources for inline citations from the transcript", () => {
+    const validated = CitationValidator.validate(
+      article(`RAG grounds answers [${vectorsId}].`, [{ id: ragId, title: "wrong title", url: "https://wrong" }]),
+      transcript
+    );
+
+    expect(validated.sources).toEqual([
+      { id: ragId, title: "RAG", url: ragUrl },
+      { id: vectorsId, title: "Vectors", url: vectorsUrl },
+    ]);
+  });
+
+  test("should accept articles without citations", () => {
+    const plain = article("No sources needed.");
+
+    expect(CitationValidator.validate(plain, [])).toEqual(plain);
+  });
+
+  test("should reject citations missing from the tool transcript", () => {
+    const error = captureError(() =>
+      CitationValidator.validate(article("Made up [src_00000000]."), transcript)
+    ) as CitationValidationError;
+
+    expect(error).toBeInstanceOf(CitationValidationError);
+    expect(error).toBeInstanceOf(ResponseParsingError);
+    expect(error.message).toContain("src_00000000");
+    expect(error.context.issues).toHaveLength(1);
+  });
+});
+
+describe("AgentService citations", () => {
+  afterEach(() => {
+    AgentModels.reset();
+    SearchService.reset();
+  });
+
+  function createService(content: string) {
+    SearchService.setProvider(new LocalSearchProvider([
+      { title: "RAG", url: ragUrl, content: "Retrieval augmented generation grounds answers in documents." },
+    ]));
+    AgentModels.override(new FakeChatModel({
+      responses: [
+        { toolCalls: [{ name: "search", args: { query: "retrieval augmented generation" } }] },
+        { structured: { title: "RAG", subtitle: "Grounded answers", content, readingTime: 1, date: "2025-01-01" } },
+      ],
+    }));
+    return new AgentService(AgentFactory.createArticleAgent());
+  }
+
+  test("should return sources for citations found by search", async () => {
+    const service = createService(`RAG grounds answers in documents [${ragId}].`);
+
+    const response = await service.generateArticle("Write about RAG", "beginner");
+
+    expect(response.structuredResponse.sources).toEqual([{ id: ragId, title: "RAG", url: ragUrl }]);
+  });
+
+  test("should reject invented citations", async () => {
+    const service = createService("RAG is magic [src_deadbeef].");
+    let error: unknown;
+
+    try {
+      await service.generateArticle("Write about RAG", "beginner");
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(CitationValidationError);
+  });
+});
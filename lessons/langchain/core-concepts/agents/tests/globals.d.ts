@@ -3,6 +3,10 @@ declare global {
   function describe(name: string, fn: () => void): void;
   function test(name: string, fn: () => void | Promise<void>, timeout?: number): void;
   function it(name: string, fn: () => void | Promise<void>, timeout?: number): void;
+  function beforeAll(fn: () => void | Promise<void>): void;
+  function beforeEach(fn: () => void | Promise<void>): void;
+  function afterAll(fn: () => void | Promise<void>): void;
+  function afterEach(fn: () => void | Promise<void>): void;
   
   namespace expect {
     interface Matchers<T> {
@@ -15,6 +19,8 @@ declare global {
       toThrow(): void;
       toBeGreaterThan(expected: number): void;
       toBeNull(): void;
+      toBeInstanceOf(expected: any): void;
+      toHaveLength(expected: number): void;
       not: Matchers<T>;
     }
   }
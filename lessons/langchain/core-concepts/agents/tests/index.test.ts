@@ -5,8 +5,18 @@ import {
   AgentService, 
   articleSchema,
   USER_ROLES,
-  ResponseParser
+  ResponseParser,
+  ResponseParsingError,
+  AgentModels
 } from "../index.js";
+import { FakeChatModel } from "../../models/core/fake-chat-model.js";
+import { UsageLedger } from "../../models/core/usage-ledger.js";
+import { Tracer, InMemorySpanExporter } from "../../models/core/tracer.js";
+import { Logger, MemoryLogSink } from "../utils/logger.js";
+import { ToolService } from "../../tools/core/tool-service.js";
+import { AIMessage, HumanMessage, tool } from "langchain";
+import { MemorySaver } from "@langchain/langgraph";
+import * as z from "zod";
 
 describe("Agent Configuration", () => {
   describe("structured format schema", () => {
@@ -82,9 +92,10 @@ describe("Agent Configuration", () => {
     });
 
     test("should import models successfully", async () => {
-      const { basicModel, advancedModel } = await import("../config/models.js");
-      expect(basicModel).toBeDefined();
-      expect(advancedModel).toBeDefined();
+      const { AgentModels, getBasicModel, getAdvancedModel } = await import("../config/models.js");
+      expect(AgentModels).toBeDefined();
+      expect(getBasicModel).toBeDefined();
+      expect(getAdvancedModel).toBeDefined();
     });
   });
 
@@ -113,6 +124,17 @@ describe("Agent Configuration", () => {
 });
 
 describe("Agent Factory and Service", () => {
+  // Without an API key the agent runs against the offline fake model
+  beforeAll(() => {
+    if (!process.env.OPENAI_API_KEY) {
+      AgentModels.override(new FakeChatModel());
+    }
+  });
+
+  afterAll(() => {
+    AgentModels.reset();
+  });
+
   test("should create agent using AgentFactory", () => {
     const agent = AgentFactory.createArticleAgent();
     expect(agent).toBeDefined();
@@ -142,6 +164,65 @@ describe("Agent Factory and Service", () => {
     expect(response.messages).toBeDefined();
   }, 30000);
 
+  test("should record model usage for the thread and role", async () => {
+    const service = new AgentService(AgentFactory.createArticleAgent());
+    UsageLedger.reset();
+
+    await service.generateArticle("Write about testing", USER_ROLES.EXPERT, { threadId: "usage-thread" });
+
+    const summary = UsageLedger.summarize({ threadId: "usage-thread" });
+    UsageLedger.reset();
+    expect(summary.total.calls).toBeGreaterThan(0);
+    expect(Object.keys(summary.byUserRole)).toEqual([USER_ROLES.EXPERT]);
+  }, 30000);
+
+  test("should tag log lines of a run with its run and thread IDs", async () => {
+    const service = new AgentService(AgentFactory.createArticleAgent());
+    const sink = new MemoryLogSink();
+    Logger.addSink(sink);
+
+    try {
+      await service.generateArticle("Write about testing", USER_ROLES.EXPERT, { threadId: "log-thread" });
+    } finally {
+      Logger.removeSink(sink);
+    }
+
+    const runIds = new Set(sink.entries.map(entry => entry.runId));
+    expect(sink.entries.some(entry => entry.message.startsWith("Model selection"))).toBe(true);
+    expect(runIds.size).toBe(1);
+    expect([...runIds][0]).toBeDefined();
+    expect(sink.entries.every(entry => entry.threadId === "log-thread" && entry.traceId !== undefined)).toBe(true);
+  }, 30000);
+
+  test("should trace the run, its middlewares and model calls as one trace", async () => {
+    const service = new AgentService(AgentFactory.createArticleAgent());
+    const exporter = new InMemorySpanExporter();
+    const sink = new MemoryLogSink();
+    Tracer.addExporter(exporter);
+    Logger.addSink(sink);
+
+    let traceId: string | undefined;
+    try {
+      traceId = (await service.generateArticle("Write about tracing", USER_ROLES.EXPERT)).traceId;
+    } finally {
+      Tracer.removeExporter(exporter);
+      Logger.removeSink(sink);
+    }
+
+    const spans = exporter.getFinishedSpans();
+    const root = spans.find(span => span.name === "agent.generate_article")!;
+    const modelSpans = spans.filter(span => span.name === "middleware.BudgetGuard.model_call");
+
+    expect(root.traceId).toBe(traceId!);
+    expect(root.parentSpanId).toBeUndefined();
+    expect(root.attributes["agent.user_role"]).toBe(USER_ROLES.EXPERT);
+    expect(spans.every(span => span.traceId === traceId)).toBe(true);
+    expect(modelSpans.length).toBeGreaterThan(0);
+    expect(modelSpans[0].attributes["gen_ai.request.model"]).toBeDefined();
+    expect(spans.some(span => span.name === "model.call")).toBe(true);
+    expect(sink.entries.every(entry => entry.traceId === traceId)).toBe(true);
+  }, 30000);
+
   test("should compare role responses using AgentService", async () => {
     const agent = AgentFactory.createArticleAgent();
     const service = new AgentService(agent);
@@ -155,6 +236,19 @@ describe("Agent Factory and Service", () => {
     expect(comparison.beginner.structuredResponse).toHaveProperty("title");
     expect(comparison.expert.structuredResponse).toHaveProperty("title");
   }, 60000);
+
+  test("should compare a chosen set of personas", async () => {
+    const agent = AgentFactory.createArticleAgent();
+    const service = new AgentService(agent);
+
+    const comparison = await service.compareRoleResponses(
+      "Write a short article about the benefits of machine learning",
+      ["executive", "expert"]
+    );
+
+    expect(Object.keys(comparison)).toEqual(["executive", "expert"]);
+    expect(comparison.executive.structuredResponse).toHaveProperty("title");
+  }, 60000);
 });
 
 describe("Response Parser", () => {
@@ -197,4 +291,184 @@ describe("Response Parser", () => {
     const result = ResponseParser.safeParseStructuredResponse(mockResult);
     expect(result).toBeNull();
   });
+
+  describe("parse", () => {
+    const article = {
+      title: "Test Title",
+      subtitle: "Test Subtitle",
+      content: "Test Content",
+      readingTime: 5,
+      date: "2024-01-01"
+    };
+
+    test("should prefer the agent's structuredResponse", () => {
+      const parsed = ResponseParser.parse({ structuredResponse: article, messages: [] });
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.success && parsed.source).toBe("state");
+    });
+
+    test("should fall back to the extract tool call", () => {
+      const parsed = ResponseParser.parse({
+        messages: [
+          { content: "", tool_calls: [{ name: "extract-1", args: article }] },
+          { content: "Returning structured response: ..." }
+        ]
+      });
+
+      expect(parsed.success && parsed.source).toBe("tool_call");
+      expect(parsed.success && parsed.data.title).toBe("Test Title");
+    });
+
+    test("should read JSON embedded in message text", () => {
+      const parsed = ResponseParser.parse({
+        messages: [{ content: "Here you go:\n```json\n" + JSON.stringify(article) + "\n```" }]
+      });
+
+      expect(parsed.success && parsed.source).toBe("message_json");
+    });
+
+    test("should skip invalid candidates when a later one validates", () => {
+      const parsed = ResponseParser.parse({
+        structuredResponse: { title: "Incomplete" },
+        messages: [{ content: "", tool_calls: [{ name: "extract", args: article }] }]
+      });
+
+      expect(parsed.success && parsed.source).toBe("tool_call");
+    });
+
+    test("should return issues and repair hints on failure", () => {
+      const parsed = ResponseParser.parse({
+        structuredResponse: { ...article, readingTime: "five", date: undefined }
+      });
+
+      expect(parsed.success).toBe(false);
+      if (!parsed.success) {
+        expect(parsed.source).toBe("state");
+        expect(parsed.issues.map(issue => issue.path)).toEqual(["readingTime", "date"]);
+        expect(parsed.repairHints).toContain('Add the required field "date".');
+        expect(parsed.raw).toHaveProperty("title");
+      }
+    });
+
+    test("should report when no structured response exists", () => {
+      const parsed = ResponseParser.parse({ messages: [{ content: "plain text" }] });
+
+      expect(parsed.success).toBe(false);
+      expect(!parsed.success && parsed.repairHints.length).toBe(1);
+    });
+
+    test("should ignore messages before the last human message", () => {
+      const parsed = ResponseParser.parse({
+        messages: [
+          new HumanMessage("First article"),
+          new AIMessage({ content: "", tool_calls: [{ id: "call_1", name: "extract", args: article }] }),
+          new HumanMessage("Thanks!"),
+          new AIMessage("You're welcome.")
+        ]
+      });
+
+      expect(parsed.success).toBe(false);
+    });
+
+    test("should ignore a structuredResponse left over from the checkpoint", () => {
+      const parsed = ResponseParser.parse(
+        { structuredResponse: article, messages: [{ content: "plain text" }] },
+        undefined,
+        { startIndex: 0, previousStructuredResponse: { ...article } }
+      );
+
+      expect(parsed.success).toBe(false);
+    });
+  });
+
+  describe("threaded conversations", () => {
+    const article = {
+      title: "Launch",
+      subtitle: "Newsletter",
+      content: "We launched.",
+      readingTime: 1,
+      date: "2025-01-01"
+    };
+
+    afterEach(() => {
+      AgentModels.reset();
+    });
+
+    test("should not return the previous turn's article when the model answers in text", async () => {
+      AgentModels.override(new FakeChatModel({
+        responses: [{ structured: article }, "Glad you liked it."]
+      }));
+      const service = new AgentService(AgentFactory.createArticleAgent({ checkpointer: new MemorySaver() }));
+
+      const first = await service.generateArticle("Write about the launch", USER_ROLES.EXPERT, { threadId: "thread-1" });
+      expect(first.structuredResponse.title).toBe("Launch");
+
+      let failure: unknown;
+      try {
+        await service.generateArticle("Thanks!", USER_ROLES.EXPERT, { threadId: "thread-1" });
+      } catch (error) {
+        failure = error;
+      }
+
+      expect(failure).toBeInstanceOf(ResponseParsingError);
+    });
+  });
+});
+
+describe("Stream cancellation", () => {
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  let writes: number[];
+  let toolService: ToolService;
+
+  beforeEach(() => {
+    writes = [];
+    // Writes one entry every 10ms until its signal aborts
+    const writer = tool(async (_args, config) => {
+      for (let i = 0; i < 50; i++) {
+        if (config?.signal?.aborted) return "stopped";
+        writes.push(i);
+        await sleep(10);
+      }
+      return "done";
+    }, {
+      name: "writer",
+      description: "Write entries",
+      schema: z.object({}),
+    });
+    toolService = new ToolService();
+    toolService.registerTool(writer);
+
+    AgentModels.override(new FakeChatModel({
+      responses: [{ toolCalls: [{ id: "call_1", name: "writer", args: {} }] }],
+    }));
+  });
+
+  afterEach(() => {
+    AgentModels.reset();
+  });
+
+  test("should abort in-flight tool calls when the stream is cancelled", async () => {
+    const service = new AgentService(AgentFactory.createArticleAgent({ toolService }));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error("Client disconnected")), 80);
+
+    let failure: unknown;
+    try {
+      for await (const _chunk of service.streamResponse("Write it down", {
+        userRole: USER_ROLES.EXPERT,
+        signal: controller.signal,
+      })) {
+        // Drain until cancelled
+      }
+    } catch (error) {
+      failure = error;
+    }
+    const writtenAtAbort = writes.length;
+    await sleep(60);
+
+    expect(String(failure)).toContain("Client disconnected");
+    expect(writtenAtAbort).toBeGreaterThan(0);
+    expect(writes.length).toBe(writtenAtAbort);
+  });
 });
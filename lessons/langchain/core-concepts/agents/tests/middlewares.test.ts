@@ -1,11 +1,36 @@
 /// <reference path="./globals.d.ts" />
 
+import { AIMessage, HumanMessage, ToolMessage, type BaseMessage } from "@langchain/core/messages";
+import { tool } from "langchain";
+import * as z from "zod";
 import {
+  BudgetGuard,
+  budgetGuard,
+  createHandleToolErrors,
+  createToolHealthFilter,
+  type BudgetUsage,
+  type ToolFailure,
   dynamicModelSelection,
   handleToolErrors,
   dynamicSystemPrompt,
   contextSchema,
+  withTracing,
 } from "../core/middlewares/index.js";
+import { AgentFactory } from "../core/agent-factory.js";
+import { LocalSearchProvider, SearchService } from "../core/search/index.js";
+import { AgentModels } from "../config/models.js";
+import { AGENT_CONFIG } from "../config/constants.js";
+import { PersonaRegistry } from "../config/personas.js";
+import type { Budget } from "../config/schemas.js";
+import { ResponseParser } from "../utils/response-parser.js";
+import { Logger, MemoryLogSink } from "../utils/logger.js";
+import { FakeChatModel } from "../../models/core/fake-chat-model.js";
+import { ToolExecutor } from "../../tools/core/tool-executor.js";
+import { ToolService } from "../../tools/core/tool-service.js";
+import { Tracer, InMemorySpanExporter } from "../../models/core/tracer.js";
+
+const ragUrl = "https://example.com/rag";
+const article = { title: "RAG", subtitle: "Grounded answers", content: "RAG retrieves documents.", readingTime: 1, date: "2025-01-01" };
 
 describe("Agent Middlewares", () => {
   describe("contextSchema", () => {
@@ -69,5 +94,385 @@ describe("Agent Middlewares", () => {
       expect(handleToolErrors.wrapToolCall).toBeDefined();
       expect(typeof handleToolErrors.wrapToolCall).toBe("function");
     });
+
+    // Calls the middleware directly with a handler standing in for the tool
+    function callTool(
+      executor: ToolExecutor,
+      handler: () => Promise<ToolMessage>,
+      toolService = new ToolService(),
+      signal?: AbortSignal
+    ) {
+      const middleware = createHandleToolErrors({ executor, toolService, retryPolicy: { initialDelay: 1 } });
+      const request = {
+        toolCall: { id: "call_1", name: "search", args: { query: "rag" } },
+        state: { messages: [] },
+        runtime: { signal },
+      };
+      return middleware.wrapToolCall!(request as any, handler) as Promise<ToolMessage>;
+    }
+
+    test("should catch rejected async tool calls", async () => {
+      const executor = new ToolExecutor();
+
+      const message = await callTool(executor, async () => {
+        throw new Error("Cannot read properties of undefined");
+      });
+
+      expect(message.status).toBe("error");
+      expect(message.content).toContain("Tool error (unknown)");
+      expect((message.artifact as ToolFailure).attempts).toBe(1);
+    });
+
+    test("should retry upstream failures before reporting them", async () => {
+      const executor = new ToolExecutor();
+      let calls = 0;
+
+      const message = await callTool(executor, async () => {
+        calls++;
+        if (calls < 3) throw new Error("connect ECONNREFUSED 127.0.0.1:80");
+        return new ToolMessage({ content: "results", tool_call_id: "call_1" });
+      });
+
+      expect(message.content).toBe("results");
+      expect(calls).toBe(3);
+      expect(executor.getStatistics().byTool.search.count).toBe(1);
+      const [entry] = executor.getHistory();
+      expect(entry.success).toBe(true);
+      expect(entry.attempts!.map(attempt => attempt.failureKind)).toEqual(["upstream", "upstream", undefined]);
+      expect(entry.attempts![0].delay).toBeGreaterThan(0);
+    });
+
+    test("should use the retry policy the tool was registered with", async () => {
+      const executor = new ToolExecutor();
+      const toolService = new ToolService();
+      toolService.registerTool(
+        tool(async () => "results", { name: "search", description: "Search", schema: z.object({ query: z.string() }) }),
+        { retry: { maxAttempts: 1 } }
+      );
+      let calls = 0;
+
+      const message = await callTool(executor, async () => {
+        calls++;
+        throw new Error("connect ECONNREFUSED 127.0.0.1:80");
+      }, toolService);
+
+      expect(calls).toBe(1);
+      expect((message.artifact as ToolFailure).attempts).toBe(1);
+      expect(executor.getHistory()[0].attempts).toHaveLength(1);
+    });
+
+    test("should stop waiting for a retry once the run is cancelled", async () => {
+      const executor = new ToolExecutor();
+      const controller = new AbortController();
+      const middleware = createHandleToolErrors({ executor, toolService: new ToolService(), retryPolicy: { initialDelay: 5000 } });
+      let calls = 0;
+      setTimeout(() => controller.abort(new Error("Client disconnected")), 20);
+
+      const startTime = Date.now();
+      let failure: unknown;
+      try {
+        await middleware.wrapToolCall!({
+          toolCall: { id: "call_1", name: "search", args: { query: "rag" } },
+          state: { messages: [] },
+          runtime: { signal: controller.signal },
+        } as any, async () => {
+          calls++;
+          throw new Error("connect ECONNREFUSED 127.0.0.1:80");
+        });
+      } catch (error) {
+        failure = error;
+      }
+
+      expect(String(failure)).toContain("Client disconnected");
+      expect(Date.now() - startTime).toBeLessThan(1000);
+      expect(calls).toBe(1);
+      expect(executor.getHistory()).toHaveLength(0);
+    });
+
+    test("should report validation failures without retrying", async () => {
+      const executor = new ToolExecutor();
+      let calls = 0;
+
+      const message = await callTool(executor, async () => {
+        calls++;
+        throw Object.assign(new Error("Bad query"), { status: 400 });
+      });
+
+      expect(calls).toBe(1);
+      expect((message.artifact as ToolFailure).kind).toBe("validation");
+      expect(message.content).toContain("Fix them to match the tool schema");
+      expect(executor.getStatistics().failureCount).toBe(1);
+    });
+
+    test("should keep the agent running when an async tool rejects", async () => {
+      const flaky = tool(async () => {
+        throw new Error("Permission denied for this index");
+      }, { name: "search", description: "Search", schema: z.object({ query: z.string() }) });
+      AgentModels.override(new FakeChatModel({
+        responses: [
+          { toolCalls: [{ name: "search", args: { query: "rag" } }] },
+          { structured: article },
+        ],
+      }));
+
+      try {
+        const result = await AgentFactory.createArticleAgent({ tools: [flaky] }).invoke(
+          { messages: [new HumanMessage("Write about RAG")], userPreferences: {} },
+          { context: { userRole: "expert" } }
+        );
+        const failed = result.messages.find(message => ToolMessage.isInstance(message)) as ToolMessage;
+
+        expect(failed.status).toBe("error");
+        expect((failed.artifact as ToolFailure).kind).toBe("permission");
+        expect(ResponseParser.parse(result).success).toBe(true);
+      } finally {
+        AgentModels.reset();
+      }
+    });
+
+    test("should trace the tool call with its attempts and retries", async () => {
+      const exporter = new InMemorySpanExporter();
+      Tracer.configure({ exporters: [exporter] });
+      const middleware = withTracing(createHandleToolErrors({
+        executor: new ToolExecutor(),
+        toolService: new ToolService(),
+        retryPolicy: { initialDelay: 1 },
+      }));
+      const request = {
+        toolCall: { id: "call_1", name: "search", args: { query: "rag" } },
+        state: { messages: [] },
+        runtime: {},
+      };
+
+      try {
+        await middleware.wrapToolCall!(request as any, async () => {
+          throw new Error("Request timed out");
+        });
+      } finally {
+        Tracer.reset();
+      }
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span.name).toBe("middleware.HandleToolErrors.tool_call");
+      expect(span.attributes["gen_ai.tool.name"]).toBe("search");
+      expect(span.attributes["tool.attempts"]).toBe(3);
+      expect(span.attributes["tool.failure_kind"]).toBe("timeout");
+      expect(span.events.filter(event => event.name === "retry")).toHaveLength(2);
+      expect(span.status.code).toBe("error");
+    });
+
+    test("should feed call outcomes to the tool's circuit breaker and refuse calls once open", async () => {
+      const toolService = new ToolService({ circuitBreaker: { minimumCalls: 2, openDuration: 60_000 } });
+      toolService.registerTool(tool(async () => "results", {
+        name: "search",
+        description: "Search",
+        schema: z.object({ query: z.string() }),
+      }));
+      let calls = 0;
+      const failing = async (): Promise<ToolMessage> => {
+        calls++;
+        throw new Error("Request timed out");
+      };
+
+      await callTool(new ToolExecutor(), failing, toolService);
+      await callTool(new ToolExecutor(), failing, toolService);
+      const refused = await callTool(new ToolExecutor(), failing, toolService);
+
+      expect(calls).toBe(6); // two calls, each retried twice
+      expect(toolService.getExecutionStats().totalExecutions).toBe(2);
+      expect(toolService.isAvailable("search")).toBe(false);
+      expect(refused.status).toBe("error");
+      expect(refused.artifact).toMatchObject({ kind: "upstream", attempts: 0 });
+    });
+  });
+
+  describe("toolHealthFilter", () => {
+    test("should hide tools whose circuit breaker is open from the model", async () => {
+      const toolService = new ToolService({ circuitBreaker: { minimumCalls: 1, openDuration: 60_000 } });
+      const schema = z.object({ query: z.string() });
+      const search = tool(async () => "results", { name: "search", description: "Search", schema });
+      const lookup = tool(async () => "found", { name: "lookup", description: "Lookup", schema });
+      const unregistered = tool(async () => "ok", { name: "other", description: "Other", schema });
+      toolService.registerTool(search);
+      toolService.registerTool(lookup);
+      toolService.recordResult({ success: false, failureKind: "upstream", executionTime: 1, toolName: "search", args: {} });
+
+      let offered: string[] = [];
+      await createToolHealthFilter(toolService).wrapModelCall!(
+        { tools: [search, lookup, unregistered] } as any,
+        async request => {
+          offered = request.tools.map(tool => String(tool.name));
+          return new AIMessage("done");
+        }
+      );
+
+      expect(offered).toEqual(["lookup", "other"]);
+    });
+  });
+
+  describe("budgetGuard", () => {
+    afterEach(() => {
+      AgentModels.reset();
+      SearchService.reset();
+    });
+
+    // One search call that spends 1200 tokens, then the article
+    function createAgent() {
+      SearchService.setProvider(new LocalSearchProvider([
+        { title: "RAG", url: ragUrl, content: "Retrieval augmented generation grounds answers in documents." },
+      ]));
+      AgentModels.override(new FakeChatModel({
+        model: "gpt-4o-mini",
+        responses: [
+          { toolCalls: [{ name: "search", args: { query: "retrieval augmented generation" } }], usage: { inputTokens: 1000, outputTokens: 200 } },
+          { structured: article, usage: { inputTokens: 1500, outputTokens: 300 } },
+        ],
+      }));
+      return AgentFactory.createArticleAgent();
+    }
+
+    async function generate(budget: Budget) {
+      const result = await createAgent().invoke(
+        { messages: [new HumanMessage("Write about RAG")], userPreferences: {} },
+        { context: { userRole: "expert", budget } }
+      );
+      const parsed = ResponseParser.parse(result);
+
+      return {
+        messages: result.messages as BaseMessage[],
+        usage: (result as { budgetUsage?: BudgetUsage }).budgetUsage,
+        article: parsed.success ? parsed.data : undefined,
+      };
+    }
+
+    test("should have correct middleware name", () => {
+      expect(budgetGuard.name).toBe("BudgetGuard");
+    });
+
+    test("should resolve the budget from defaults, persona and context", () => {
+      const executive = PersonaRegistry.get("executive");
+
+      expect(BudgetGuard.resolve(executive).onHardLimit).toBe("end");
+      expect(BudgetGuard.resolve(executive).softLimitRatio).toBe(AGENT_CONFIG.budget.softLimitRatio);
+      expect(BudgetGuard.resolve(executive, { maxTokens: 10 }).maxTokens).toBe(10);
+    });
+
+    test("should report soft and hard limits on tokens or cost", () => {
+      const budget = BudgetGuard.resolve(PersonaRegistry.get("expert"), { maxTokens: 1000, maxCostUsd: 0.01 });
+      const usage = { inputTokens: 0, outputTokens: 0, costUsd: 0, modelCalls: 1 };
+
+      expect(BudgetGuard.status(usage, budget)).toBe("ok");
+      expect(BudgetGuard.status({ ...usage, inputTokens: 850 }, budget)).toBe("soft_limit");
+      expect(BudgetGuard.status({ ...usage, inputTokens: 1000 }, budget)).toBe("hard_limit");
+      expect(BudgetGuard.status({ ...usage, costUsd: 0.02 }, budget)).toBe("hard_limit");
+    });
+
+    test("should add usage and estimated cost from model responses", () => {
+      const message = new AIMessage({
+        content: "",
+        usage_metadata: { input_tokens: 1000, output_tokens: 500, total_tokens: 1500 },
+        response_metadata: { model_name: "gpt-4o-mini" },
+      });
+
+      const usage = BudgetGuard.add({ inputTokens: 0, outputTokens: 0, costUsd: 0, modelCalls: 0 }, message);
+
+      expect(usage.inputTokens).toBe(1000);
+      expect(usage.outputTokens).toBe(500);
+      expect(usage.costUsd).toBeGreaterThan(0);
+      expect(usage.modelCalls).toBe(1);
+    });
+
+    test("should track usage in agent state and warn at the soft limit", async () => {
+      const sink = new MemoryLogSink();
+      Logger.addSink(sink);
+
+      try {
+        const { usage, article } = await generate({ maxTokens: 3500 });
+        const warnings = sink.find("warn").map(entry => entry.message);
+
+        expect(usage?.inputTokens).toBe(2500);
+        expect(usage?.modelCalls).toBe(2);
+        expect(article?.title).toBe("RAG");
+        expect(warnings.filter(message => message.includes("soft limit"))).toHaveLength(1);
+      } finally {
+        Logger.removeSink(sink);
+      }
+    });
+
+    test("should finish on the basic model without tools at the hard limit", async () => {
+      const { messages, article } = await generate({ maxTokens: 1000, onHardLimit: "downgrade" });
+      const budgets = messages.map(message => (message.response_metadata as Record<string, any>).budget).filter(Boolean);
+
+      expect(article?.title).toBe("RAG");
+      expect(budgets.map(budget => budget.action)).toEqual(["downgrade"]);
+    });
+
+    test("should end with a partial article at the hard limit", async () => {
+      const { usage, article } = await generate({ maxTokens: 1000, onHardLimit: "end" });
+
+      expect(usage?.modelCalls).toBe(1);
+      expect(article?.title).toContain("Partial article");
+      expect(article?.content).toContain(SearchService.sourceId(ragUrl));
+    });
+
+    // deep_research plans (400 tokens) and synthesizes (2000 tokens) with the same model
+    async function research(budget: Budget, synthesis = "RAG grounds answers.") {
+      SearchService.setProvider(new LocalSearchProvider([
+        { title: "RAG", url: ragUrl, content: "Retrieval augmented generation grounds answers in documents." },
+      ]));
+      const model = new FakeChatModel({
+        model: "gpt-4o-mini",
+        responses: [
+          { toolCalls: [{ name: "deep_research", args: { topic: "RAG", focus: "basics" } }], usage: { inputTokens: 100, outputTokens: 20 } },
+          { structured: { subQuestions: ["retrieval augmented generation"] }, usage: { inputTokens: 300, outputTokens: 100 } },
+          { content: synthesis, usage: { inputTokens: 1500, outputTokens: 500 } },
+          { structured: article, usage: { inputTokens: 100, outputTokens: 20 } },
+        ],
+      });
+      AgentModels.override(model);
+
+      const result = await AgentFactory.createArticleAgent().invoke(
+        { messages: [new HumanMessage("Research RAG")], userPreferences: {} },
+        { context: { userRole: "expert", budget } }
+      );
+      const parsed = ResponseParser.parse(result);
+      const messages = result.messages as BaseMessage[];
+
+      return {
+        model,
+        report: messages.find(message => ToolMessage.isInstance(message))?.content as string,
+        usage: (result as { budgetUsage?: BudgetUsage }).budgetUsage,
+        article: parsed.success ? parsed.data : undefined,
+      };
+    }
+
+    test("should count deep_research model calls against the run budget", async () => {
+      const { usage, article } = await research({ maxTokens: 10_000 });
+
+      expect(usage?.inputTokens).toBe(2000);
+      expect(usage?.outputTokens).toBe(640);
+      expect(usage?.modelCalls).toBe(4);
+      expect(article?.title).toBe("RAG");
+    });
+
+    test("should end the run when deep_research pushes it over maxTokens", async () => {
+      const { usage, article, model } = await research({ maxTokens: 2000, onHardLimit: "end" });
+
+      expect(usage?.inputTokens).toBe(1900);
+      expect(usage?.modelCalls).toBe(3);
+      expect(model.calls).toHaveLength(3);
+      expect(article?.title).toContain("Partial article");
+      expect(article?.content).toContain(SearchService.sourceId(ragUrl));
+    });
+
+    test("should skip deep_research synthesis once the budget is exhausted", async () => {
+      const { usage, report, article, model } = await research({ maxTokens: 500, onHardLimit: "end" }, "never sent");
+
+      expect(report).toContain("budget ran out");
+      expect(report).toContain(SearchService.sourceId(ragUrl));
+      expect(usage?.modelCalls).toBe(2);
+      expect(model.calls).toHaveLength(2);
+      expect(article?.title).toContain("Partial article");
+    });
   });
 });
@@ -0,0 +1,108 @@
+/// <reference path="./globals.d.ts" />
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PersonaRegistry, contextSchema } from "../config/personas.js";
+import { USER_ROLES } from "../config/constants.js";
+import { AgentConfigurationError } from "../core/types.js";
+
+describe("PersonaRegistry", () => {
+  afterEach(() => {
+    PersonaRegistry.reset();
+  });
+
+  describe("config files", () => {
+    test("should load the bundled personas", () => {
+      const ids = PersonaRegistry.ids();
+
+      expect(ids).toContain(USER_ROLES.BEGINNER);
+      expect(ids).toContain(USER_ROLES.EXPERT);
+      expect(ids).toContain("executive");
+    });
+
+    test("should carry tier, tools and length hints", () => {
+      const expert = PersonaRegistry.get(USER_ROLES.EXPERT);
+      const executive = PersonaRegistry.get("executive");
+
+      expect(expert.modelTier).toBe("advanced");
+      expect(expert.outputLength?.targetWords).toBeGreaterThan(0);
+      expect(executive.allowedTools).toEqual(["search"]);
+    });
+
+    test("should load personas from another directory", () => {
+      const dir = mkdtempSync(join(tmpdir(), "personas-"));
+      writeFileSync(join(dir, "reviewer.json"), JSON.stringify({
+        id: "reviewer",
+        name: "Reviewer",
+        systemPrompt: "You review articles as {{name}}."
+      }));
+
+      try {
+        const [reviewer] = PersonaRegistry.loadDirectory(dir);
+
+        expect(reviewer.modelTier).toBe("basic");
+        expect(PersonaRegistry.has("reviewer")).toBe(true);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    test("should reject invalid persona files", () => {
+      const dir = mkdtempSync(join(tmpdir(), "personas-"));
+      writeFileSync(join(dir, "broken.json"), JSON.stringify({ id: "Not Valid", name: "x" }));
+
+      try {
+        expect(() => PersonaRegistry.loadDirectory(dir)).toThrow();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("lookup", () => {
+    test("should throw AgentConfigurationError for unknown personas", () => {
+      let error: unknown;
+      try {
+        PersonaRegistry.get("unknown");
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(AgentConfigurationError);
+    });
+
+    test("should fall back to the beginner persona", () => {
+      expect(PersonaRegistry.resolve(undefined).id).toBe(USER_ROLES.BEGINNER);
+      expect(PersonaRegistry.resolve("unknown").id).toBe(USER_ROLES.BEGINNER);
+    });
+  });
+
+  describe("renderSystemPrompt", () => {
+    test("should fill template placeholders", () => {
+      const persona = PersonaRegistry.register({
+        id: "tester",
+        name: "Tester",
+        systemPrompt: "As {{name}}, write {{targetWords}} words. {{unknown}} stays.",
+        outputLength: { targetWords: 120 }
+      });
+
+      expect(PersonaRegistry.renderSystemPrompt(persona)).toBe(
+        "As Tester, write 120 words. {{unknown}} stays."
+      );
+    });
+  });
+
+  describe("contextSchema", () => {
+    test("should accept any registered persona", () => {
+      PersonaRegistry.register({ id: "custom", name: "Custom", systemPrompt: "Custom prompt" });
+
+      expect(contextSchema.parse({ userRole: "custom" }).userRole).toBe("custom");
+      expect(contextSchema.parse({ userRole: "executive" }).userRole).toBe("executive");
+    });
+
+    test("should reject unknown personas", () => {
+      expect(() => contextSchema.parse({ userRole: "unknown" })).toThrow();
+    });
+  });
+});
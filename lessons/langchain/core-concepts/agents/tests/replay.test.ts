@@ -0,0 +1,135 @@
+/// <reference path="./globals.d.ts" />
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { tool } from "langchain";
+import * as z from "zod";
+import { AgentFactory } from "../core/agent-factory.js";
+import { AgentService } from "../core/agent-service.js";
+import { RunRecorder, RunReplayer } from "../core/replay/index.js";
+import { LocalSearchProvider, SearchService } from "../core/search/index.js";
+import type { SearchProvider } from "../core/search/index.js";
+import { AgentModels } from "../config/models.js";
+import type { RunFile } from "../config/schemas.js";
+import { FakeChatModel } from "../../models/core/fake-chat-model.js";
+
+const article = { title: "RAG", subtitle: "Grounded answers", content: "RAG retrieves documents.", readingTime: 1, date: "2025-01-01" };
+
+// Fails the test if a replay reaches the real search tool
+const unreachableSearch: SearchProvider = {
+  name: "unreachable",
+  search: async () => {
+    throw new Error("search must not run during replay");
+  },
+};
+
+describe("Run recording and replay", () => {
+  afterEach(() => {
+    AgentModels.reset();
+    SearchService.reset();
+  });
+
+  // One search call, then the article
+  async function recordRun(tools?: NonNullable<Parameters<typeof AgentFactory.createArticleAgent>[0]>["tools"]): Promise<RunFile> {
+    SearchService.setProvider(new LocalSearchProvider([
+      { title: "RAG", url: "https://example.com/rag", content: "Retrieval augmented generation grounds answers in documents." },
+    ]));
+    const recorder = new RunRecorder();
+
+    await AgentModels.withOverride(new FakeChatModel({
+      model: "gpt-4o-mini",
+      responses: [
+        { toolCalls: [{ id: "call_1", name: "search", args: { query: "rag" } }], usage: { inputTokens: 800, outputTokens: 40 } },
+        { structured: article, usage: { inputTokens: 1200, outputTokens: 300 } },
+      ],
+    }), async () => {
+      const service = new AgentService(AgentFactory.createArticleAgent({ tools }));
+      await service.generateArticle("Write about RAG", "expert", { recorder, budget: { maxTokens: 40000 } });
+    });
+
+    return recorder.toJSON();
+  }
+
+  test("should record the input, model calls, tool calls and decisions", async () => {
+    const run = await recordRun();
+
+    expect(run.input.prompt).toBe("Write about RAG");
+    expect(run.input.context.budget).toEqual({ maxTokens: 40000 });
+    expect(run.input.messages.map(message => message.type)).toEqual(["human"]);
+    expect(run.modelCalls).toHaveLength(2);
+    expect(run.modelCalls[0].model).toBe("gpt-4o-mini");
+    expect(run.modelCalls[0].tools).toContain("search");
+    expect(run.modelCalls[0].request[0].type).toBe("system");
+    expect(run.modelCalls[1].structuredResponse).toEqual(article);
+    expect(run.toolCalls[0].name).toBe("search");
+    expect(run.toolCalls[0].result?.data.content).toContain("example.com/rag");
+    expect(run.decisions.filter(decision => decision.type === "routing")).toHaveLength(2);
+    expect(run.output?.structuredResponse).toEqual(article);
+  });
+
+  test("should write a run file that loads back", async () => {
+    const run = await recordRun();
+    const directory = await mkdtemp(join(tmpdir(), "runs-"));
+    const recorder = new RunRecorder();
+    Object.assign(recorder, { run });
+
+    try {
+      await recorder.save(join(directory, "run.json"));
+      const replayer = await RunReplayer.load(join(directory, "run.json"));
+
+      expect(replayer.run).toEqual(run);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test("should replay a run from its recorded outputs", async () => {
+    const run = await recordRun();
+    SearchService.setProvider(unreachableSearch);
+
+    const result = await new RunReplayer(run).replay();
+
+    expect(result.divergences).toEqual([]);
+    expect(result.error).toBeUndefined();
+    expect(result.response?.structuredResponse).toEqual(article);
+    expect(result.run.modelCalls.map(call => call.model)).toEqual(["gpt-4o-mini", "gpt-4o-mini"]);
+    expect(AgentModels.hasOverrides()).toBe(false);
+  });
+
+  test("should reproduce recorded tool failures", async () => {
+    const failing = tool(async () => {
+      throw new Error("Permission denied for this index");
+    }, { name: "search", description: "Search", schema: z.object({ query: z.string() }) });
+    const run = await recordRun([failing]);
+
+    const result = await new RunReplayer(run).replay();
+    const failures = result.run.decisions.filter(decision => decision.type === "tool_error");
+
+    expect(run.toolCalls[0].error?.message).toBe("Permission denied for this index");
+    expect(result.divergences).toEqual([]);
+    expect(failures.map(failure => failure.detail.kind)).toEqual(["permission"]);
+  });
+
+  test("should restore the thread history the run started with", async () => {
+    const run = await recordRun();
+    const history = RunRecorder.toStored([new HumanMessage("Earlier question"), new AIMessage("Earlier answer")]);
+    run.input.messages = [...history, ...run.input.messages];
+
+    const result = await new RunReplayer(run).replay();
+
+    expect(result.run.input.messages).toHaveLength(3);
+    expect(result.run.modelCalls[0].request.map(message => message.type)).toEqual(["system", "human", "ai", "human"]);
+  });
+
+  test("should report where a replay diverges", async () => {
+    const run = await recordRun();
+    run.modelCalls[0].response!.data.tool_calls = [];
+
+    const result = await new RunReplayer(run).replay();
+
+    expect(result.divergences).toContain("model calls: expected 2, got 1");
+    expect(result.divergences).toContain("tool calls: expected 1, got 0");
+  });
+});
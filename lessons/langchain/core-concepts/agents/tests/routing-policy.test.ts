@@ -0,0 +1,149 @@
+/// <reference path="./globals.d.ts" />
+
+import { createAgent } from "langchain";
+import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { RoutingPolicy } from "../core/routing-policy.js";
+import { createDynamicModelSelection } from "../core/middlewares/model-selection.js";
+import { PersonaRegistry } from "../config/personas.js";
+import { AgentModels } from "../config/models.js";
+import { AGENT_CONFIG, USER_ROLES } from "../config/constants.js";
+import { FakeChatModel } from "../../models/core/fake-chat-model.js";
+
+const beginner = () => PersonaRegistry.get(USER_ROLES.BEGINNER);
+const expert = () => PersonaRegistry.get(USER_ROLES.EXPERT);
+
+// ~4 characters per estimated token
+const promptOfTokens = (tokens: number) => new HumanMessage("word ".repeat(Math.ceil(tokens * 4 / 5)));
+
+const toolRound = (index: number) => [
+  new AIMessage({ content: "", tool_calls: [{ id: `call_${index}`, name: "search", args: { query: "x" } }] }),
+  new ToolMessage({ content: "results", tool_call_id: `call_${index}` }),
+];
+
+describe("RoutingPolicy", () => {
+  test("should keep short prompts on the basic model", () => {
+    const decision = RoutingPolicy.decide({
+      messages: [new HumanMessage("What is LangChain?")],
+      persona: beginner(),
+      structuredOutput: true,
+    });
+
+    expect(decision.tier).toBe("basic");
+    expect(decision.model).toBe(AGENT_CONFIG.models.base);
+    expect(decision.score).toBe(AGENT_CONFIG.routing.points.structuredOutput);
+  });
+
+  test("should upgrade a long single-message prompt", () => {
+    const decision = RoutingPolicy.decide({
+      messages: [promptOfTokens(AGENT_CONFIG.routing.promptTokens.long)],
+      persona: beginner(),
+    });
+
+    expect(decision.tier).toBe("advanced");
+    expect(decision.estimatedPromptTokens).toBeGreaterThan(AGENT_CONFIG.routing.promptTokens.long - 1);
+    expect(decision.explanation).toContain("long prompt");
+  });
+
+  test("should not upgrade a chatty thread of short messages", () => {
+    const messages = Array.from({ length: 30 }, (_, index) =>
+      index % 2 === 0 ? new HumanMessage("ok, thanks") : new AIMessage("You're welcome!")
+    );
+
+    const decision = RoutingPolicy.decide({ messages, persona: beginner(), structuredOutput: true });
+
+    expect(decision.tier).toBe("basic");
+  });
+
+  test("should count tool-call rounds since the last human message", () => {
+    const messages = [
+      new HumanMessage("earlier question"),
+      ...toolRound(1),
+      new HumanMessage("research this"),
+      ...toolRound(2),
+      ...toolRound(3),
+    ];
+
+    expect(RoutingPolicy.toolCallDepth(messages)).toBe(2);
+  });
+
+  test("should upgrade deep tool use on a medium prompt with structured output", () => {
+    const decision = RoutingPolicy.decide({
+      messages: [promptOfTokens(AGENT_CONFIG.routing.promptTokens.medium), ...toolRound(1), ...toolRound(2)],
+      persona: beginner(),
+      structuredOutput: true,
+    });
+
+    expect(decision.tier).toBe("advanced");
+    expect(decision.score).toBe(AGENT_CONFIG.routing.upgradeScore);
+  });
+
+  test("should follow the persona's advanced tier", () => {
+    const decision = RoutingPolicy.decide({
+      messages: [new HumanMessage("Compare vector databases")],
+      persona: expert(),
+      structuredOutput: true,
+    });
+
+    expect(decision.tier).toBe("advanced");
+    expect(decision.explanation).toContain("persona \"expert\"");
+  });
+
+  test("should stay on the basic model when the advanced one exceeds the budget", () => {
+    const decision = RoutingPolicy.decide({
+      messages: [new HumanMessage("Compare vector databases")],
+      persona: expert(),
+      structuredOutput: true,
+      maxCostUsd: 0.001,
+    });
+
+    expect(decision.tier).toBe("basic");
+    expect(decision.budgetLimited).toBe(true);
+    expect(decision.explanation).toContain("budget");
+  });
+
+  test("should allow the advanced model within budget", () => {
+    const decision = RoutingPolicy.decide({
+      messages: [new HumanMessage("Compare vector databases")],
+      persona: expert(),
+      structuredOutput: true,
+      maxCostUsd: 1,
+    });
+
+    expect(decision.tier).toBe("advanced");
+    expect(decision.budgetLimited).toBe(false);
+    expect(decision.estimatedCostUsd).toBeGreaterThan(0);
+  });
+
+  test("should not estimate a cost for unpriced models", () => {
+    expect(RoutingPolicy.estimateCost("unknown-model", 1000, 1000)).toBe(undefined);
+    expect(RoutingPolicy.estimateCost(AGENT_CONFIG.models.advanced, 1_000_000, 0)).toBeGreaterThan(0);
+  });
+});
+
+describe("DynamicModelSelection routing", () => {
+  afterEach(() => {
+    AgentModels.reset();
+  });
+
+  test("should call the routed model and attach the decision", async () => {
+    const basic = new FakeChatModel({ responses: ["basic answer"] });
+    const advanced = new FakeChatModel({ responses: ["advanced answer"] });
+    AgentModels.override(basic, AGENT_CONFIG.models.base);
+    AgentModels.override(advanced, AGENT_CONFIG.models.advanced);
+
+    const agent = createAgent({
+      model: new FakeChatModel(),
+      middleware: [createDynamicModelSelection()],
+    });
+
+    const result = await agent.invoke(
+      { messages: [new HumanMessage("hello")] },
+      { context: { userRole: USER_ROLES.EXPERT } }
+    );
+    const reply = result.messages.at(-1) as AIMessage;
+
+    expect(reply.content).toBe("advanced answer");
+    expect(basic.calls).toHaveLength(0);
+    expect((reply.response_metadata.routing as { tier: string }).tier).toBe("advanced");
+  });
+});
@@ -0,0 +1,202 @@
+/// <reference path="./globals.d.ts" />
+
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { ToolMessage } from "@langchain/core/messages";
+import {
+  HttpSearchProvider,
+  LocalSearchProvider,
+  SearchProviderError,
+  SearchService,
+  type SearchHit,
+  type SearchResult,
+} from "../core/search/index.js";
+import { search } from "../core/tools/index.js";
+
+const documents = [
+  {
+    title: "LangGraph checkpointers",
+    url: "https://example.com/langgraph/checkpointers",
+    content: "Checkpointers persist graph state per thread. They enable memory and time travel.",
+  },
+  {
+    title: "Vector search",
+    url: "https://example.com/vectors",
+    content: "Embeddings are compared with cosine similarity. LangGraph agents often call vector search.",
+  },
+  {
+    title: "Cooking pasta",
+    url: "https://example.com/pasta",
+    content: "Boil salted water and cook the pasta until al dente.",
+  },
+];
+
+function startServer(handler: (url: URL) => { status?: number; body: unknown }): Promise<{ server: Server; baseUrl: string; requests: URL[] }> {
+  const requests: URL[] = [];
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    requests.push(url);
+    const { status = 200, body } = handler(url);
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(body));
+  });
+
+  return new Promise(resolve => server.listen(0, "127.0.0.1", () => {
+    const { port } = server.address() as AddressInfo;
+    resolve({ server, baseUrl: `http://127.0.0.1:${port}/api`, requests });
+  }));
+}
+
+async function captureError(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+describe("LocalSearchProvider", () => {
+  test("should rank documents by relevance", async () => {
+    const provider = new LocalSearchProvider(documents);
+    const results = await provider.search("langgraph checkpointers");
+
+    expect(results.map(result => result.url)).toEqual([
+      "https://example.com/langgraph/checkpointers",
+      "https://example.com/vectors",
+    ]);
+    expect(results[0].score).toBe(1);
+    expect(results[1].score).toBeGreaterThan(0);
+  });
+
+  test("should pick the most relevant sentence as snippet", async () => {
+    const provider = new LocalSearchProvider(documents);
+    const [result] = await provider.search("cosine similarity");
+
+    expect(result.snippet).toBe("Embeddings are compared with cosine similarity.");
+  });
+
+  test("should respect the limit and ignore unmatched queries", async () => {
+    const provider = new LocalSearchProvider(documents);
+
+    expect(await provider.search("langgraph", { limit: 1 })).toHaveLength(1);
+    expect(await provider.search("the of and")).toEqual([]);
+  });
+});
+
+describe("HttpSearchProvider", () => {
+  test("should query the backend and map results", async () => {
+    const { server, baseUrl, requests } = await startServer(() => ({
+      body: {
+        results: [
+          { title: "First", url: "https://a.example/1", snippet: "one" },
+          { title: "Second", url: "https://a.example/2", content: "two" },
+        ],
+      },
+    }));
+
+    try {
+      const provider = new HttpSearchProvider({ baseUrl });
+      const results = await provider.search("agents", { limit: 2 });
+
+      expect(requests[0].pathname).toBe("/api/search");
+      expect(requests[0].searchParams.get("q")).toBe("agents");
+      expect(requests[0].searchParams.get("limit")).toBe("2");
+      expect(results).toEqual([
+        { title: "First", url: "https://a.example/1", snippet: "one", score: 1 },
+        { title: "Second", url: "https://a.example/2", snippet: "two", score: 0.5 },
+      ]);
+    } finally {
+      server.close();
+    }
+  });
+
+  test("should raise SearchProviderError on backend failures", async () => {
+    const { server, baseUrl } = await startServer(() => ({ status: 503, body: { error: "down" } }));
+
+    try {
+      const error = await captureError(new HttpSearchProvider({ baseUrl }).search("agents"));
+      expect(error).toBeInstanceOf(SearchProviderError);
+    } finally {
+      server.close();
+    }
+  });
+
+  test("should reject unexpected response bodies", async () => {
+    const { server, baseUrl } = await startServer(() => ({ body: { hits: [] } }));
+
+    try {
+      const error = await captureError(new HttpSearchProvider({ baseUrl }).search("agents"));
+      expect((error as Error).message).toContain("unexpected body");
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe("SearchService", () => {
+  afterEach(() => {
+    SearchService.reset();
+  });
+
+  test("should deduplicate results by normalised URL", () => {
+    const results: SearchHit[] = [
+      { title: "A", url: "https://www.example.com/page/", snippet: "", score: 0.4 },
+      { title: "A again", url: "http://example.com/page?utm_source=feed#intro", snippet: "", score: 0.9 },
+      { title: "B", url: "https://example.com/other", snippet: "", score: 0.5 },
+    ];
+
+    expect(SearchService.deduplicate(results).map(result => result.title)).toEqual(["A again", "B"]);
+  });
+
+  test("should use the bundled local index by default", async () => {
+    const results = await SearchService.search("retrieval augmented generation");
+
+    expect(SearchService.getProvider().name).toBe("local");
+    expect(results[0].url).toBe("https://en.wikipedia.org/wiki/Retrieval-augmented_generation");
+  });
+
+  test("should feed the search tool from the configured provider", async () => {
+    SearchService.setProvider(new LocalSearchProvider(documents));
+
+    const message = await search.invoke({
+      type: "tool_call",
+      id: "call_1",
+      name: "search",
+      args: { query: "vector search" },
+    }) as ToolMessage;
+
+    expect(message.content).toContain(`[${SearchService.sourceId("https://example.com/vectors")}] Vector search`);
+    expect(message.content).toContain("URL: https://example.com/vectors");
+    expect((message.artifact as SearchResult[])[0].title).toBe("Vector search");
+  });
+
+  test("should cancel the provider request when the run is aborted", async () => {
+    let requestClosed!: () => void;
+    const closed = new Promise<void>(resolve => { requestClosed = resolve; });
+    // Never answers; the request only ends when the client goes away
+    const server = createServer(req => req.socket.on("close", requestClosed));
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    SearchService.setProvider(new HttpSearchProvider({ baseUrl: `http://127.0.0.1:${port}/api`, timeoutMs: 10_000 }));
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error("Client disconnected")), 50);
+
+    try {
+      const error = await captureError(search.invoke({ query: "agents" }, { signal: controller.signal }));
+      expect(String(error)).toContain("Client disconnected");
+      await closed;
+    } finally {
+      server.close();
+    }
+  });
+
+  test("should derive the same source ID for equivalent URLs", () => {
+    const id = SearchService.sourceId("https://example.com/page");
+
+    expect(id).toContain("src_");
+    expect(SearchService.sourceId("http://www.example.com/page/?utm_source=x")).toBe(id);
+    expect(SearchService.sourceId("https://example.com/other") === id).toBe(false);
+  });
+});
@@ -1,6 +1,11 @@
 /// <reference path="./globals.d.ts" />
 
 import { search, deepResearch } from "../core/tools/index.js";
+import { DeepResearcher } from "../core/research/deep-researcher.js";
+import { SearchService } from "../core/search/index.js";
+import { AgentModels } from "../config/models.js";
+import { FakeChatModel } from "../../models/core/fake-chat-model.js";
+import { ToolExecutor } from "../../tools/core/tool-executor.js";
 
 describe("Agent Tools", () => {
   describe("search tool", () => {
@@ -42,6 +47,11 @@ describe("Agent Tools", () => {
   });
 
   describe("deepResearch tool", () => {
+    afterEach(() => {
+      AgentModels.reset();
+      SearchService.reset();
+    });
+
     test("should have correct name and description", () => {
       expect(deepResearch.name).toBe("deep_research");
       expect(deepResearch.description).toBe(
@@ -49,24 +59,83 @@ describe("Agent Tools", () => {
       );
     });
 
-    test("should return research analysis for a topic", async () => {
-      const result = await deepResearch.invoke({
-        topic: "machine learning",
-        focus: "applications",
-      });
-      expect(result).toContain(
-        "Comprehensive analysis of machine learning reveals multiple key insights:"
+    test("should plan, search and synthesize a sourced report", async () => {
+      const sourceId = SearchService.sourceId("https://en.wikipedia.org/wiki/Machine_learning");
+      AgentModels.override(new FakeChatModel({
+        responses: [
+          { structured: { subQuestions: ["What is machine learning?", "machine learning applications"] } },
+          `Machine learning learns patterns from data [${sourceId}].`,
+        ]
+      }));
+      const updates: string[] = [];
+
+      const result = await deepResearch.invoke(
+        { topic: "machine learning", focus: "applications" },
+        { streamWriter: (message: string) => updates.push(message) } as any
       );
-      expect(result).toContain("applications");
+
+      expect(result).toContain("Research report: machine learning (focus: applications)");
+      expect(result).toContain("- machine learning applications");
+      expect(result).toContain(`Machine learning learns patterns from data [${sourceId}].`);
+      expect(result).toContain(`[${sourceId}] Machine learning - https://en.wikipedia.org/wiki/Machine_learning`);
+      expect(updates[0]).toBe('Planning research on "machine learning"');
+      expect(updates).toContain("Researching 2 sub-questions");
     });
 
-    test("should handle different topics", async () => {
-      const testTopics = ["AI", "blockchain", "quantum computing"];
+    test("should fall back to default sub-questions when planning fails", async () => {
+      AgentModels.override(new FakeChatModel({ responses: ["not a plan", "Summary."] }));
 
-      for (const topic of testTopics) {
-        const result = await deepResearch.invoke({ topic, focus: "applications" });
-        expect(result).toContain(`Comprehensive analysis of ${topic} reveals`);
-      }
+      const result = await deepResearch.invoke({ topic: "blockchain", focus: "applications" });
+
+      expect(result).toContain("- What is blockchain?");
+      expect(result).toContain("https://en.wikipedia.org/wiki/Blockchain");
+    });
+
+    test("should run searches through ToolExecutor with a concurrency limit", async () => {
+      AgentModels.override(new FakeChatModel({
+        responses: [{ structured: { subQuestions: ["a", "b", "c"] } }]
+      }));
+      const executor = new ToolExecutor();
+      const searches: string[] = [];
+      SearchService.setProvider({
+        name: "recording",
+        search: async (query: string) => {
+          searches.push(query);
+          return [];
+        }
+      });
+
+      const report = await new DeepResearcher(executor).research({ topic: "x" }, { concurrency: 2 });
+
+      expect(searches).toEqual(["a", "b", "c"]);
+      expect(executor.getToolHistory("search")).toHaveLength(3);
+      expect(report.sources).toEqual([]);
+      expect(report.summary).toBe("No sources were found for x.");
+    });
+
+    test("should report each search as soon as it finishes", async () => {
+      AgentModels.override(new FakeChatModel({
+        responses: [{ structured: { subQuestions: ["slow", "fast"] } }]
+      }));
+      SearchService.setProvider({
+        name: "timed",
+        search: async (query: string) => {
+          await new Promise(resolve => setTimeout(resolve, query === "slow" ? 50 : 1));
+          return [];
+        }
+      });
+      const updates: string[] = [];
+
+      const report = await new DeepResearcher(new ToolExecutor()).research(
+        { topic: "x" },
+        { concurrency: 2, onProgress: message => updates.push(message) }
+      );
+
+      expect(updates.filter(message => message.startsWith("Searched"))).toEqual([
+        "Searched (1/2): fast",
+        "Searched (2/2): slow",
+      ]);
+      expect(report.findings.map(finding => finding.question)).toEqual(["slow", "fast"]);
     });
 
     test("should have valid schema", () => {
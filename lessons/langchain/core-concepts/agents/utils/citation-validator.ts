@@ -0,0 +1,67 @@
+import type { BaseMessage } from "langchain";
+import { CitationValidationError } from "../core/types.js";
+import type { ArticleFormat, ArticleSource } from "../config/schemas.js";
+
+// Inline citation as written by the model: [src_1a2b3c4d]
+const CITATION_PATTERN = /\[(src_[0-9a-f]{8})\]/g;
+
+// Tools whose artifact is a list of sources with IDs, or an object with such a `sources` list
+const SOURCE_TOOLS = new Set(["search", "deep_research"]);
+
+export class CitationValidator {
+  /**
+   * Source IDs cited inline, in order of first appearance
+   */
+  static extractCitations(text: string): string[] {
+    return [...new Set([...text.matchAll(CITATION_PATTERN)].map(match => match[1]))];
+  }
+
+  /**
+   * Sources returned by the search tools anywhere in the transcript, keyed by ID
+   */
+  static collectSources(messages: BaseMessage[]): Map<string, ArticleSource> {
+    const sources = new Map<string, ArticleSource>();
+
+    for (const message of messages) {
+      const { name, artifact } = message as BaseMessage & { artifact?: any };
+      const items = Array.isArray(artifact) ? artifact : artifact?.sources;
+      if (message.getType() !== "tool" || !SOURCE_TOOLS.has(name ?? "") || !Array.isArray(items)) {
+        continue;
+      }
+      for (const item of items) {
+        if (typeof item?.id === "string" && !sources.has(item.id)) {
+          sources.set(item.id, { id: item.id, title: String(item.title), url: String(item.url) });
+        }
+      }
+    }
+
+    return sources;
+  }
+
+  /**
+   * Check that every cited or listed source ID came from a tool, and return the article
+   * with `sources` covering every inline citation, using the titles and URLs from the transcript
+   */
+  static validate(article: ArticleFormat, messages: BaseMessage[]): ArticleFormat {
+    const known = this.collectSources(messages);
+    const cited = this.extractCitations(article.content);
+    const listed = (article.sources ?? []).map(source => source.id);
+
+    const ids = [...new Set([...listed, ...cited])];
+    const unknown = ids.filter(id => !known.has(id));
+    if (unknown.length > 0) {
+      throw new CitationValidationError(
+        `Article cites sources that are not in the tool transcript: ${unknown.join(", ")}`,
+        {
+          issues: unknown.map(id => ({ id, message: `Unknown source ID "${id}"` })),
+          knownIds: [...known.keys()],
+        }
+      );
+    }
+
+    if (ids.length === 0) {
+      return article;
+    }
+    return { ...article, sources: ids.map(id => known.get(id)!) };
+  }
+}
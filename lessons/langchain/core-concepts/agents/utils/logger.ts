@@ -1,37 +1,12 @@
-import { isDevelopment } from "../config/env.js";
+import { Logger as SharedLogger } from "../../models/utils/logger.js";
 
-export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
-
-export class Logger {
-  private static formatMessage(level: LogLevel, message: string, data?: any): string {
-    const timestamp = new Date().toISOString();
-    const baseMessage = `[${timestamp}] [${level.toUpperCase()}] ${message}`;
-    
-    if (data) {
-      return `${baseMessage}\n${JSON.stringify(data, null, 2)}`;
-    }
-    
-    return baseMessage;
-  }
-
-  static debug(message: string, data?: any): void {
-    if (isDevelopment()) {
-      console.debug(this.formatMessage('debug', message, data));
-    }
-  }
-
-  static info(message: string, data?: any): void {
-    console.info(this.formatMessage('info', message, data));
-  }
-
-  static warn(message: string, data?: any): void {
-    console.warn(this.formatMessage('warn', message, data));
-  }
-
-  static error(message: string, data?: any): void {
-    console.error(this.formatMessage('error', message, data));
-  }
+export type { LogContext, LogEntry, LogLevel, LogSink, LoggerOptions } from "../../models/utils/logger.js";
+export { ConsoleLogSink, FileLogSink, MemoryLogSink } from "../../models/utils/logger.js";
 
+/**
+ * The shared Logger with agent-specific helpers; configuration, sinks and history are shared
+ */
+export class Logger extends SharedLogger {
   static agentResponse(userRole: string, response: any): void {
     this.debug(`Agent response for ${userRole}`, {
       userRole,
@@ -47,4 +22,4 @@ export class Logger {
   static streamChunk(content: string): void {
     this.debug(`Stream chunk: ${content.slice(0, 100)}${content.length > 100 ? '...' : ''}`);
   }
-}
\ No newline at end of file
+}
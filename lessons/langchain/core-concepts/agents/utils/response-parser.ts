@@ -1,38 +1,161 @@
-import type { ParsedResponse, ResponseParsingError } from "../core/types.js";
+import type z from "zod/v3";
+import { HumanMessage } from "@langchain/core/messages";
+import { ResponseParser as ModelResponseParser } from "../../models/utils/response-parser.js";
+import { articleSchema, type ArticleFormat } from "../config/schemas.js";
+import {
+  ResponseParsingError,
+  type ParsedResponse,
+  type StructuredParseResult,
+  type StructuredParseScope,
+  type StructuredResponseIssue,
+  type StructuredResponseSource,
+} from "../core/types.js";
+
+// Name of the synthetic tool createAgent binds for the tool strategy
+const STRUCTURED_TOOL_NAME = /^extract(-\d+)?$/;
+
+interface Candidate {
+  source: StructuredResponseSource;
+  value: unknown;
+}
 
 export class ResponseParser {
-  static parseStructuredResponse(result: any): ParsedResponse {
-    try {
-      const content = result.messages.at(-1)?.content as string;
-      
-      if (!content) {
-        throw new Error("No content found in agent response");
-      }
-      
-      const parsed = JSON.parse(content);
-      
-      // Validate the structure
-      if (!parsed.structuredResponse) {
-        throw new Error("Invalid response structure: missing structuredResponse");
-      }
-      
+  /**
+   * Find the structured response in an agent result and validate it against `schema`
+   *
+   * Looks at `result.structuredResponse` first, then the tool-strategy `extract` call,
+   * then JSON in the message text (including `{ structuredResponse }` wrappers).
+   * The first candidate that validates wins. On a thread the result also holds earlier
+   * turns, so only messages of the current run (see `scope`) are considered.
+   */
+  static parse<T = ArticleFormat>(
+    result: any,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown> = articleSchema as unknown as z.ZodType<T, z.ZodTypeDef, unknown>,
+    scope: StructuredParseScope = {}
+  ): StructuredParseResult<T> {
+    const messages: any[] = Array.isArray(result?.messages) ? result.messages : [];
+    const candidates = this.findCandidates(result, messages, scope);
+
+    if (candidates.length === 0) {
       return {
-        structuredResponse: parsed.structuredResponse,
-        messages: result.messages,
+        success: false,
+        error: "No structured response found in agent result",
+        issues: [],
+        repairHints: [
+          "Return the answer through the structured output tool, or as a single JSON object matching the schema.",
+        ],
+        messages,
+      };
+    }
+
+    let firstFailure: { candidate: Candidate; issues: StructuredResponseIssue[] } | undefined;
+    for (const candidate of candidates) {
+      const validated = schema.safeParse(candidate.value);
+      if (validated.success) {
+        return { success: true, data: validated.data, source: candidate.source, messages };
+      }
+      firstFailure ??= {
+        candidate,
+        issues: validated.error.issues.map(issue => ({
+          path: issue.path.join(".") || "(root)",
+          message: issue.message,
+        })),
       };
-    } catch (error) {
-      const parseError = new Error(`Failed to parse agent response: ${error instanceof Error ? error.message : 'Unknown error'}`) as ResponseParsingError;
-      parseError.name = 'ResponseParsingError';
-      parseError.context = { result, error };
-      throw parseError;
     }
+
+    const { candidate, issues } = firstFailure!;
+    return {
+      success: false,
+      error: `Structured response from ${candidate.source} does not match the schema`,
+      issues,
+      repairHints: issues.map(issue => this.repairHint(issue)),
+      raw: candidate.value,
+      source: candidate.source,
+      messages,
+    };
   }
-  
-  static safeParseStructuredResponse(result: any): ParsedResponse | null {
+
+  /**
+   * Parse the article response, throwing ResponseParsingError with issues and repair hints
+   */
+  static parseStructuredResponse(result: any, scope: StructuredParseScope = {}): ParsedResponse {
+    const parsed = this.parse(result, undefined, scope);
+
+    if (!parsed.success) {
+      throw new ResponseParsingError(`Failed to parse agent response: ${parsed.error}`, {
+        issues: parsed.issues,
+        repairHints: parsed.repairHints,
+        source: parsed.source,
+        raw: parsed.raw,
+      });
+    }
+
+    return {
+      structuredResponse: parsed.data,
+      messages: parsed.messages,
+    };
+  }
+
+  static safeParseStructuredResponse(result: any, scope: StructuredParseScope = {}): ParsedResponse | null {
     try {
-      return this.parseStructuredResponse(result);
+      return this.parseStructuredResponse(result, scope);
     } catch {
       return null;
     }
   }
-}
\ No newline at end of file
+
+  private static findCandidates(result: any, messages: any[], scope: StructuredParseScope): Candidate[] {
+    const candidates: Candidate[] = [];
+    const structured = result?.structuredResponse;
+
+    // A checkpointed structuredResponse the run did not replace belongs to an earlier turn
+    if (
+      structured !== undefined &&
+      structured !== null &&
+      !this.isSameValue(structured, scope.previousStructuredResponse)
+    ) {
+      candidates.push({ source: "state", value: structured });
+    }
+
+    const current = messages.slice(scope.startIndex ?? this.lastHumanIndex(messages));
+
+    // Latest messages first
+    for (const message of [...current].reverse()) {
+      const toolCall = message?.tool_calls?.find((call: any) => STRUCTURED_TOOL_NAME.test(call?.name ?? ""));
+      if (toolCall) {
+        candidates.push({ source: "tool_call", value: toolCall.args });
+      }
+    }
+
+    for (const message of [...current].reverse()) {
+      const text = typeof message?.content === "string" ? message.content : "";
+      if (!text.includes("{")) continue;
+
+      const json = ModelResponseParser.extractJSON(text);
+      if (json && typeof json === "object") {
+        // Middlewares wrap non-AIMessage results as `{ structuredResponse, messages }` JSON
+        candidates.push({ source: "message_json", value: json.structuredResponse ?? json });
+      }
+    }
+
+    return candidates;
+  }
+
+  private static lastHumanIndex(messages: any[]): number {
+    for (let index = messages.length - 1; index >= 0; index--) {
+      if (HumanMessage.isInstance(messages[index])) return index;
+    }
+    return 0;
+  }
+
+  private static isSameValue(value: unknown, previous: unknown): boolean {
+    return previous !== undefined && JSON.stringify(value) === JSON.stringify(previous);
+  }
+
+  private static repairHint(issue: StructuredResponseIssue): string {
+    if (/required/i.test(issue.message)) {
+      return `Add the required field "${issue.path}".`;
+    }
+    return `Fix "${issue.path}": ${issue.message}.`;
+  }
+}
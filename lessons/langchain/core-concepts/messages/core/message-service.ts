@@ -6,6 +6,14 @@
 import type { BaseMessage, AIMessage } from "@langchain/core/messages";
 import { MessageBuilder } from "./message-builder.js";
 import { MessageParser, type UsageMetadata } from "./message-parser.js";
+import { UsageLedger } from "../../models/core/usage-ledger.js";
+
+/**
+ * Token usage with its estimated cost in USD
+ */
+export interface ConversationUsage extends UsageMetadata {
+  cost_usd: number;
+}
 
 /**
  * Conversation history manager
@@ -13,10 +21,12 @@ import { MessageParser, type UsageMetadata } from "./message-parser.js";
 export class ConversationHistory {
   private messages: BaseMessage[] = [];
   private maxMessages?: number;
+  private threadId?: string;
 
-  constructor(initialMessages: BaseMessage[] = [], maxMessages?: number) {
+  constructor(initialMessages: BaseMessage[] = [], maxMessages?: number, threadId?: string) {
     this.messages = [...initialMessages];
     this.maxMessages = maxMessages;
+    this.threadId = threadId;
   }
 
   /**
@@ -89,10 +99,32 @@ export class ConversationHistory {
   }
 
   /**
-   * Get total token usage across all messages
+   * Get total token usage and estimated cost
+   *
+   * With a thread ID the totals come from the UsageLedger, which also counts model
+   * calls that left no message behind (tools, summarization). Otherwise they are
+   * summed from the messages, priced by each message's model.
    */
-  getTotalUsage(): UsageMetadata {
-    return MessageParser.calculateTotalTokens(this.messages);
+  getTotalUsage(): ConversationUsage {
+    if (this.threadId) {
+      const totals = UsageLedger.getTotals({ threadId: this.threadId });
+      return {
+        input_tokens: totals.inputTokens,
+        output_tokens: totals.outputTokens,
+        total_tokens: totals.totalTokens,
+        cost_usd: totals.costUsd,
+      };
+    }
+
+    const cost_usd = this.messages.reduce((sum, msg) => {
+      const usage = MessageParser.extractUsageMetadata(msg as AIMessage);
+      const metadata = (msg.response_metadata ?? {}) as Record<string, unknown>;
+      const model = metadata.model_name ?? metadata.model;
+      if (!usage || typeof model !== "string") return sum;
+      return sum + (UsageLedger.estimateCost(model, usage.input_tokens, usage.output_tokens) ?? 0);
+    }, 0);
+
+    return { ...MessageParser.calculateTotalTokens(this.messages), cost_usd };
   }
 
   /**
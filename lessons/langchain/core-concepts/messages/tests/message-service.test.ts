@@ -1,12 +1,14 @@
 /// <reference path="./globals.d.ts" />
 
-import { describe, test, expect, beforeEach } from "bun:test";
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { AIMessage } from "@langchain/core/messages";
 import {
   MessageBuilder,
   MessageService,
   MessageParser,
   ConversationHistory
 } from "../core/index.js";
+import { UsageLedger } from "../../models/core/usage-ledger.js";
 
 describe("MessageService", () => {
   describe("Conversation Creation", () => {
@@ -404,6 +406,32 @@ describe("ConversationHistory", () => {
       expect(usage).toBeDefined();
       expect(usage.total_tokens).toBeDefined();
     });
+
+    test("should price message usage by model", () => {
+      history.add(new AIMessage({
+        content: "Answer",
+        usage_metadata: { input_tokens: 1_000_000, output_tokens: 0, total_tokens: 1_000_000 },
+        response_metadata: { model_name: "gpt-4o-mini-2024-07-18" }
+      }));
+
+      expect(history.getTotalUsage().cost_usd).toBeCloseTo(0.15, 10);
+    });
+
+    describe("with a thread ID", () => {
+      afterEach(() => {
+        UsageLedger.reset();
+      });
+
+      test("should read totals from the usage ledger", () => {
+        UsageLedger.record({ model: "gpt-4o", threadId: "thread-1", inputTokens: 100, outputTokens: 50 });
+        UsageLedger.record({ model: "gpt-4o", threadId: "thread-2", inputTokens: 999, outputTokens: 999 });
+
+        const usage = new ConversationHistory([], undefined, "thread-1").getTotalUsage();
+
+        expect(usage.total_tokens).toBe(150);
+        expect(usage.cost_usd).toBeGreaterThan(0);
+      });
+    });
   });
 
   describe("Initialization", () => {
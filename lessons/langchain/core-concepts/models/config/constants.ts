@@ -10,7 +10,8 @@ export const MODEL_CONFIG = {
     AZURE: "azure",
     GOOGLE: "google",
     BEDROCK: "bedrock",
-    LOCAL: "local"
+    LOCAL: "local",
+    FAKE: "fake"
   },
   models: {
     // OpenAI models
@@ -28,6 +29,14 @@ export const MODEL_CONFIG = {
     google: {
       gemini: "gemini-2.5-flash-lite",
       geminiPro: "gemini-2.5-pro"
+    },
+    // Local OpenAI-compatible server models
+    local: {
+      default: "llama3.1"
+    },
+    // Deterministic offline model
+    fake: {
+      default: "fake-model"
     }
   },
   parameters: {
@@ -49,6 +58,13 @@ export const MODEL_CONFIG = {
       extended: 60
     }
   },
+  structuredOutput: {
+    // Model calls per request, including the first one
+    maxAttempts: 3,
+    toolName: "extract",
+    // Documents extracted at once by ModelService.extract
+    maxConcurrency: 5
+  },
   features: {
     TOOL_CALLING: "tool_calling",
     STRUCTURED_OUTPUT: "structured_output",
@@ -78,6 +94,22 @@ export const MODEL_CAPABILITIES = {
   ]
 } as const;
 
+/**
+ * Published list prices in USD per million tokens, used for cost estimates
+ * Local and fake models are free
+ */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  [MODEL_CONFIG.models.openai.gpt4]: { input: 2.5, output: 10 },
+  [MODEL_CONFIG.models.openai.gpt4Mini]: { input: 0.15, output: 0.6 },
+  [MODEL_CONFIG.models.openai.gpt3Turbo]: { input: 0.5, output: 1.5 },
+  [MODEL_CONFIG.models.anthropic.claudeSonnet]: { input: 3, output: 15 },
+  [MODEL_CONFIG.models.anthropic.claudeHaiku]: { input: 0.8, output: 4 },
+  [MODEL_CONFIG.models.google.gemini]: { input: 0.1, output: 0.4 },
+  [MODEL_CONFIG.models.google.geminiPro]: { input: 1.25, output: 10 },
+  [MODEL_CONFIG.models.local.default]: { input: 0, output: 0 },
+  [MODEL_CONFIG.models.fake.default]: { input: 0, output: 0 }
+};
+
 export const USE_CASES = {
   TEXT_GENERATION: "text_generation",
   CLASSIFICATION: "classification", 
@@ -27,6 +27,13 @@ const envSchema = z.object({
   AWS_SECRET_ACCESS_KEY: z.string().optional(),
   AWS_REGION: z.string().optional(),
   
+  // Local OpenAI-compatible server
+  LOCAL_MODEL_BASE_URL: z.string().url().optional(),
+  LOCAL_MODEL_API_KEY: z.string().optional(),
+  
+  // Fake model fixture file (JSON)
+  FAKE_MODEL_FIXTURES: z.string().optional(),
+  
   // Optional configurations
   LANGCHAIN_TRACING_V2: z.enum(["true", "false"]).optional(),
   LANGCHAIN_API_KEY: z.string().optional(),
@@ -57,24 +64,27 @@ export function validateEnv(): EnvConfig {
   const hasAzure = !!(env.AZURE_OPENAI_API_KEY && env.AZURE_OPENAI_ENDPOINT);
   const hasGoogle = !!env.GOOGLE_API_KEY;
   const hasBedrock = !!(env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY);
+  const hasLocal = !!env.LOCAL_MODEL_BASE_URL;
   
   const configuredProviders = [
     hasOpenAI && "OpenAI",
     hasAnthropic && "Anthropic", 
     hasAzure && "Azure OpenAI",
     hasGoogle && "Google",
-    hasBedrock && "AWS Bedrock"
+    hasBedrock && "AWS Bedrock",
+    hasLocal && "Local"
   ].filter(Boolean);
 
   if (configuredProviders.length === 0) {
     Logger.warn("No model providers configured", {
-      availableProviders: ["OpenAI", "Anthropic", "Azure OpenAI", "Google", "AWS Bedrock"],
+      availableProviders: ["OpenAI", "Anthropic", "Azure OpenAI", "Google", "AWS Bedrock", "Local"],
       requiredEnvVars: {
         OpenAI: ["OPENAI_API_KEY"],
         Anthropic: ["ANTHROPIC_API_KEY"],
         "Azure OpenAI": ["AZURE_OPENAI_API_KEY", "AZURE_OPENAI_ENDPOINT"],
         Google: ["GOOGLE_API_KEY"],
-        "AWS Bedrock": ["AWS_ACCESS_KEY_ID", "AWS_SECRET_ACCESS_KEY"]
+        "AWS Bedrock": ["AWS_ACCESS_KEY_ID", "AWS_SECRET_ACCESS_KEY"],
+        Local: ["LOCAL_MODEL_BASE_URL"]
       },
       timestamp: new Date().toISOString()
     });
@@ -85,6 +95,7 @@ export function validateEnv(): EnvConfig {
     console.warn("   • GOOGLE_API_KEY for Google models");
     console.warn("   • AZURE_OPENAI_API_KEY + AZURE_OPENAI_ENDPOINT for Azure");
     console.warn("   • AWS credentials for Bedrock");
+    console.warn("   • LOCAL_MODEL_BASE_URL for a local OpenAI-compatible server");
   } else {
     Logger.info("Model providers configured", {
       providers: configuredProviders,
@@ -113,6 +124,11 @@ export function isProviderConfigured(provider: string): boolean {
       return !!env.GOOGLE_API_KEY;
     case "bedrock":
       return !!(env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY);
+    case "local":
+      return !!env.LOCAL_MODEL_BASE_URL;
+    case "fake":
+      // Needs no credentials
+      return true;
     default:
       return false;
   }
@@ -122,7 +138,7 @@ export function isProviderConfigured(provider: string): boolean {
  * Get available providers based on environment configuration
  */
 export function getAvailableProviders(): string[] {
-  const providers = ["openai", "anthropic", "azure", "google", "bedrock"];
+  const providers = ["openai", "anthropic", "azure", "google", "bedrock", "local"];
   return providers.filter(isProviderConfigured);
 }
 
@@ -157,6 +173,15 @@ export function getProviderEnv(provider: string): Record<string, string | undefi
         secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
         region: env.AWS_REGION || "us-east-1"
       };
+    case "local":
+      return {
+        baseUrl: env.LOCAL_MODEL_BASE_URL,
+        apiKey: env.LOCAL_MODEL_API_KEY
+      };
+    case "fake":
+      return {
+        fixturePath: env.FAKE_MODEL_FIXTURES
+      };
     default:
       return {};
   }
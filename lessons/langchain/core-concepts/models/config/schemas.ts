@@ -13,7 +13,8 @@ export const modelProviderSchema = z.enum([
   MODEL_CONFIG.providers.AZURE,
   MODEL_CONFIG.providers.GOOGLE,
   MODEL_CONFIG.providers.BEDROCK,
-  MODEL_CONFIG.providers.LOCAL
+  MODEL_CONFIG.providers.LOCAL,
+  MODEL_CONFIG.providers.FAKE
 ] as const);
 
 export const useCaseSchema = z.enum([
@@ -114,6 +115,27 @@ export const toolResultSchema = z.object({
   isError: z.boolean().optional()
 });
 
+// Fake model fixture schemas
+export const fakeResponseFixtureSchema = z.object({
+  content: z.string().optional(),
+  toolCalls: z.array(z.object({
+    id: z.string().optional(),
+    name: z.string(),
+    args: z.record(z.string(), z.any()).optional()
+  })).optional(),
+  structured: z.record(z.string(), z.any()).optional(),
+  /** Reported as `response_metadata.model_name`; defaults to the model's name */
+  model: z.string().optional(),
+  usage: z.object({
+    inputTokens: z.number().min(0),
+    outputTokens: z.number().min(0)
+  }).optional()
+});
+
+export const fakeModelFixtureSchema = z.object({
+  responses: z.array(z.union([z.string().transform(content => ({ content })), fakeResponseFixtureSchema]))
+});
+
 // Batch processing schema
 export const batchRequestSchema = z.object({
   requests: z.array(z.object({
@@ -151,4 +173,5 @@ export type ModelResponse = z.infer<typeof modelResponseSchema>;
 export type ToolCall = z.infer<typeof toolCallSchema>;
 export type ToolResult = z.infer<typeof toolResultSchema>;
 export type BatchRequest = z.infer<typeof batchRequestSchema>;
-export type ModelComparison = z.infer<typeof modelComparisonSchema>;
\ No newline at end of file
+export type ModelComparison = z.infer<typeof modelComparisonSchema>;
+export type FakeResponseFixture = z.infer<typeof fakeResponseFixtureSchema>;
\ No newline at end of file
@@ -0,0 +1,289 @@
+/**
+ * Fake Chat Model - deterministic, offline BaseChatModel
+ * Replays scripted responses, tool calls and structured output for tests and demos
+ */
+
+import { readFileSync } from "node:fs";
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BaseChatModelParams,
+  type BindToolsInput
+} from "@langchain/core/language_models/chat_models";
+import { AIMessageChunk, BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import { fakeModelFixtureSchema, type FakeResponseFixture } from "../config/index.js";
+
+export interface FakeChatModelOptions extends BaseChatModelParams {
+  /** Responses replayed in order; plain strings are shorthand for `{ content }` */
+  responses?: Array<string | FakeResponseFixture>;
+  /** Restart the script when it runs out instead of falling back to echo mode */
+  loop?: boolean;
+  /** Delay between streamed tokens */
+  tokenDelayMs?: number;
+  model?: string;
+}
+
+/**
+ * Script state shared between a model and the copies returned by bindTools
+ */
+interface FakeScript {
+  responses: FakeResponseFixture[];
+  cursor: number;
+  calls: BaseMessage[][];
+}
+
+interface BoundTool {
+  name: string;
+  parameters?: Record<string, any>;
+}
+
+// Default structured output tool names used by createAgent and withStructuredOutput
+const STRUCTURED_TOOL_NAME = /^extract(-\d+)?$/;
+
+/**
+ * Load and validate a JSON fixture file: `{ "responses": [...] }`
+ */
+export function loadFakeModelFixtures(filePath: string): FakeResponseFixture[] {
+  const raw = JSON.parse(readFileSync(filePath, "utf-8"));
+  return fakeModelFixtureSchema.parse(raw).responses;
+}
+
+/**
+ * Build a placeholder value that satisfies a JSON schema
+ */
+export function sampleFromJsonSchema(schema: Record<string, any> = {}, key = "value"): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  if (Array.isArray(schema.anyOf) && schema.anyOf.length > 0) return sampleFromJsonSchema(schema.anyOf[0], key);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+  switch (type) {
+    case "object": {
+      // Optional properties are left out when the schema lists its required ones
+      const required: string[] | undefined = schema.required;
+      const properties = Object.entries<Record<string, any>>(schema.properties ?? {})
+        .filter(([name]) => !required || required.includes(name));
+      return Object.fromEntries(
+        properties.map(([name, property]) => [name, sampleFromJsonSchema(property, name)])
+      );
+    }
+    case "array":
+      return [sampleFromJsonSchema(schema.items, key)];
+    case "number":
+    case "integer":
+      return Math.max(1, schema.minimum ?? 1);
+    case "boolean":
+      return true;
+    case "null":
+      return null;
+    default:
+      return schema.format === "date" ? "2024-01-01" : `Fake ${key}`;
+  }
+}
+
+/**
+ * Scriptable chat model
+ *
+ * Each call consumes the next fixture. A fixture can carry text, tool calls,
+ * and a `structured` payload that is sent as a call to the bound structured
+ * output tool. When the script is exhausted the model echoes the last human
+ * message, or fills the structured output tool with schema placeholders.
+ */
+export class FakeChatModel extends BaseChatModel {
+  model: string;
+  loop: boolean;
+  tokenDelayMs: number;
+
+  private script: FakeScript;
+  private boundTools: BoundTool[] = [];
+
+  constructor(options: FakeChatModelOptions = {}) {
+    const { responses = [], loop = false, tokenDelayMs = 0, model = "fake-model", ...rest } = options;
+    super(rest);
+    this.model = model;
+    this.loop = loop;
+    this.tokenDelayMs = tokenDelayMs;
+    this.script = {
+      responses: responses.map(response => typeof response === "string" ? { content: response } : response),
+      cursor: 0,
+      calls: []
+    };
+  }
+
+  /**
+   * Create a model from a fixture file
+   */
+  static fromFixtureFile(filePath: string, options: Omit<FakeChatModelOptions, "responses"> = {}): FakeChatModel {
+    return new FakeChatModel({ ...options, responses: loadFakeModelFixtures(filePath) });
+  }
+
+  _llmType(): string {
+    return "fake";
+  }
+
+  /**
+   * Messages received by every call, including calls made through bound copies
+   */
+  get calls(): BaseMessage[][] {
+    return this.script.calls;
+  }
+
+  /**
+   * Number of scripted responses not yet consumed
+   */
+  get remaining(): number {
+    return Math.max(0, this.script.responses.length - this.script.cursor);
+  }
+
+  bindTools(tools: BindToolsInput[], kwargs?: Partial<BaseChatModelCallOptions>) {
+    const next = new FakeChatModel({ model: this.model, loop: this.loop, tokenDelayMs: this.tokenDelayMs });
+    next.script = this.script;
+    next.boundTools = [...this.boundTools, ...tools.map(toBoundTool)];
+    return kwargs ? next.withConfig(kwargs) : next;
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    const message = this.nextMessage(messages);
+    const text = typeof message.content === "string" ? message.content : "";
+
+    if (text) {
+      await runManager?.handleLLMNewToken(text);
+    }
+
+    return {
+      generations: [{ text, message }],
+      llmOutput: { tokenUsage: message.usage_metadata }
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const message = this.nextMessage(messages);
+    const text = typeof message.content === "string" ? message.content : "";
+
+    // Split into words while keeping whitespace so the chunks concatenate back to the full text
+    for (const token of text.match(/\S+\s*|\s+/g) ?? []) {
+      if (options.signal?.aborted) {
+        throw new Error("Aborted");
+      }
+      if (this.tokenDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.tokenDelayMs));
+      }
+
+      const chunk = new ChatGenerationChunk({
+        text: token,
+        message: new AIMessageChunk({ content: token })
+      });
+      yield chunk;
+      await runManager?.handleLLMNewToken(token, undefined, undefined, undefined, undefined, { chunk });
+    }
+
+    if (message.tool_calls?.length || message.usage_metadata) {
+      yield new ChatGenerationChunk({
+        text: "",
+        message: new AIMessageChunk({
+          content: "",
+          tool_call_chunks: message.tool_calls?.map((call, index) => ({
+            type: "tool_call_chunk" as const,
+            id: call.id,
+            name: call.name,
+            args: JSON.stringify(call.args),
+            index
+          })),
+          usage_metadata: message.usage_metadata
+        })
+      });
+    }
+  }
+
+  private nextMessage(messages: BaseMessage[]): AIMessageChunk {
+    this.script.calls.push(messages);
+    const callIndex = this.script.calls.length;
+
+    if (this.loop && this.script.responses.length > 0 && this.script.cursor >= this.script.responses.length) {
+      this.script.cursor = 0;
+    }
+
+    const fixture = this.script.responses[this.script.cursor];
+    if (fixture) {
+      this.script.cursor++;
+    }
+
+    return this.toMessage(fixture ?? this.defaultFixture(messages), callIndex);
+  }
+
+  private defaultFixture(messages: BaseMessage[]): FakeResponseFixture {
+    const structuredTool = this.findStructuredTool();
+    if (structuredTool) {
+      return { structured: sampleFromJsonSchema(structuredTool.parameters) as Record<string, any> };
+    }
+
+    const lastHuman = [...messages].reverse().find(message => message.getType() === "human");
+    const text = typeof lastHuman?.content === "string" ? lastHuman.content : "";
+    return { content: `Echo: ${text}` };
+  }
+
+  private toMessage(fixture: FakeResponseFixture, callIndex: number): AIMessageChunk {
+    const toolCalls = (fixture.toolCalls ?? []).map((call, index) => ({
+      id: call.id ?? `fake_call_${callIndex}_${index}`,
+      name: call.name,
+      args: call.args ?? {},
+      type: "tool_call" as const
+    }));
+
+    if (fixture.structured) {
+      const structuredTool = this.findStructuredTool();
+      if (structuredTool) {
+        toolCalls.push({
+          id: `fake_call_${callIndex}_${toolCalls.length}`,
+          name: structuredTool.name,
+          args: fixture.structured,
+          type: "tool_call" as const
+        });
+      }
+    }
+
+    // Without a structured output tool, structured fixtures are returned as JSON text
+    const content = fixture.content
+      ?? (fixture.structured && !this.findStructuredTool() ? JSON.stringify(fixture.structured) : "");
+
+    // The base withStructuredOutput parser only accepts AIMessageChunk
+    return new AIMessageChunk({
+      content,
+      tool_calls: toolCalls,
+      usage_metadata: fixture.usage && {
+        input_tokens: fixture.usage.inputTokens,
+        output_tokens: fixture.usage.outputTokens,
+        total_tokens: fixture.usage.inputTokens + fixture.usage.outputTokens
+      },
+      response_metadata: { model_name: fixture.model ?? this.model }
+    });
+  }
+
+  /**
+   * createAgent and withStructuredOutput name their structured output tool `extract`
+   */
+  private findStructuredTool(): BoundTool | undefined {
+    return this.boundTools.find(tool => STRUCTURED_TOOL_NAME.test(tool.name));
+  }
+}
+
+function toBoundTool(tool: BindToolsInput): BoundTool {
+  const value = tool as Record<string, any>;
+
+  if (value.type === "function" && value.function) {
+    return { name: value.function.name, parameters: value.function.parameters };
+  }
+
+  return { name: value.name, parameters: value.parameters ?? value.input_schema };
+}
@@ -4,4 +4,8 @@
  */
 
 export * from "./model-factory.js";
-export * from "./model-service.js";
\ No newline at end of file
+export * from "./model-service.js";
+export * from "./provider-registry.js";
+export * from "./fake-chat-model.js";
+export * from "./usage-ledger.js";
+export * from "./tracer.js";
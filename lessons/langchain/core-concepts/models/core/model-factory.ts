@@ -3,7 +3,6 @@
  * Implements factory pattern for consistent model instantiation
  */
 
-import { initChatModel } from "langchain";
 import { ChatOpenAI } from "@langchain/openai";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { 
@@ -17,11 +16,14 @@ import {
   getProviderEnv
 } from "../config/index.js";
 import { Logger } from "../utils/logger.js";
+import { ProviderRegistry } from "./provider-registry.js";
 
 export interface ModelFactoryOptions {
   provider?: ModelProvider;
   model?: string;
   parameters?: ModelParameters;
+  apiKey?: string;
+  baseUrl?: string;
   validateConfig?: boolean;
 }
 
@@ -39,20 +41,22 @@ export interface ModelWithMetadata {
 export class ModelFactory {
   
   /**
-   * Create a model using initChatModel (recommended approach)
+   * Create a model through the provider registry
    */
   static async createModel(options: ModelFactoryOptions = {}): Promise<BaseChatModel> {
     const {
       provider = MODEL_CONFIG.providers.OPENAI,
-      model = MODEL_CONFIG.models.openai.gpt4Mini,
       parameters = {},
+      apiKey,
+      baseUrl,
       validateConfig = true
     } = options;
+    const model = options.model ?? ProviderRegistry.get(provider).defaultModel;
 
     if (validateConfig) {
       validateEnv();
       
-      if (!isProviderConfigured(provider)) {
+      if (!ProviderRegistry.isConfigured(provider, { apiKey, baseUrl })) {
         throw new Error(`Provider ${provider} is not configured. Please check your environment variables.`);
       }
     }
@@ -60,19 +64,18 @@ export class ModelFactory {
     Logger.info("Creating model", {
       provider,
       model,
+      baseUrl,
       parameters,
       timestamp: new Date().toISOString()
     });
 
     try {
-      const chatModel = await initChatModel(model, {
-        temperature: parameters.temperature,
-        maxTokens: parameters.maxTokens,
-        timeout: parameters.timeout,
-        maxRetries: parameters.maxRetries,
-        topP: parameters.topP,
-        frequencyPenalty: parameters.frequencyPenalty,
-        presencePenalty: parameters.presencePenalty
+      const chatModel = await ProviderRegistry.resolve({
+        provider,
+        model,
+        parameters,
+        apiKey,
+        baseUrl
       });
 
       Logger.info("Model created successfully", {
@@ -138,11 +141,11 @@ export class ModelFactory {
   static async createModelWithMetadata(options: ModelFactoryOptions = {}): Promise<ModelWithMetadata> {
     const {
       provider = MODEL_CONFIG.providers.OPENAI,
-      model = MODEL_CONFIG.models.openai.gpt4Mini,
       parameters = {}
     } = options;
+    const model = options.model ?? ProviderRegistry.get(provider).defaultModel;
 
-    const chatModel = await this.createModel(options);
+    const chatModel = await this.createModel({ ...options, model });
     
     // Get model capabilities from config
     const capabilities = MODEL_CAPABILITIES[model as keyof typeof MODEL_CAPABILITIES] || [];
@@ -173,7 +176,9 @@ export class ModelFactory {
         const modelWithMetadata = await this.createModelWithMetadata({
           provider: config.provider,
           model: config.model,
-          parameters: config.parameters
+          parameters: config.parameters,
+          apiKey: config.apiKey,
+          baseUrl: config.baseUrl
         });
         models.push(modelWithMetadata);
       } catch (error) {
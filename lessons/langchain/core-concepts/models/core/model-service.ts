@@ -5,7 +5,11 @@
 
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { AIMessage, HumanMessage, SystemMessage, BaseMessage } from "@langchain/core/messages";
+import { toJsonSchema } from "@langchain/core/utils/json_schema";
+import type * as z from "zod";
 import { 
+  MODEL_CONFIG,
+  MODEL_CAPABILITIES,
   Conversation,
   Message,
   ModelResponse,
@@ -16,11 +20,16 @@ import {
   classificationSchema
 } from "../config/index.js";
 import { Logger } from "../utils/logger.js";
+import { ResponseParser } from "../utils/response-parser.js";
+import { UsageLedger } from "./usage-ledger.js";
+import { Tracer, type SpanAttributes } from "./tracer.js";
 
 export interface StreamingOptions {
   onToken?: (token: string) => void;
   onComplete?: (fullResponse: string) => void;
   onError?: (error: Error) => void;
+  /** Stops the model request; streamText then rejects with the signal's reason */
+  signal?: AbortSignal;
 }
 
 export interface ComparisonResult {
@@ -36,6 +45,81 @@ export interface ComparisonResult {
   timestamp: string;
 }
 
+/**
+ * How structured output is requested from the model
+ * - provider: `withStructuredOutput` using the provider's native JSON schema support
+ * - tool: a single `extract` tool whose arguments are the output
+ */
+export type StructuredOutputStrategy = "provider" | "tool";
+
+/**
+ * Zod schema or plain JSON Schema describing the expected output
+ */
+export type StructuredSchema<T> = z.ZodType<T> | Record<string, any>;
+
+export interface StructuredOutputOptions {
+  strategy?: StructuredOutputStrategy;
+  /** Model calls allowed, including the first one */
+  maxAttempts?: number;
+  /** Name used in logs and the extract tool description */
+  schemaName?: string;
+  systemPrompt?: string;
+}
+
+export interface StructuredOutputAttempt {
+  attempt: number;
+  strategy: StructuredOutputStrategy;
+  /** What the model returned, before validation */
+  raw: unknown;
+  isValid: boolean;
+  validationErrors: string[];
+  latency: number;
+}
+
+export interface StructuredOutputResult<T> {
+  data: T;
+  attempts: StructuredOutputAttempt[];
+}
+
+export interface ExtractionOptions extends StructuredOutputOptions {
+  /** Documents extracted at once when `input` is an array */
+  maxConcurrency?: number;
+}
+
+/**
+ * Outcome for one document; failures are reported here instead of thrown
+ */
+export interface ExtractionResult<T> {
+  index: number;
+  success: boolean;
+  data?: T;
+  validationErrors: string[];
+  attempts: StructuredOutputAttempt[];
+  /** Set when the model call itself failed */
+  error?: string;
+}
+
+const EXTRACTION_SYSTEM_PROMPT =
+  "Extract the requested information from the document. Only use facts stated in the document.";
+
+/**
+ * Structured output still failed validation after every repair attempt
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: StructuredOutputAttempt[],
+    public readonly lastRaw: unknown
+  ) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+
+  get validationErrors(): string[] {
+    return this.attempts.at(-1)?.validationErrors ?? [];
+  }
+}
+
 /**
  * Service class providing high-level model interaction methods
  */
@@ -69,7 +153,7 @@ export class ModelService {
         timestamp: new Date().toISOString()
       });
 
-      const response = await this.model.invoke(messages);
+      const response = await this.model.invoke(messages, this.callOptions("generateText"));
       const latency = Date.now() - startTime;
 
       Logger.info("Text generation completed", {
@@ -93,7 +177,7 @@ export class ModelService {
    * Stream text generation with callbacks
    */
   async streamText(prompt: string, options: StreamingOptions = {}): Promise<string> {
-    const { onToken, onComplete, onError } = options;
+    const { onToken, onComplete, onError, signal } = options;
     let fullResponse = "";
 
     try {
@@ -102,9 +186,10 @@ export class ModelService {
         timestamp: new Date().toISOString()
       });
 
-      const stream = await this.model.stream(prompt);
+      const stream = await this.model.stream(prompt, { ...this.callOptions("streamText"), signal });
 
       for await (const chunk of stream) {
+        signal?.throwIfAborted();
         const text = chunk.content as string;
         fullResponse += text;
         
@@ -124,6 +209,15 @@ export class ModelService {
 
       return fullResponse;
     } catch (error) {
+      // Cancelled by the caller rather than failed
+      if (signal?.aborted) {
+        Logger.info("Text streaming cancelled", {
+          responseLength: fullResponse.length,
+          timestamp: new Date().toISOString()
+        });
+        throw signal.reason;
+      }
+
       const errorObj = error instanceof Error ? error : new Error(String(error));
       
       Logger.error("Text streaming failed", {
@@ -152,7 +246,7 @@ export class ModelService {
     });
 
     try {
-      const responses = await this.model.batch(prompts, { maxConcurrency });
+      const responses = await this.model.batch(prompts, { ...this.callOptions("batchGenerate"), maxConcurrency });
       const latency = Date.now() - startTime;
 
       Logger.info("Batch generation completed", {
@@ -173,6 +267,155 @@ export class ModelService {
     }
   }
 
+  /**
+   * Generate output matching `schema`, repairing invalid responses
+   *
+   * Validation errors are sent back to the model as a correction message and the
+   * request is retried until it validates or `maxAttempts` calls have been made.
+   */
+  async generateStructured<T>(
+    prompt: string | BaseMessage[],
+    schema: StructuredSchema<T>,
+    options: StructuredOutputOptions = {}
+  ): Promise<StructuredOutputResult<T>> {
+    const {
+      strategy = "provider",
+      maxAttempts = MODEL_CONFIG.structuredOutput.maxAttempts,
+      schemaName = "output",
+      systemPrompt
+    } = options;
+
+    const messages: BaseMessage[] = typeof prompt === "string" ? [new HumanMessage(prompt)] : [...prompt];
+    if (systemPrompt) {
+      messages.unshift(new SystemMessage(systemPrompt));
+    }
+
+    const attempts: StructuredOutputAttempt[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const startTime = Date.now();
+      const raw = await this.requestStructured(messages, schema, strategy, schemaName, attempt);
+      const validation = ResponseParser.validateStructuredOutput<T>(raw, schema, schemaName);
+
+      attempts.push({
+        attempt,
+        strategy,
+        raw,
+        isValid: validation.isValid,
+        validationErrors: validation.validationErrors ?? [],
+        latency: Date.now() - startTime
+      });
+
+      if (validation.isValid) {
+        Logger.info("Structured output generated", {
+          schemaName,
+          strategy,
+          attempts: attempt,
+          timestamp: new Date().toISOString()
+        });
+        return { data: validation.parsed, attempts };
+      }
+
+      Logger.warn("Structured output invalid, requesting repair", {
+        schemaName,
+        strategy,
+        attempt,
+        errors: validation.validationErrors,
+        timestamp: new Date().toISOString()
+      });
+
+      messages.push(
+        new AIMessage(typeof raw === "string" ? raw : JSON.stringify(raw ?? null)),
+        new HumanMessage(this.correctionPrompt(validation.validationErrors ?? []))
+      );
+    }
+
+    const lastRaw = attempts.at(-1)?.raw;
+    Logger.error("Structured output repair failed", {
+      schemaName,
+      strategy,
+      attempts: attempts.length,
+      timestamp: new Date().toISOString()
+    });
+    throw new StructuredOutputError(
+      `Structured output for "${schemaName}" failed validation after ${attempts.length} attempt(s)`,
+      attempts,
+      lastRaw
+    );
+  }
+
+  /**
+   * Extract data matching `schema` from one document or a batch of documents
+   *
+   * The strategy defaults to what the model supports in MODEL_CAPABILITIES. Each
+   * document goes through the repair loop of `generateStructured`; batches run
+   * with at most `maxConcurrency` documents in flight.
+   */
+  async extract<T = Record<string, any>>(
+    input: string,
+    schema: StructuredSchema<T>,
+    options?: ExtractionOptions
+  ): Promise<ExtractionResult<T>>;
+  async extract<T = Record<string, any>>(
+    input: string[],
+    schema: StructuredSchema<T>,
+    options?: ExtractionOptions
+  ): Promise<ExtractionResult<T>[]>;
+  async extract<T = Record<string, any>>(
+    input: string | string[],
+    schema: StructuredSchema<T>,
+    options: ExtractionOptions = {}
+  ): Promise<ExtractionResult<T> | ExtractionResult<T>[]> {
+    const {
+      maxConcurrency = MODEL_CONFIG.structuredOutput.maxConcurrency,
+      strategy = ModelService.selectStrategy(this.modelName),
+      systemPrompt = EXTRACTION_SYSTEM_PROMPT,
+      ...rest
+    } = options;
+    const documents = Array.isArray(input) ? input : [input];
+    const startTime = Date.now();
+
+    Logger.info("Starting extraction", {
+      count: documents.length,
+      strategy,
+      maxConcurrency,
+      timestamp: new Date().toISOString()
+    });
+
+    const results: ExtractionResult<T>[] = new Array(documents.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < documents.length) {
+        const index = next++;
+        results[index] = await this.extractDocument(documents[index], index, schema, {
+          ...rest,
+          strategy,
+          systemPrompt
+        });
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, maxConcurrency), documents.length) }, worker));
+
+    Logger.info("Extraction completed", {
+      count: documents.length,
+      succeeded: results.filter(result => result.success).length,
+      latency: Date.now() - startTime,
+      timestamp: new Date().toISOString()
+    });
+
+    return Array.isArray(input) ? results : results[0];
+  }
+
+  /**
+   * Prefer the provider's native structured output when the model lists it, else use a tool call
+   */
+  static selectStrategy(modelName?: string): StructuredOutputStrategy {
+    const capabilities: readonly string[] =
+      MODEL_CAPABILITIES[modelName as keyof typeof MODEL_CAPABILITIES] ?? [];
+
+    return capabilities.includes(MODEL_CONFIG.features.STRUCTURED_OUTPUT) ? "provider" : "tool";
+  }
+
   /**
    * Generate structured movie information
    */
@@ -186,7 +429,7 @@ export class ModelService {
     const prompt = `Provide detailed information about the movie "${movieTitle}"`;
     
     try {
-      const result = await modelWithStructure.invoke(prompt);
+      const result = await modelWithStructure.invoke(prompt, this.callOptions("generateMovieInfo"));
       
       Logger.info("Movie information generated", {
         title: movieTitle,
@@ -218,7 +461,7 @@ export class ModelService {
     const prompt = `Analyze and summarize the following content:\n\n${content}`;
     
     try {
-      const result = await modelWithStructure.invoke(prompt);
+      const result = await modelWithStructure.invoke(prompt, this.callOptions("generateArticleSummary"));
       
       Logger.info("Article summary generated", {
         title: result.title,
@@ -256,7 +499,7 @@ export class ModelService {
     }
     
     try {
-      const result = await modelWithStructure.invoke(prompt);
+      const result = await modelWithStructure.invoke(prompt, this.callOptions("classifyText"));
       
       Logger.info("Text classification completed", {
         category: result.category,
@@ -300,7 +543,7 @@ export class ModelService {
 
       langchainMessages.push(new HumanMessage(newMessage));
 
-      const response = await this.model.invoke(langchainMessages);
+      const response = await this.model.invoke(langchainMessages, this.callOptions("continueConversation"));
 
       Logger.info("Conversation continued", {
         responseLength: response.content.length,
@@ -325,7 +568,7 @@ export class ModelService {
     const startTime = Date.now();
     
     try {
-      const response = await this.model.invoke(prompt);
+      const response = await this.model.invoke(prompt, this.callOptions("getResponseWithMetadata"));
       const latency = Date.now() - startTime;
 
       const result: ModelResponse = {
@@ -360,6 +603,100 @@ export class ModelService {
     }
   }
 
+  /**
+   * Every call is recorded in the UsageLedger and traced as a `ModelService.<operation>` span
+   */
+  private callOptions(operation: string, attributes: SpanAttributes = {}) {
+    return {
+      callbacks: [
+        UsageLedger.createCallbackHandler({ source: "model-service" }),
+        Tracer.createCallbackHandler(`ModelService.${operation}`, attributes)
+      ]
+    };
+  }
+
+  private get modelName(): string | undefined {
+    const { model, modelName } = this.model as BaseChatModel & { model?: string; modelName?: string };
+    return model ?? modelName;
+  }
+
+  private async extractDocument<T>(
+    document: string,
+    index: number,
+    schema: StructuredSchema<T>,
+    options: StructuredOutputOptions
+  ): Promise<ExtractionResult<T>> {
+    try {
+      const { data, attempts } = await this.generateStructured(`Document:\n\n${document}`, schema, options);
+      return { index, success: true, data, validationErrors: [], attempts };
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        return { index, success: false, validationErrors: error.validationErrors, attempts: error.attempts };
+      }
+      return {
+        index,
+        success: false,
+        validationErrors: [],
+        attempts: [],
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Call the model once and return the unvalidated structured candidate
+   */
+  private async requestStructured<T>(
+    messages: BaseMessage[],
+    schema: StructuredSchema<T>,
+    strategy: StructuredOutputStrategy,
+    schemaName: string,
+    attempt: number
+  ): Promise<unknown> {
+    const callOptions = this.callOptions("generateStructured", {
+      "structured_output.schema": schemaName,
+      "structured_output.strategy": strategy,
+      "structured_output.attempt": attempt
+    });
+
+    if (strategy === "provider") {
+      const { raw, parsed } = await this.model
+        .withStructuredOutput(schema, { name: schemaName, method: "jsonSchema", includeRaw: true })
+        .invoke(messages, callOptions);
+      return parsed ?? this.candidateFromMessage(raw as AIMessage);
+    }
+
+    const { toolName } = MODEL_CONFIG.structuredOutput;
+    if (!this.model.bindTools) {
+      throw new Error(`${this.model.constructor.name} does not support tool calling`);
+    }
+    const response = await this.model.bindTools([{
+      type: "function",
+      function: {
+        name: toolName,
+        description: `Return the ${schemaName} as the arguments of this tool`,
+        parameters: toJsonSchema(schema)
+      }
+    }]).invoke(messages, callOptions);
+    return this.candidateFromMessage(response as AIMessage, toolName);
+  }
+
+  private candidateFromMessage(message: AIMessage, toolName?: string): unknown {
+    const toolCall = message.tool_calls?.find(call => !toolName || call.name === toolName);
+    if (toolCall) {
+      return toolCall.args;
+    }
+    return typeof message.content === "string" ? message.content : JSON.stringify(message.content);
+  }
+
+  private correctionPrompt(validationErrors: string[]): string {
+    return [
+      "Your previous response did not match the required schema:",
+      ...validationErrors.map(error => `- ${error}`),
+      "Return a corrected response that fixes every issue above."
+    ].join("\n");
+  }
+
   /**
    * Compare models (requires external models array)
    */
@@ -377,7 +714,9 @@ export class ModelService {
       models.map(async ({ name, model }) => {
         const startTime = Date.now();
         try {
-          const response = await model.invoke(prompt);
+          const response = await model.invoke(prompt, {
+            callbacks: [UsageLedger.createCallbackHandler({ source: "model-service" })]
+          });
           const latency = Date.now() - startTime;
           
           return {
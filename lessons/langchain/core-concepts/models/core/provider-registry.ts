@@ -0,0 +1,229 @@
+/**
+ * Provider Registry - maps each ModelProvider to a model constructor
+ * Keeps credential lookup and provider defaults in one place
+ */
+
+import { initChatModel } from "langchain";
+import { ChatOpenAI, AzureChatOpenAI } from "@langchain/openai";
+import { ChatAnthropic } from "@langchain/anthropic";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  MODEL_CONFIG,
+  ModelProvider,
+  ModelParameters,
+  isProviderConfigured,
+  getProviderEnv
+} from "../config/index.js";
+import { FakeChatModel } from "./fake-chat-model.js";
+
+/**
+ * Everything a provider constructor receives
+ */
+export interface ProviderModelOptions {
+  model: string;
+  parameters: ModelParameters;
+  credentials: Record<string, string | undefined>;
+  baseUrl?: string;
+}
+
+/**
+ * Registry entry for a single provider
+ */
+export interface ProviderRegistration {
+  provider: ModelProvider;
+  defaultModel: string;
+  defaultParameters?: ModelParameters;
+  create: (options: ProviderModelOptions) => BaseChatModel | Promise<BaseChatModel>;
+}
+
+export interface ResolveModelOptions {
+  provider: ModelProvider;
+  model?: string;
+  parameters?: ModelParameters;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+/**
+ * Parameters shared by the OpenAI-compatible constructors
+ */
+function openAIParameters(parameters: ModelParameters) {
+  return {
+    temperature: parameters.temperature,
+    maxTokens: parameters.maxTokens,
+    timeout: parameters.timeout,
+    maxRetries: parameters.maxRetries,
+    topP: parameters.topP,
+    frequencyPenalty: parameters.frequencyPenalty,
+    presencePenalty: parameters.presencePenalty
+  };
+}
+
+const DEFAULT_REGISTRATIONS: ProviderRegistration[] = [
+  {
+    provider: MODEL_CONFIG.providers.OPENAI,
+    defaultModel: MODEL_CONFIG.models.openai.gpt4Mini,
+    create: ({ model, parameters, credentials, baseUrl }) => new ChatOpenAI({
+      model,
+      apiKey: credentials.apiKey,
+      configuration: baseUrl ? { baseURL: baseUrl } : undefined,
+      ...openAIParameters(parameters)
+    })
+  },
+  {
+    provider: MODEL_CONFIG.providers.ANTHROPIC,
+    defaultModel: MODEL_CONFIG.models.anthropic.claudeSonnet,
+    defaultParameters: { maxTokens: MODEL_CONFIG.parameters.maxTokens.long },
+    create: ({ model, parameters, credentials, baseUrl }) => new ChatAnthropic({
+      model,
+      apiKey: credentials.apiKey,
+      anthropicApiUrl: baseUrl,
+      temperature: parameters.temperature,
+      maxTokens: parameters.maxTokens,
+      maxRetries: parameters.maxRetries,
+      topP: parameters.topP
+    })
+  },
+  {
+    provider: MODEL_CONFIG.providers.AZURE,
+    defaultModel: MODEL_CONFIG.models.openai.gpt4Mini,
+    create: ({ model, parameters, credentials, baseUrl }) => new AzureChatOpenAI({
+      model,
+      azureOpenAIApiKey: credentials.apiKey,
+      azureOpenAIEndpoint: baseUrl ?? credentials.endpoint,
+      azureOpenAIApiVersion: credentials.apiVersion,
+      // Azure routes requests by deployment; by convention deployments are named after the model
+      azureOpenAIApiDeploymentName: model,
+      ...openAIParameters(parameters)
+    })
+  },
+  {
+    provider: MODEL_CONFIG.providers.GOOGLE,
+    defaultModel: MODEL_CONFIG.models.google.gemini,
+    // Requires @langchain/google-genai, loaded on demand by initChatModel
+    create: ({ model, parameters, credentials }) => initChatModel(model, {
+      modelProvider: "google-genai",
+      apiKey: credentials.apiKey,
+      temperature: parameters.temperature,
+      maxOutputTokens: parameters.maxTokens,
+      maxRetries: parameters.maxRetries,
+      topP: parameters.topP
+    })
+  },
+  {
+    provider: MODEL_CONFIG.providers.BEDROCK,
+    defaultModel: MODEL_CONFIG.models.anthropic.claudeSonnet,
+    // Requires @langchain/aws, loaded on demand by initChatModel
+    create: ({ model, parameters, credentials }) => initChatModel(model, {
+      modelProvider: "bedrock",
+      region: credentials.region,
+      credentials: {
+        accessKeyId: credentials.accessKeyId,
+        secretAccessKey: credentials.secretAccessKey
+      },
+      temperature: parameters.temperature,
+      maxTokens: parameters.maxTokens,
+      maxRetries: parameters.maxRetries
+    })
+  },
+  {
+    provider: MODEL_CONFIG.providers.LOCAL,
+    defaultModel: MODEL_CONFIG.models.local.default,
+    defaultParameters: { maxRetries: 0 },
+    // Any OpenAI-compatible server (Ollama, vLLM, LM Studio, a test stub...)
+    create: ({ model, parameters, credentials, baseUrl }) => {
+      const url = baseUrl ?? credentials.baseUrl;
+      if (!url) {
+        throw new Error("Local provider requires a baseUrl. Set LOCAL_MODEL_BASE_URL or pass baseUrl.");
+      }
+
+      return new ChatOpenAI({
+        model,
+        // Local servers usually ignore the key, but the OpenAI client requires one
+        apiKey: credentials.apiKey ?? "local",
+        configuration: { baseURL: url },
+        ...openAIParameters(parameters)
+      });
+    }
+  },
+  {
+    provider: MODEL_CONFIG.providers.FAKE,
+    defaultModel: MODEL_CONFIG.models.fake.default,
+    // Offline model; replays FAKE_MODEL_FIXTURES when set, otherwise echoes
+    create: ({ model, credentials }) => credentials.fixturePath
+      ? FakeChatModel.fromFixtureFile(credentials.fixturePath, { model })
+      : new FakeChatModel({ model })
+  }
+];
+
+/**
+ * Registry of model providers
+ */
+export class ProviderRegistry {
+  private static registrations = new Map<ModelProvider, ProviderRegistration>(
+    DEFAULT_REGISTRATIONS.map(registration => [registration.provider, registration])
+  );
+
+  /**
+   * Register or replace a provider
+   */
+  static register(registration: ProviderRegistration): void {
+    this.registrations.set(registration.provider, registration);
+  }
+
+  /**
+   * Get the registration for a provider
+   */
+  static get(provider: ModelProvider): ProviderRegistration {
+    const registration = this.registrations.get(provider);
+    if (!registration) {
+      throw new Error(`No model provider registered for "${provider}"`);
+    }
+    return registration;
+  }
+
+  static has(provider: string): boolean {
+    return this.registrations.has(provider as ModelProvider);
+  }
+
+  /**
+   * List registered providers
+   */
+  static list(): ModelProvider[] {
+    return [...this.registrations.keys()];
+  }
+
+  /**
+   * Whether credentials are available, either from the environment or passed explicitly
+   */
+  static isConfigured(provider: ModelProvider, overrides: { apiKey?: string; baseUrl?: string } = {}): boolean {
+    if (provider === MODEL_CONFIG.providers.LOCAL) {
+      return !!overrides.baseUrl || isProviderConfigured(provider);
+    }
+    return !!overrides.apiKey || isProviderConfigured(provider);
+  }
+
+  /**
+   * Construct a chat model for the given provider
+   */
+  static async resolve(options: ResolveModelOptions): Promise<BaseChatModel> {
+    const registration = this.get(options.provider);
+    const credentials = getProviderEnv(options.provider);
+
+    return registration.create({
+      model: options.model ?? registration.defaultModel,
+      parameters: { ...registration.defaultParameters, ...options.parameters },
+      credentials: options.apiKey ? { ...credentials, apiKey: options.apiKey } : credentials,
+      baseUrl: options.baseUrl
+    });
+  }
+
+  /**
+   * Restore the built-in registrations
+   */
+  static reset(): void {
+    this.registrations = new Map(
+      DEFAULT_REGISTRATIONS.map(registration => [registration.provider, registration])
+    );
+  }
+}
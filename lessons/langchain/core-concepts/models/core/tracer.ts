@@ -0,0 +1,454 @@
+/**
+ * Tracer - OpenTelemetry-style spans for agent runs, model calls and tool calls
+ * Spans nest through async context and are handed to exporters when they end
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { Serialized } from "@langchain/core/load/serializable";
+import { AIMessage, type BaseMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import { Logger } from "../utils/logger.js";
+
+export type AttributeValue = string | number | boolean | string[] | number[];
+
+export type SpanAttributes = Record<string, AttributeValue | undefined>;
+
+export type SpanKind = "internal" | "server" | "client";
+
+export type SpanStatusCode = "unset" | "ok" | "error";
+
+export interface SpanEvent {
+  name: string;
+  time: number;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * A finished span as handed to exporters
+ */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  /** Epoch milliseconds */
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  attributes: Record<string, AttributeValue>;
+  events: SpanEvent[];
+  status: { code: SpanStatusCode; message?: string };
+}
+
+export interface SpanExporter {
+  export(spans: SpanData[]): void | Promise<void>;
+  /** Send anything buffered */
+  flush?(): Promise<void>;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  /** Parent span; defaults to the span active in the current async context */
+  parent?: Span;
+}
+
+export interface TracerOptions {
+  serviceName?: string;
+  /** Replaces the configured exporters */
+  exporters?: SpanExporter[];
+}
+
+/**
+ * An operation being timed; call `end()` exactly once
+ */
+export class Span {
+  readonly spanId = randomBytes(8).toString("hex");
+  readonly traceId: string;
+  readonly parentSpanId?: string;
+  readonly startTime = Date.now();
+  private readonly attributes: Record<string, AttributeValue> = {};
+  private readonly events: SpanEvent[] = [];
+  private status: SpanData["status"] = { code: "unset" };
+  private ended = false;
+
+  constructor(readonly name: string, readonly kind: SpanKind = "internal", parent?: Span) {
+    this.traceId = parent?.traceId ?? randomBytes(16).toString("hex");
+    this.parentSpanId = parent?.spanId;
+  }
+
+  /**
+   * Set attributes; undefined values are skipped
+   */
+  setAttributes(attributes: SpanAttributes): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) {
+        this.attributes[key] = value;
+      }
+    }
+    return this;
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    return this.setAttributes({ [key]: value });
+  }
+
+  addEvent(name: string, attributes?: SpanAttributes): this {
+    this.events.push({ name, time: Date.now(), attributes });
+    return this;
+  }
+
+  get statusCode(): SpanStatusCode {
+    return this.status.code;
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    this.status = { code, message };
+    return this;
+  }
+
+  /**
+   * Mark the span failed and keep the error as an `exception` event
+   */
+  recordException(error: unknown): this {
+    const message = error instanceof Error ? error.message : String(error);
+    this.addEvent("exception", {
+      "exception.type": error instanceof Error ? error.name : typeof error,
+      "exception.message": message,
+    });
+    return this.setStatus("error", message);
+  }
+
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    const endTime = Date.now();
+    Tracer.export({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: this.kind,
+      startTime: this.startTime,
+      endTime,
+      durationMs: endTime - this.startTime,
+      attributes: { ...this.attributes },
+      events: [...this.events],
+      status: this.status,
+    });
+  }
+}
+
+/**
+ * Keeps finished spans in memory, for tests
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: SpanData[] = [];
+
+  export(spans: SpanData[]): void {
+    this.spans.push(...spans);
+  }
+
+  getFinishedSpans(): SpanData[] {
+    return [...this.spans];
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+export interface OTLPExporterOptions {
+  /** Full traces URL, e.g. http://localhost:4318/v1/traces */
+  url: string;
+  headers?: Record<string, string>;
+  serviceName?: string;
+  /** Spans buffered before a request is sent */
+  maxBatchSize?: number;
+  /** Buffered spans are sent at least this often */
+  flushIntervalMs?: number;
+}
+
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS_CODE: Record<SpanStatusCode, number> = { unset: 0, ok: 1, error: 2 };
+
+/**
+ * Sends spans to an OTLP/HTTP collector as JSON (`/v1/traces`)
+ */
+export class OTLPHttpSpanExporter implements SpanExporter {
+  private buffer: SpanData[] = [];
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(private readonly options: OTLPExporterOptions) {}
+
+  export(spans: SpanData[]): void {
+    this.buffer.push(...spans);
+
+    if (this.buffer.length >= (this.options.maxBatchSize ?? 100)) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setInterval(() => void this.flush(), this.options.flushIntervalMs ?? 5000);
+      // Pending spans must not keep the process alive
+      this.timer.unref?.();
+    }
+  }
+
+  async flush(): Promise<void> {
+    const spans = this.buffer.splice(0);
+    if (spans.length === 0) return;
+
+    try {
+      const response = await fetch(this.options.url, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...this.options.headers },
+        body: JSON.stringify(OTLPHttpSpanExporter.toPayload(spans, this.options.serviceName ?? Tracer.serviceName)),
+      });
+      if (!response.ok) {
+        throw new Error(`collector responded with ${response.status}`);
+      }
+    } catch (error) {
+      Logger.warn("Span export failed", {
+        url: this.options.url,
+        spans: spans.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * OTLP JSON request body for `spans`
+   */
+  static toPayload(spans: SpanData[], serviceName: string) {
+    return {
+      resourceSpans: [{
+        resource: { attributes: toOtlpAttributes({ "service.name": serviceName }) },
+        scopeSpans: [{
+          scope: { name: "langchain-lesson" },
+          spans: spans.map(span => ({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+            name: span.name,
+            kind: OTLP_SPAN_KIND[span.kind],
+            startTimeUnixNano: toUnixNano(span.startTime),
+            endTimeUnixNano: toUnixNano(span.endTime),
+            attributes: toOtlpAttributes(span.attributes),
+            events: span.events.map(event => ({
+              name: event.name,
+              timeUnixNano: toUnixNano(event.time),
+              attributes: toOtlpAttributes(event.attributes ?? {}),
+            })),
+            status: { code: OTLP_STATUS_CODE[span.status.code], ...(span.status.message ? { message: span.status.message } : {}) },
+          })),
+        }],
+      }],
+    };
+  }
+}
+
+/**
+ * Exporters from the standard OTEL_EXPORTER_OTLP_* variables, if set
+ */
+function defaultExporters(): SpanExporter[] {
+  const endpoint = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+    ?? (process.env.OTEL_EXPORTER_OTLP_ENDPOINT && `${process.env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/$/, "")}/v1/traces`);
+  if (!endpoint) return [];
+
+  const headers = Object.fromEntries(
+    (process.env.OTEL_EXPORTER_OTLP_HEADERS ?? "")
+      .split(",")
+      .map(pair => pair.split("=").map(part => part.trim()))
+      .filter(([key, value]) => key && value)
+  );
+  return [new OTLPHttpSpanExporter({ url: endpoint, headers })];
+}
+
+const spanStorage = new AsyncLocalStorage<Span>();
+
+/**
+ * Process-wide tracer
+ */
+export class Tracer {
+  static serviceName = process.env.OTEL_SERVICE_NAME ?? "langchain-lesson";
+  private static exporters: SpanExporter[] = defaultExporters();
+
+  static configure(options: TracerOptions): void {
+    Tracer.serviceName = options.serviceName ?? Tracer.serviceName;
+    Tracer.exporters = options.exporters ?? Tracer.exporters;
+  }
+
+  static addExporter(exporter: SpanExporter): void {
+    Tracer.exporters = [...Tracer.exporters, exporter];
+  }
+
+  static removeExporter(exporter: SpanExporter): void {
+    Tracer.exporters = Tracer.exporters.filter(existing => existing !== exporter);
+  }
+
+  /**
+   * Restore the environment defaults
+   */
+  static reset(): void {
+    Tracer.serviceName = process.env.OTEL_SERVICE_NAME ?? "langchain-lesson";
+    Tracer.exporters = defaultExporters();
+  }
+
+  /**
+   * Start a span without activating it; see `withSpan` for the usual case
+   */
+  static startSpan(name: string, attributes: SpanAttributes = {}, options: SpanOptions = {}): Span {
+    return new Span(name, options.kind, options.parent ?? Tracer.activeSpan()).setAttributes(attributes);
+  }
+
+  /**
+   * Run `fn` inside a new span that ends when it settles; errors mark the span failed
+   * and are re-thrown. Log lines inside carry the span's trace ID.
+   */
+  static async withSpan<T>(
+    name: string,
+    attributes: SpanAttributes,
+    fn: (span: Span) => T | Promise<T>,
+    options: SpanOptions = {}
+  ): Promise<T> {
+    const span = Tracer.startSpan(name, attributes, options);
+
+    try {
+      const result = await Tracer.withActiveSpan(span, () => fn(span));
+      if (span.statusCode === "unset") span.setStatus("ok");
+      return result;
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Run `fn` with `span` as the parent of spans started inside it
+   */
+  static withActiveSpan<T>(span: Span, fn: () => T): T {
+    return spanStorage.run(span, () => Logger.runWithContext({ traceId: span.traceId }, fn));
+  }
+
+  static activeSpan(): Span | undefined {
+    return spanStorage.getStore();
+  }
+
+  /**
+   * Callback handler opening a span per model call of the runs it is attached to
+   */
+  static createCallbackHandler(name = "model.call", attributes: SpanAttributes = {}): TracingCallbackHandler {
+    return new TracingCallbackHandler(name, attributes);
+  }
+
+  /**
+   * Hand a finished span to every exporter
+   */
+  static export(span: SpanData): void {
+    for (const exporter of Tracer.exporters) {
+      try {
+        void Promise.resolve(exporter.export([span])).catch(error =>
+          Logger.warn("Span export failed", { error: error instanceof Error ? error.message : String(error) })
+        );
+      } catch (error) {
+        Logger.warn("Span export failed", { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  /**
+   * Send spans buffered by the exporters
+   */
+  static async flush(): Promise<void> {
+    await Promise.all(Tracer.exporters.map(exporter => exporter.flush?.()));
+  }
+}
+
+/**
+ * Opens a span when a model call starts and ends it with the model name and token usage
+ */
+export class TracingCallbackHandler extends BaseCallbackHandler {
+  name = "tracer";
+  // Spans must be ended by the time invoke() returns
+  awaitHandlers = true;
+
+  private spans = new Map<string, Span>();
+
+  constructor(private readonly spanName: string, private readonly attributes: SpanAttributes = {}) {
+    super();
+  }
+
+  handleChatModelStart(
+    llm: Serialized,
+    messages: BaseMessage[][],
+    runId: string,
+    parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    tags?: string[],
+    metadata?: Record<string, unknown>
+  ) {
+    this.spans.set(runId, Tracer.startSpan(this.spanName, {
+      ...this.attributes,
+      "gen_ai.request.model": metadata?.ls_model_name as string | undefined,
+      "gen_ai.system": metadata?.ls_provider as string | undefined,
+      "gen_ai.request.message_count": messages.flat().length,
+    }, { kind: "client" }));
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string) {
+    const span = this.spans.get(runId);
+    if (!span) return;
+
+    const message = (output.generations.flat()[0] as ChatGeneration | undefined)?.message;
+    const usage = AIMessage.isInstance(message) ? message.usage_metadata : undefined;
+    const metadata = (message?.response_metadata ?? {}) as Record<string, string | undefined>;
+
+    span.setAttributes({
+      "gen_ai.response.model": metadata.model_name ?? metadata.model,
+      "gen_ai.usage.input_tokens": usage?.input_tokens,
+      "gen_ai.usage.output_tokens": usage?.output_tokens,
+    }).setStatus("ok").end();
+    this.spans.delete(runId);
+  }
+
+  handleLLMError(error: unknown, runId: string) {
+    this.spans.get(runId)?.recordException(error).end();
+    this.spans.delete(runId);
+  }
+}
+
+/**
+ * Length of `value` as JSON, e.g. for tool argument sizes; 0 when it does not serialize
+ */
+export function serializedSize(value: unknown): number {
+  try {
+    return JSON.stringify(value ?? null).length;
+  } catch {
+    return 0;
+  }
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(ms) * 1_000_000n).toString();
+}
+
+function toOtlpValue(value: AttributeValue): Record<string, unknown> {
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: (value as Array<string | number>).map(item => toOtlpValue(item)) } };
+  }
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function toOtlpAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, AttributeValue] => entry[1] !== undefined)
+    .map(([key, value]) => ({ key, value: toOtlpValue(value) }));
+}
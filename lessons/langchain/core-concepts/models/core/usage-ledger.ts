@@ -0,0 +1,332 @@
+/**
+ * Usage Ledger - token usage and cost accounting across every model call
+ * Fed by a callback handler attached to model, agent and summarizer invocations
+ */
+
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { Serialized } from "@langchain/core/load/serializable";
+import { AIMessage, type BaseMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import { MODEL_PRICING } from "../config/index.js";
+
+/**
+ * Who a model call is billed to
+ */
+export interface UsageAttribution {
+  /** Component that made the call, e.g. "agent", "model-service", "summarizer" */
+  source?: string;
+  threadId?: string;
+  userRole?: string;
+  /** Tool whose execution made the call (deep research sub-agents and the like) */
+  tool?: string;
+}
+
+export interface UsageRecord extends UsageAttribution {
+  timestamp: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Undefined when the model is not in MODEL_PRICING */
+  costUsd?: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** Calls whose model has no price, so `costUsd` undercounts */
+  unpricedCalls: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byThread: Record<string, UsageTotals>;
+  byUserRole: Record<string, UsageTotals>;
+  byTool: Record<string, UsageTotals>;
+}
+
+export type UsageFilter = Partial<Pick<UsageRecord, "source" | "threadId" | "userRole" | "tool" | "model">>;
+
+type UsageDimension = keyof UsageFilter;
+
+const DIMENSIONS: UsageDimension[] = ["source", "threadId", "userRole", "tool", "model"];
+
+/**
+ * Run bookkeeping used to attribute nested model calls to the tool that made them
+ */
+interface RunInfo {
+  parentRunId?: string;
+  tool?: string;
+  model?: string;
+}
+
+/**
+ * Process-wide usage ledger
+ *
+ * Only the latest `maxRecords` records are kept. Totals overall and per single attribute
+ * (model, thread, user role, tool, source) are kept as running sums and cover every call;
+ * filters combining several attributes are answered from the kept records.
+ */
+export class UsageLedger {
+  static maxRecords = 1000;
+  private static records: UsageRecord[] = [];
+  private static totals = emptyTotals();
+  private static totalsBy = createTotalsBy();
+
+  /**
+   * Callback handler recording every model call of the runs it is attached to
+   */
+  static createCallbackHandler(attribution: UsageAttribution = {}): UsageCallbackHandler {
+    return new UsageCallbackHandler(attribution);
+  }
+
+  static record(record: Omit<UsageRecord, "timestamp" | "totalTokens" | "costUsd"> & { totalTokens?: number }): UsageRecord {
+    const entry: UsageRecord = {
+      ...record,
+      timestamp: new Date().toISOString(),
+      totalTokens: record.totalTokens ?? record.inputTokens + record.outputTokens,
+      costUsd: this.estimateCost(record.model, record.inputTokens, record.outputTokens),
+    };
+    this.records.push(entry);
+    if (this.records.length > this.maxRecords) {
+      this.records = this.records.slice(-this.maxRecords);
+    }
+
+    this.totals = addRecord(this.totals, entry);
+    for (const dimension of DIMENSIONS) {
+      const value = entry[dimension];
+      if (value === undefined) continue;
+      const group = this.totalsBy[dimension];
+      group.set(value, addRecord(group.get(value) ?? emptyTotals(), entry));
+    }
+    return entry;
+  }
+
+  /**
+   * The kept records matching the filter; see `maxRecords`
+   */
+  static getRecords(filter: UsageFilter = {}): UsageRecord[] {
+    return this.records.filter(record =>
+      Object.entries(filter).every(([key, value]) => value === undefined || record[key as keyof UsageRecord] === value)
+    );
+  }
+
+  static getTotals(filter: UsageFilter = {}): UsageTotals {
+    const keys = this.filterKeys(filter);
+    if (keys.length === 0) {
+      return { ...this.totals };
+    }
+    if (keys.length === 1) {
+      const [key] = keys;
+      return { ...(this.totalsBy[key].get(filter[key]!) ?? emptyTotals()) };
+    }
+    return this.sum(this.getRecords(filter));
+  }
+
+  /**
+   * Totals overall and grouped by model, thread, user role and tool.
+   * With a filter, `total` is `getTotals(filter)` while the groups only cover the kept records.
+   */
+  static summarize(filter: UsageFilter = {}): UsageSummary {
+    if (this.filterKeys(filter).length === 0) {
+      return {
+        total: { ...this.totals },
+        byModel: this.runningTotals("model"),
+        byThread: this.runningTotals("threadId"),
+        byUserRole: this.runningTotals("userRole"),
+        byTool: this.runningTotals("tool"),
+      };
+    }
+
+    const records = this.getRecords(filter);
+
+    return {
+      total: this.getTotals(filter),
+      byModel: this.groupBy(records, "model"),
+      byThread: this.groupBy(records, "threadId"),
+      byUserRole: this.groupBy(records, "userRole"),
+      byTool: this.groupBy(records, "tool"),
+    };
+  }
+
+  static reset(): void {
+    this.records = [];
+    this.totals = emptyTotals();
+    this.totalsBy = createTotalsBy();
+  }
+
+  /**
+   * Price lookup from MODEL_PRICING; dated snapshots such as "gpt-4o-mini-2024-07-18"
+   * use the longest model name they start with
+   */
+  static getPricing(model: string): { input: number; output: number } | undefined {
+    if (MODEL_PRICING[model]) {
+      return MODEL_PRICING[model];
+    }
+
+    const prefix = Object.keys(MODEL_PRICING)
+      .filter(name => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? MODEL_PRICING[prefix] : undefined;
+  }
+
+  /**
+   * Estimated USD cost of a call, or undefined when the model has no price
+   */
+  static estimateCost(model: string, inputTokens: number, outputTokens: number): number | undefined {
+    const pricing = this.getPricing(model);
+    if (!pricing) return undefined;
+    return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+  }
+
+  private static filterKeys(filter: UsageFilter): UsageDimension[] {
+    return DIMENSIONS.filter(key => filter[key] !== undefined);
+  }
+
+  private static runningTotals(dimension: UsageDimension): Record<string, UsageTotals> {
+    return Object.fromEntries([...this.totalsBy[dimension]].map(([value, totals]) => [value, { ...totals }]));
+  }
+
+  private static groupBy(records: UsageRecord[], key: keyof UsageAttribution | "model"): Record<string, UsageTotals> {
+    const groups = new Map<string, UsageRecord[]>();
+
+    for (const record of records) {
+      const value = record[key];
+      if (value === undefined) continue;
+      groups.set(value, [...(groups.get(value) ?? []), record]);
+    }
+
+    return Object.fromEntries([...groups].map(([value, group]) => [value, this.sum(group)]));
+  }
+
+  private static sum(records: UsageRecord[]): UsageTotals {
+    return records.reduce<UsageTotals>(addRecord, emptyTotals());
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0, unpricedCalls: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): UsageTotals {
+  return {
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    totalTokens: totals.totalTokens + record.totalTokens,
+    costUsd: totals.costUsd + (record.costUsd ?? 0),
+    unpricedCalls: totals.unpricedCalls + (record.costUsd === undefined ? 1 : 0),
+  };
+}
+
+function createTotalsBy(): Record<UsageDimension, Map<string, UsageTotals>> {
+  return Object.fromEntries(DIMENSIONS.map(dimension => [dimension, new Map()])) as Record<UsageDimension, Map<string, UsageTotals>>;
+}
+
+/**
+ * Records one ledger entry per finished model call
+ *
+ * Tool and chain starts are tracked so a model call made while a tool runs is
+ * attributed to that tool.
+ */
+export class UsageCallbackHandler extends BaseCallbackHandler {
+  name = "usage_ledger";
+  // Records must exist by the time invoke() returns
+  awaitHandlers = true;
+
+  private runs = new Map<string, RunInfo>();
+
+  constructor(private readonly attribution: UsageAttribution = {}) {
+    super();
+  }
+
+  handleChainStart(chain: Serialized, inputs: unknown, runId: string, parentRunId?: string) {
+    this.runs.set(runId, { parentRunId });
+  }
+
+  handleChainEnd(outputs: unknown, runId: string) {
+    this.runs.delete(runId);
+  }
+
+  handleChainError(error: unknown, runId: string) {
+    this.runs.delete(runId);
+  }
+
+  handleToolStart(
+    tool: Serialized,
+    input: string,
+    runId: string,
+    parentRunId?: string,
+    tags?: string[],
+    metadata?: Record<string, unknown>,
+    runName?: string
+  ) {
+    this.runs.set(runId, { parentRunId, tool: runName ?? tool.id.at(-1) });
+  }
+
+  handleToolEnd(output: unknown, runId: string) {
+    this.runs.delete(runId);
+  }
+
+  handleToolError(error: unknown, runId: string) {
+    this.runs.delete(runId);
+  }
+
+  handleChatModelStart(
+    llm: Serialized,
+    messages: BaseMessage[][],
+    runId: string,
+    parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    tags?: string[],
+    metadata?: Record<string, unknown>
+  ) {
+    this.runs.set(runId, { parentRunId, model: metadata?.ls_model_name as string | undefined });
+  }
+
+  handleLLMStart(
+    llm: Serialized,
+    prompts: string[],
+    runId: string,
+    parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    tags?: string[],
+    metadata?: Record<string, unknown>
+  ) {
+    this.runs.set(runId, { parentRunId, model: metadata?.ls_model_name as string | undefined });
+  }
+
+  handleLLMError(error: unknown, runId: string) {
+    this.runs.delete(runId);
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string) {
+    const run = this.runs.get(runId);
+    const message = (output.generations.flat()[0] as ChatGeneration | undefined)?.message;
+    const usage = AIMessage.isInstance(message) ? message.usage_metadata : undefined;
+    const metadata = (message?.response_metadata ?? {}) as Record<string, string | undefined>;
+    const tokenUsage = output.llmOutput?.tokenUsage;
+
+    UsageLedger.record({
+      ...this.attribution,
+      tool: this.attribution.tool ?? this.findTool(run?.parentRunId),
+      model: metadata.model_name ?? metadata.model ?? run?.model
+        ?? "unknown",
+      inputTokens: usage?.input_tokens ?? tokenUsage?.promptTokens ?? 0,
+      outputTokens: usage?.output_tokens ?? tokenUsage?.completionTokens ?? 0,
+      totalTokens: usage?.total_tokens ?? tokenUsage?.totalTokens,
+    });
+    this.runs.delete(runId);
+  }
+
+  private findTool(runId?: string): string | undefined {
+    for (let run = runId ? this.runs.get(runId) : undefined; run; run = run.parentRunId ? this.runs.get(run.parentRunId) : undefined) {
+      if (run.tool) return run.tool;
+    }
+    return undefined;
+  }
+}
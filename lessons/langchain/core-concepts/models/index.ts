@@ -5,7 +5,9 @@
  * following clean architecture principles and enterprise patterns.
  * 
  * Features:
- * - Multiple model provider support (OpenAI, Anthropic, Google, Azure, Bedrock)
+ * - Multiple model provider support (OpenAI, Anthropic, Google, Azure, Bedrock, local OpenAI-compatible)
+ * - Provider registry with per-provider credentials and defaults
+ * - Deterministic fake model for offline tests and demos
  * - Factory pattern for model creation
  * - Service layer for high-level operations
  * - Type-safe configuration management
@@ -41,7 +43,7 @@ export * from "./utils/index.js";
 export * from "./examples/index.js";
 
 // Re-export key components for convenience
-export { ModelFactory, ModelService } from "./core/index.js";
+export { ModelFactory, ModelService, ProviderRegistry, FakeChatModel } from "./core/index.js";
 export { 
   MODEL_CONFIG, 
   MODEL_CAPABILITIES,
@@ -0,0 +1,160 @@
+/// <reference path="./globals.d.ts" />
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createAgent, tool } from "langchain";
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import * as z from "zod";
+import { FakeChatModel, sampleFromJsonSchema } from "../core/fake-chat-model.js";
+import { ModelService } from "../core/model-service.js";
+import { ModelFactory } from "../core/model-factory.js";
+import { movieSchema } from "../config/index.js";
+
+describe("FakeChatModel", () => {
+  test("should replay scripted responses in order", async () => {
+    const model = new FakeChatModel({ responses: ["first", { content: "second" }] });
+
+    expect((await model.invoke("a")).content).toBe("first");
+    expect((await model.invoke("b")).content).toBe("second");
+    expect(model.remaining).toBe(0);
+  });
+
+  test("should echo the last human message when the script is exhausted", async () => {
+    const model = new FakeChatModel();
+    const response = await model.invoke([new HumanMessage("hello there")]);
+
+    expect(response.content).toBe("Echo: hello there");
+    expect(model.calls).toHaveLength(1);
+  });
+
+  test("should loop the script when requested", async () => {
+    const model = new FakeChatModel({ responses: ["one", "two"], loop: true });
+    const contents = [];
+    for (let i = 0; i < 3; i++) {
+      contents.push((await model.invoke("x")).content);
+    }
+
+    expect(contents).toEqual(["one", "two", "one"]);
+  });
+
+  test("should stream token by token", async () => {
+    const model = new FakeChatModel({ responses: ["streaming works fine"] });
+    const service = new ModelService(model);
+    const tokens: string[] = [];
+
+    const full = await service.streamText("go", { onToken: token => tokens.push(token) });
+
+    expect(tokens).toEqual(["streaming ", "works ", "fine"]);
+    expect(full).toBe("streaming works fine");
+  });
+
+  test("should emit scripted tool calls from bound copies", async () => {
+    const model = new FakeChatModel({
+      responses: [{ toolCalls: [{ name: "search", args: { query: "bun" } }] }]
+    });
+    const search = tool(async ({ query }) => `results for ${query}`, {
+      name: "search",
+      description: "Search",
+      schema: z.object({ query: z.string() })
+    });
+
+    const response = await model.bindTools([search]).invoke("find bun") as AIMessage;
+
+    expect(response.tool_calls?.[0]?.name).toBe("search");
+    expect(response.tool_calls?.[0]?.args).toEqual({ query: "bun" });
+    expect(model.remaining).toBe(0);
+  });
+
+  test("should return structured output through withStructuredOutput", async () => {
+    const movie = { title: "Alien", year: 1979, director: "Ridley Scott", rating: 8.5, genre: ["sci-fi"] };
+    const model = new FakeChatModel({ responses: [{ structured: movie }] });
+
+    const result = await model.withStructuredOutput(movieSchema).invoke("Alien");
+
+    expect(result).toEqual(movie);
+  });
+
+  test("should drive a createAgent run end to end", async () => {
+    const model = new FakeChatModel({
+      responses: [
+        { toolCalls: [{ name: "lookup", args: { topic: "bun" } }] },
+        { structured: { answer: "Bun is fast" } }
+      ]
+    });
+    const lookup = tool(async ({ topic }) => `notes about ${topic}`, {
+      name: "lookup",
+      description: "Look up notes",
+      schema: z.object({ topic: z.string() })
+    });
+
+    const agent = createAgent({
+      model,
+      tools: [lookup],
+      responseFormat: z.object({ answer: z.string() })
+    });
+    const result = await agent.invoke({ messages: [new HumanMessage("tell me about bun")] });
+
+    expect(result.structuredResponse).toEqual({ answer: "Bun is fast" });
+    expect(result.messages.some(message => message.getType() === "tool")).toBe(true);
+    expect(model.calls).toHaveLength(2);
+  });
+
+  test("should fill unscripted structured output from the schema", async () => {
+    const model = new FakeChatModel();
+    const result = await model.withStructuredOutput(movieSchema).invoke("anything");
+
+    expect(movieSchema.safeParse(result).success).toBe(true);
+  });
+
+  test("should load fixtures from a JSON file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "fake-model-"));
+    const filePath = join(dir, "fixtures.json");
+    writeFileSync(filePath, JSON.stringify({
+      responses: ["from file", { content: "with usage", usage: { inputTokens: 3, outputTokens: 2 } }]
+    }));
+
+    try {
+      const model = FakeChatModel.fromFixtureFile(filePath);
+      expect((await model.invoke("a")).content).toBe("from file");
+
+      const second = await model.invoke("b") as AIMessage;
+      expect(second.usage_metadata?.total_tokens).toBe(5);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should be available through ModelFactory without credentials", async () => {
+    const model = await ModelFactory.createModel({ provider: "fake" });
+
+    expect(model instanceof FakeChatModel).toBe(true);
+    expect((await model.invoke("ping")).content).toBe("Echo: ping");
+  });
+});
+
+describe("sampleFromJsonSchema", () => {
+  test("should build values for nested schemas", () => {
+    const value = sampleFromJsonSchema({
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        count: { type: "integer", minimum: 3 },
+        kind: { enum: ["a", "b"] },
+        tags: { type: "array", items: { type: "string" } }
+      }
+    });
+
+    expect(value).toEqual({ name: "Fake name", count: 3, kind: "a", tags: ["Fake tags"] });
+  });
+
+  test("should leave out optional properties", () => {
+    const value = sampleFromJsonSchema({
+      type: "object",
+      properties: { title: { type: "string" }, notes: { type: "string" } },
+      required: ["title"]
+    });
+
+    expect(value).toEqual({ title: "Fake title" });
+  });
+});
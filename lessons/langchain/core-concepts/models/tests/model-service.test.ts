@@ -0,0 +1,208 @@
+/// <reference path="./globals.d.ts" />
+
+import { HumanMessage } from "@langchain/core/messages";
+import { FakeChatModel } from "../core/fake-chat-model.js";
+import { ModelService, StructuredOutputError } from "../core/model-service.js";
+import { MODEL_CONFIG, movieSchema } from "../config/index.js";
+
+const movie = { title: "Alien", year: 1979, director: "Ridley Scott", rating: 8.5, genre: ["sci-fi"] };
+
+describe("ModelService", () => {
+  describe("generateStructured", () => {
+    test("should return valid output on the first attempt", async () => {
+      const service = new ModelService(new FakeChatModel({ responses: [{ structured: movie }] }));
+
+      const result = await service.generateStructured("Alien", movieSchema);
+
+      expect(result.data).toEqual(movie);
+      expect(result.attempts).toHaveLength(1);
+      expect(result.attempts[0].strategy).toBe("provider");
+    });
+
+    test("should send validation errors back and retry with the provider strategy", async () => {
+      const model = new FakeChatModel({
+        responses: [{ structured: { ...movie, rating: 12 } }, { structured: movie }]
+      });
+      const service = new ModelService(model);
+
+      const result = await service.generateStructured("Alien", movieSchema, { schemaName: "movie" });
+
+      expect(result.data).toEqual(movie);
+      expect(result.attempts.map(attempt => attempt.isValid)).toEqual([false, true]);
+      expect(result.attempts[0].validationErrors[0]).toContain("rating");
+
+      const correction = model.calls[1].at(-1)!;
+      expect(correction).toBeInstanceOf(HumanMessage);
+      expect(correction.content).toContain("rating");
+    });
+
+    test("should repair output with the tool strategy", async () => {
+      const model = new FakeChatModel({
+        responses: [{ structured: { title: "Alien" } }, { structured: movie }]
+      });
+      const service = new ModelService(model);
+
+      const result = await service.generateStructured("Alien", movieSchema, { strategy: "tool" });
+
+      expect(result.data).toEqual(movie);
+      expect(result.attempts[0].raw).toEqual({ title: "Alien" });
+      expect(result.attempts[1].strategy).toBe("tool");
+      expect(model.calls[1]).toHaveLength(3);
+    });
+
+    test("should accept JSON returned as text", async () => {
+      const service = new ModelService(new FakeChatModel({
+        responses: [{ content: "```json\n" + JSON.stringify(movie) + "\n```" }]
+      }));
+
+      const result = await service.generateStructured("Alien", movieSchema, { strategy: "tool" });
+
+      expect(result.data).toEqual(movie);
+    });
+
+    test("should fail with the attempts and last raw output once the budget is spent", async () => {
+      const model = new FakeChatModel({ responses: [{ structured: { title: "Alien" } }], loop: true });
+      const service = new ModelService(model);
+      let error: unknown;
+
+      try {
+        await service.generateStructured("Alien", movieSchema, { strategy: "tool", maxAttempts: 2 });
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(StructuredOutputError);
+      const failure = error as StructuredOutputError;
+      expect(failure.attempts).toHaveLength(2);
+      expect(failure.lastRaw).toEqual({ title: "Alien" });
+      expect(failure.validationErrors.length).toBeGreaterThan(0);
+      expect(model.calls).toHaveLength(2);
+    });
+  });
+
+  describe("streamText", () => {
+    test("should stream tokens and return the full response", async () => {
+      const service = new ModelService(new FakeChatModel({ responses: ["one two three"] }));
+      const tokens: string[] = [];
+
+      const text = await service.streamText("count", { onToken: token => tokens.push(token) });
+
+      expect(text).toBe("one two three");
+      expect(tokens).toEqual(["one ", "two ", "three"]);
+    });
+
+    test("should stop streaming when the signal aborts", async () => {
+      const service = new ModelService(
+        new FakeChatModel({ responses: ["a b c d e f g h i j"], tokenDelayMs: 10 })
+      );
+      const controller = new AbortController();
+      const tokens: string[] = [];
+      let completed = false;
+      let failure: unknown;
+
+      await service.streamText("letters", {
+        signal: controller.signal,
+        onToken: token => {
+          tokens.push(token);
+          if (tokens.length === 2) controller.abort(new Error("Client disconnected"));
+        },
+        onComplete: () => {
+          completed = true;
+        }
+      }).catch(error => {
+        failure = error;
+      });
+
+      expect((failure as Error).message).toBe("Client disconnected");
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(tokens).toHaveLength(2);
+      expect(completed).toBe(false);
+    });
+  });
+
+  describe("extract", () => {
+    const contactSchema = {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        email: { type: "string" }
+      },
+      required: ["name", "email"]
+    };
+
+    test("should pick the strategy from the model capabilities", () => {
+      expect(ModelService.selectStrategy(MODEL_CONFIG.models.openai.gpt4)).toBe("provider");
+      expect(ModelService.selectStrategy(MODEL_CONFIG.models.google.gemini)).toBe("tool");
+      expect(ModelService.selectStrategy("unknown-model")).toBe("tool");
+    });
+
+    test("should extract from a single document with a Zod schema", async () => {
+      const model = new FakeChatModel({ responses: [{ structured: movie }] });
+      const service = new ModelService(model);
+
+      const result = await service.extract("Alien (1979) by Ridley Scott", movieSchema);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(movie);
+      expect(result.attempts[0].strategy).toBe("tool");
+      expect(model.calls[0][1].content).toContain("Alien (1979)");
+    });
+
+    test("should validate and repair against a JSON Schema", async () => {
+      const service = new ModelService(new FakeChatModel({
+        responses: [
+          { structured: { name: "Ada" } },
+          { structured: { name: "Ada", email: "ada@example.com" } }
+        ]
+      }));
+
+      const result = await service.extract<{ name: string; email: string }>("Ada, ada@example.com", contactSchema);
+
+      expect(result.data).toEqual({ name: "Ada", email: "ada@example.com" });
+      expect(result.attempts[0].validationErrors[0]).toContain("email");
+    });
+
+    test("should return per-document results for a batch", async () => {
+      const service = new ModelService(new FakeChatModel({
+        responses: [
+          { structured: { name: "Ada", email: "ada@example.com" } },
+          { structured: { name: "Grace" } },
+          { structured: { name: "Alan", email: "alan@example.com" } }
+        ]
+      }));
+
+      const results = await service.extract(["Ada", "Grace", "Alan"], contactSchema, {
+        maxAttempts: 1,
+        maxConcurrency: 1
+      });
+
+      expect(results.map(result => result.success)).toEqual([true, false, true]);
+      expect(results[1].index).toBe(1);
+      expect(results[1].validationErrors).toHaveLength(1);
+      expect(results[2].data).toEqual({ name: "Alan", email: "alan@example.com" });
+    });
+
+    test("should keep at most maxConcurrency documents in flight", async () => {
+      let inFlight = 0;
+      let peak = 0;
+
+      const service = new ModelService(new FakeChatModel());
+      const generateStructured = service.generateStructured.bind(service);
+      service.generateStructured = (async (...args: Parameters<typeof generateStructured>) => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        try {
+          return await generateStructured(...args);
+        } finally {
+          inFlight--;
+        }
+      }) as typeof service.generateStructured;
+
+      const results = await service.extract(["a", "b", "c", "d", "e"], contactSchema, { maxConcurrency: 2 });
+
+      expect(results.every(result => result.success)).toBe(true);
+      expect(peak).toBe(2);
+    });
+  });
+});
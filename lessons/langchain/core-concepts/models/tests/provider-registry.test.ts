@@ -0,0 +1,110 @@
+/// <reference path="./globals.d.ts" />
+
+import { ChatOpenAI } from "@langchain/openai";
+import { ChatAnthropic } from "@langchain/anthropic";
+import { ProviderRegistry } from "../core/provider-registry.js";
+import { ModelFactory } from "../core/model-factory.js";
+import { MODEL_CONFIG } from "../config/index.js";
+
+async function captureError(promise: Promise<unknown>): Promise<Error> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as Error;
+  }
+  throw new Error("Expected promise to reject");
+}
+
+describe("ProviderRegistry", () => {
+  afterEach(() => {
+    ProviderRegistry.reset();
+  });
+
+  test("should register every configured provider", () => {
+    const providers = ProviderRegistry.list();
+
+    for (const provider of Object.values(MODEL_CONFIG.providers)) {
+      expect(providers).toContain(provider);
+    }
+  });
+
+  test("should construct the provider's own model class", async () => {
+    const openai = await ProviderRegistry.resolve({ provider: "openai", apiKey: "test-key" });
+    const anthropic = await ProviderRegistry.resolve({ provider: "anthropic", apiKey: "test-key" });
+
+    expect(openai instanceof ChatOpenAI).toBe(true);
+    expect(anthropic instanceof ChatAnthropic).toBe(true);
+    expect((anthropic as ChatAnthropic).model).toBe(MODEL_CONFIG.models.anthropic.claudeSonnet);
+  });
+
+  test("should point the local provider at an OpenAI-compatible baseUrl", async () => {
+    const model = await ProviderRegistry.resolve({
+      provider: "local",
+      model: "stub-model",
+      baseUrl: "http://localhost:11434/v1"
+    }) as ChatOpenAI;
+
+    expect(model instanceof ChatOpenAI).toBe(true);
+    expect(model.model).toBe("stub-model");
+    expect((model as any).clientConfig.baseURL).toBe("http://localhost:11434/v1");
+  });
+
+  test("should require a baseUrl for the local provider", async () => {
+    const previous = process.env.LOCAL_MODEL_BASE_URL;
+    delete process.env.LOCAL_MODEL_BASE_URL;
+
+    try {
+      expect(ProviderRegistry.isConfigured("local")).toBe(false);
+      const error = await captureError(ProviderRegistry.resolve({ provider: "local" }));
+      expect(error.message).toContain("baseUrl");
+    } finally {
+      if (previous !== undefined) process.env.LOCAL_MODEL_BASE_URL = previous;
+    }
+  });
+
+  test("should merge provider default parameters under caller parameters", async () => {
+    const model = await ProviderRegistry.resolve({
+      provider: "anthropic",
+      apiKey: "test-key",
+      parameters: { temperature: 0.2 }
+    }) as ChatAnthropic;
+
+    expect(model.temperature).toBe(0.2);
+    expect(model.maxTokens).toBe(MODEL_CONFIG.parameters.maxTokens.long);
+  });
+
+  test("should allow replacing a provider registration", async () => {
+    const stub = new ChatOpenAI({ model: "replacement", apiKey: "test-key" });
+    ProviderRegistry.register({
+      provider: "openai",
+      defaultModel: "replacement",
+      create: () => stub
+    });
+
+    expect(await ProviderRegistry.resolve({ provider: "openai" })).toBe(stub);
+  });
+});
+
+describe("ModelFactory provider resolution", () => {
+  test("should honour the requested provider", async () => {
+    const model = await ModelFactory.createModel({
+      provider: "local",
+      baseUrl: "http://localhost:8080/v1"
+    }) as ChatOpenAI;
+
+    expect(model.model).toBe(MODEL_CONFIG.models.local.default);
+    expect((model as any).clientConfig.baseURL).toBe("http://localhost:8080/v1");
+  });
+
+  test("should reject unconfigured providers when validating", async () => {
+    const previous = process.env.GOOGLE_API_KEY;
+    delete process.env.GOOGLE_API_KEY;
+
+    try {
+      const error = await captureError(ModelFactory.createModel({ provider: "google" }));
+      expect(error.message).toContain("not configured");
+    } finally {
+      if (previous !== undefined) process.env.GOOGLE_API_KEY = previous;
+    }
+  });
+});
@@ -0,0 +1,116 @@
+/// <reference path="./globals.d.ts" />
+
+import { FakeChatModel } from "../core/fake-chat-model.js";
+import { ModelService } from "../core/model-service.js";
+import { Tracer, InMemorySpanExporter, OTLPHttpSpanExporter } from "../core/tracer.js";
+import { Logger } from "../utils/logger.js";
+import { movieSchema } from "../config/index.js";
+
+const movie = { title: "Alien", year: 1979, director: "Ridley Scott", rating: 8.5, genre: ["sci-fi"] };
+
+describe("Tracer", () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeEach(() => {
+    Tracer.configure({ exporters: [exporter] });
+  });
+
+  afterEach(() => {
+    exporter.reset();
+    Tracer.reset();
+  });
+
+  test("should nest spans started inside withSpan under one trace", async () => {
+    await Tracer.withSpan("parent", { "test.key": "value" }, async () => {
+      await Tracer.withSpan("child", {}, async () => undefined);
+    });
+
+    const [child, parent] = exporter.getFinishedSpans();
+    expect(child.name).toBe("child");
+    expect(child.parentSpanId).toBe(parent.spanId);
+    expect(child.traceId).toBe(parent.traceId);
+    expect(parent.parentSpanId).toBeUndefined();
+    expect(parent.attributes).toEqual({ "test.key": "value" });
+    expect(parent.status.code).toBe("ok");
+  });
+
+  test("should record exceptions and rethrow them", async () => {
+    let error: unknown;
+    try {
+      await Tracer.withSpan("failing", {}, () => {
+        throw new Error("boom");
+      });
+    } catch (caught) {
+      error = caught;
+    }
+
+    const [span] = exporter.getFinishedSpans();
+    expect((error as Error).message).toBe("boom");
+    expect(span.status).toEqual({ code: "error", message: "boom" });
+    expect(span.events[0].name).toBe("exception");
+  });
+
+  test("should put the trace ID on log lines inside the span", async () => {
+    const traceId = await Tracer.withSpan("logging", {}, span => {
+      expect(Logger.getContext().traceId).toBe(span.traceId);
+      return span.traceId;
+    });
+
+    expect(traceId).toHaveLength(32);
+    expect(Logger.getContext().traceId).toBeUndefined();
+  });
+
+  test("should trace ModelService calls with token usage", async () => {
+    const service = new ModelService(new FakeChatModel({
+      responses: [{ content: "Hello", usage: { inputTokens: 12, outputTokens: 3 } }]
+    }));
+
+    await service.generateText("Hi");
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe("ModelService.generateText");
+    expect(span.kind).toBe("client");
+    expect(span.attributes["gen_ai.usage.input_tokens"]).toBe(12);
+    expect(span.attributes["gen_ai.usage.output_tokens"]).toBe(3);
+  });
+
+  test("should record each structured output attempt", async () => {
+    const service = new ModelService(new FakeChatModel({
+      responses: [{ structured: { ...movie, rating: 12 } }, { structured: movie }]
+    }));
+
+    await service.generateStructured("Alien", movieSchema, { schemaName: "movie" });
+
+    const attempts = exporter.getFinishedSpans().map(span => span.attributes["structured_output.attempt"]);
+    expect(attempts).toEqual([1, 2]);
+  });
+
+  test("should send spans as OTLP JSON", async () => {
+    const requests: Array<{ url: string; body: any }> = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      requests.push({ url, body: JSON.parse(init.body as string) });
+      return new Response(null, { status: 200 });
+    }) as unknown as typeof fetch;
+
+    try {
+      const otlp = new OTLPHttpSpanExporter({ url: "http://collector/v1/traces", serviceName: "test-service" });
+      Tracer.addExporter(otlp);
+      await Tracer.withSpan("exported", { "tool.attempts": 2, "tool.success": false }, () => undefined);
+      await Tracer.flush();
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+
+    expect(requests).toHaveLength(1);
+    const resourceSpans = requests[0].body.resourceSpans[0];
+    const span = resourceSpans.scopeSpans[0].spans[0];
+    expect(resourceSpans.resource.attributes[0]).toEqual({ key: "service.name", value: { stringValue: "test-service" } });
+    expect(span.name).toBe("exported");
+    expect(span.status.code).toBe(1);
+    const attribute = (key: string) => span.attributes.find((entry: { key: string }) => entry.key === key)?.value;
+    expect(attribute("tool.attempts")).toEqual({ intValue: "2" });
+    expect(attribute("tool.success")).toEqual({ boolValue: false });
+    expect(BigInt(span.endTimeUnixNano) >= BigInt(span.startTimeUnixNano)).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+/// <reference path="./globals.d.ts" />
+
+import { tool } from "langchain";
+import * as z from "zod";
+import { FakeChatModel } from "../core/fake-chat-model.js";
+import { ModelService } from "../core/model-service.js";
+import { UsageLedger } from "../core/usage-ledger.js";
+import { MODEL_CONFIG } from "../config/index.js";
+
+const usage = { inputTokens: 1_000, outputTokens: 500 };
+
+describe("UsageLedger", () => {
+  afterEach(() => {
+    UsageLedger.reset();
+  });
+
+  test("should price records with MODEL_PRICING", () => {
+    const record = UsageLedger.record({ model: MODEL_CONFIG.models.openai.gpt4Mini, ...usage });
+
+    expect(record.totalTokens).toBe(1_500);
+    expect(record.costUsd).toBeCloseTo((1_000 * 0.15 + 500 * 0.6) / 1_000_000, 10);
+  });
+
+  test("should price dated model snapshots by their base model", () => {
+    expect(UsageLedger.getPricing("gpt-4o-mini-2024-07-18")).toEqual({ input: 0.15, output: 0.6 });
+    expect(UsageLedger.estimateCost("unknown-model", 10, 10)).toBeUndefined();
+  });
+
+  test("should group totals by model, thread, user role and tool", () => {
+    UsageLedger.record({ model: "gpt-4o", threadId: "t1", userRole: "expert", ...usage });
+    UsageLedger.record({ model: "gpt-4o-mini", threadId: "t1", userRole: "beginner", tool: "deep_research", ...usage });
+    UsageLedger.record({ model: "mystery", threadId: "t2", ...usage });
+
+    const summary = UsageLedger.summarize();
+
+    expect(summary.total.calls).toBe(3);
+    expect(summary.total.unpricedCalls).toBe(1);
+    expect(summary.byThread.t1.calls).toBe(2);
+    expect(Object.keys(summary.byUserRole)).toEqual(["expert", "beginner"]);
+    expect(summary.byTool.deep_research.totalTokens).toBe(1_500);
+    expect(UsageLedger.summarize({ threadId: "t2" }).byModel).toHaveProperty("mystery");
+  });
+
+  test("should keep the latest maxRecords records and total every call", () => {
+    const maxRecords = UsageLedger.maxRecords;
+    UsageLedger.maxRecords = 2;
+
+    try {
+      for (const threadId of ["t1", "t1", "t2"]) {
+        UsageLedger.record({ model: "gpt-4o", threadId, ...usage });
+      }
+
+      expect(UsageLedger.getRecords().map(record => record.threadId)).toEqual(["t1", "t2"]);
+      expect(UsageLedger.getTotals().calls).toBe(3);
+      expect(UsageLedger.getTotals({ threadId: "t1" }).calls).toBe(2);
+      expect(UsageLedger.summarize().byModel["gpt-4o"].totalTokens).toBe(4_500);
+      expect(UsageLedger.getTotals({ threadId: "t1", model: "gpt-4o" }).calls).toBe(1);
+      expect(UsageLedger.summarize({ threadId: "t1" }).total).toEqual(UsageLedger.getTotals({ threadId: "t1" }));
+      expect(UsageLedger.summarize({ threadId: "t1" }).byModel["gpt-4o"].calls).toBe(1);
+    } finally {
+      UsageLedger.maxRecords = maxRecords;
+    }
+  });
+
+  test("should record ModelService calls through the callback handler", async () => {
+    const service = new ModelService(new FakeChatModel({ responses: [{ content: "hi", usage }] }));
+
+    await service.generateText("hello");
+
+    const [record] = UsageLedger.getRecords();
+    expect(record.source).toBe("model-service");
+    expect(record.model).toBe("fake-model");
+    expect(record.inputTokens).toBe(1_000);
+    expect(record.costUsd).toBe(0);
+  });
+
+  test("should attribute model calls made inside a tool to that tool", async () => {
+    const inner = new FakeChatModel({ responses: [{ content: "nested", usage }] });
+    const research = tool(async ({ topic }) => (await inner.invoke(topic)).content as string, {
+      name: "research",
+      description: "Research a topic",
+      schema: z.object({ topic: z.string() })
+    });
+
+    await research.invoke(
+      { topic: "bun" },
+      { callbacks: [UsageLedger.createCallbackHandler({ source: "agent", threadId: "t1", userRole: "expert" })] }
+    );
+
+    const records = UsageLedger.getRecords();
+    expect(records).toHaveLength(1);
+    expect(records[0].tool).toBe("research");
+    expect(records[0].threadId).toBe("t1");
+    expect(records[0].userRole).toBe("expert");
+    expect(records[0].totalTokens).toBe(1_500);
+  });
+});
@@ -1,6 +1,9 @@
 /// <reference path="./globals.d.ts" />
 
-import { Logger } from "../utils/logger.js";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ConsoleLogSink, FileLogSink, Logger, MemoryLogSink } from "../utils/logger.js";
 import { ResponseParser } from "../utils/response-parser.js";
 
 describe("Utils", () => {
@@ -97,6 +100,98 @@ describe("Utils", () => {
       expect(history[0].message).toBe("Message 0");
       expect(history[9].message).toBe("Message 9");
     });
+
+    describe("sinks and configuration", () => {
+      let sink: MemoryLogSink;
+
+      beforeEach(() => {
+        sink = new MemoryLogSink();
+        Logger.configure({ sinks: [sink], level: "info" });
+      });
+
+      afterEach(() => {
+        Logger.reset();
+      });
+
+      test("should filter entries below the configured level", () => {
+        Logger.debug("Hidden detail");
+        Logger.info("Shown");
+        Logger.configure({ level: "error" });
+        Logger.warn("Also hidden");
+
+        expect(sink.entries.map(entry => entry.message)).toEqual(["Shown"]);
+        expect(Logger.isLevelEnabled("debug")).toBe(false);
+      });
+
+      test("should redact secret keys and PII in messages and data", () => {
+        Logger.info("Contact jane.doe@example.com", {
+          apiKey: "sk-abcdefghijklmnopqrstuvwx",
+          headers: { authorization: "Bearer abc.def.ghi" },
+          note: "call +1 415-555-0100 with key sk-abcdefghijklmnopqrstuvwx",
+          maxTokens: 1000,
+        });
+
+        const [entry] = sink.entries;
+        expect(entry.message).toBe("Contact [EMAIL]");
+        expect(entry.data).toEqual({
+          apiKey: "[REDACTED]",
+          headers: { authorization: "[REDACTED]" },
+          note: "call [PHONE] with key [REDACTED_KEY]",
+          maxTokens: 1000,
+        });
+      });
+
+      test("should leave values alone when redaction is off", () => {
+        Logger.configure({ redact: false });
+        Logger.info("Contact jane.doe@example.com");
+
+        expect(sink.entries[0].message).toBe("Contact jane.doe@example.com");
+      });
+
+      test("should attach the run context across awaits", async () => {
+        await Logger.runWithContext({ runId: "run-1", threadId: "thread-1" }, async () => {
+          await new Promise(resolve => setTimeout(resolve, 1));
+          Logger.runWithContext({ traceId: "trace-1" }, () => Logger.info("Nested"));
+          Logger.info("Outer");
+        });
+        Logger.info("Outside");
+
+        expect(sink.entries.map(({ message, runId, threadId, traceId }) => ({ message, runId, threadId, traceId }))).toEqual([
+          { message: "Nested", runId: "run-1", threadId: "thread-1", traceId: "trace-1" },
+          { message: "Outer", runId: "run-1", threadId: "thread-1", traceId: undefined },
+          { message: "Outside", runId: undefined, threadId: undefined, traceId: undefined },
+        ]);
+      });
+
+      test("should write JSON lines to a file sink", () => {
+        const dir = mkdtempSync(join(tmpdir(), "logger-"));
+        const path = join(dir, "app.log");
+
+        try {
+          Logger.addSink(new FileLogSink(path));
+          Logger.runWithContext({ runId: "run-2" }, () => Logger.warn("Slow tool", { latency: 900 }));
+
+          const lines = readFileSync(path, "utf8").trim().split("\n").map(line => JSON.parse(line));
+          expect(lines).toHaveLength(1);
+          expect(lines[0].level).toBe("warn");
+          expect(lines[0].runId).toBe("run-2");
+          expect(lines[0].data).toEqual({ latency: 900 });
+        } finally {
+          rmSync(dir, { recursive: true, force: true });
+        }
+      });
+
+      test("should format readable lines with the run ID", () => {
+        const line = ConsoleLogSink.pretty({
+          level: "info",
+          message: "Search executed",
+          timestamp: "2025-01-01T00:00:00.000Z",
+          runId: "0123456789abcdef",
+        });
+
+        expect(line).toBe("[2025-01-01T00:00:00.000Z] [INFO] [run=01234567] Search executed");
+      });
+    });
   });
 
   describe("ResponseParser", () => {
@@ -157,6 +252,21 @@ describe("Utils", () => {
         expect(result.validationErrors).toBeDefined();
         expect(result.validationErrors).toContain("Could not extract JSON from response");
       });
+
+      test("should validate against a JSON Schema", () => {
+        const schema = {
+          type: "object",
+          properties: { title: { type: "string" }, rating: { type: "number", maximum: 10 } },
+          required: ["title", "rating"]
+        };
+
+        expect(ResponseParser.validateStructuredOutput({ title: "Alien", rating: 8 }, schema).isValid).toBe(true);
+
+        const result = ResponseParser.validateStructuredOutput({ rating: 12 }, schema, "movie");
+        expect(result.isValid).toBe(false);
+        expect(result.validationErrors).toHaveLength(2);
+        expect(result.validationErrors?.[1]).toContain("rating: ");
+      });
     });
 
     describe("formatResponse", () => {
@@ -1,127 +1,309 @@
 /**
- * Logger utility for models lesson
- * Provides structured logging for model operations
+ * Logger - structured logging shared by the models, agents and tools lessons
+ * Level filtering, secret/PII redaction, pluggable sinks and run correlation
  */
 
-export interface LogEntry {
-  level: "info" | "warn" | "error" | "debug";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFileSync } from "node:fs";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFormat = "pretty" | "json";
+
+/**
+ * IDs attached to every line logged while a run is active
+ */
+export interface LogContext {
+  runId?: string;
+  threadId?: string;
+  traceId?: string;
+  userRole?: string;
+}
+
+export interface LogEntry extends LogContext {
+  level: LogLevel;
   message: string;
   data?: Record<string, any>;
   timestamp: string;
 }
 
+/**
+ * Destination for log entries; entries arrive filtered and redacted
+ */
+export interface LogSink {
+  write(entry: LogEntry): void;
+}
+
+export interface LoggerOptions {
+  /** Lowest level written to the sinks */
+  level?: LogLevel;
+  /** Output format of the stdout sink */
+  format?: LogFormat;
+  /** Replaces the default sinks */
+  sinks?: LogSink[];
+  /** Mask secrets and PII before entries reach the sinks */
+  redact?: boolean;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+// Values of these keys are never logged
+const SECRET_KEY_PATTERN = /^(authorization|cookie|set-cookie|password|passwd|secret|client_?secret|token|access_?token|refresh_?token|id_?token|api_?key|x-api-key)$|(password|secret|api_?key)$/i;
+
+// Secrets and PII that show up inside free text
+const REDACTION_PATTERNS: Array<[RegExp, string]> = [
+  [/\bBearer\s+[A-Za-z0-9._~+/=-]+/g, "Bearer [REDACTED]"],
+  [/\b(sk|pk|rk)-[A-Za-z0-9_-]{16,}/g, "[REDACTED_KEY]"],
+  [/\bAKIA[0-9A-Z]{16}\b/g, "[REDACTED_KEY]"],
+  [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, "[EMAIL]"],
+  [/\b(?:\d[ -]?){13,16}\b/g, "[CARD]"],
+  [/\+?\d{1,3}[ .-]?\(?\d{3}\)?[ .-]?\d{3}[ .-]?\d{4}\b/g, "[PHONE]"],
+];
+
+/**
+ * Writes to stdout/stderr, one line per entry in JSON or a readable format
+ */
+export class ConsoleLogSink implements LogSink {
+  constructor(private readonly format: LogFormat = "pretty") {}
+
+  write(entry: LogEntry): void {
+    const line = this.format === "json" ? JSON.stringify(entry) : ConsoleLogSink.pretty(entry);
+
+    switch (entry.level) {
+      case "error":
+        console.error(line);
+        break;
+      case "warn":
+        console.warn(line);
+        break;
+      case "debug":
+        console.debug(line);
+        break;
+      default:
+        console.log(line);
+    }
+  }
+
+  /**
+   * `[timestamp] [LEVEL] [run=…] message` followed by the data as indented JSON
+   */
+  static pretty(entry: LogEntry): string {
+    const ids = [
+      entry.runId && `run=${entry.runId.slice(0, 8)}`,
+      entry.threadId && `thread=${entry.threadId}`,
+      entry.traceId && `trace=${entry.traceId.slice(0, 8)}`,
+    ].filter(Boolean);
+    const context = ids.length > 0 ? ` [${ids.join(" ")}]` : "";
+    const data = entry.data ? `\n${JSON.stringify(entry.data, null, 2)}` : "";
+
+    return `[${entry.timestamp}] [${entry.level.toUpperCase()}]${context} ${entry.message}${data}`;
+  }
+}
+
+/**
+ * Appends entries to a file as JSON lines
+ */
+export class FileLogSink implements LogSink {
+  constructor(readonly path: string) {}
+
+  write(entry: LogEntry): void {
+    appendFileSync(this.path, `${JSON.stringify(entry)}\n`);
+  }
+}
+
+/**
+ * Keeps entries in memory, for tests
+ */
+export class MemoryLogSink implements LogSink {
+  readonly entries: LogEntry[] = [];
+
+  write(entry: LogEntry): void {
+    this.entries.push(entry);
+  }
+
+  /**
+   * Entries at `level`, or all entries
+   */
+  find(level?: LogLevel): LogEntry[] {
+    return level ? this.entries.filter(entry => entry.level === level) : [...this.entries];
+  }
+
+  clear(): void {
+    this.entries.length = 0;
+  }
+}
+
+/**
+ * Defaults from the environment: LOG_LEVEL (debug in development or with DEBUG set),
+ * LOG_FORMAT and LOG_FILE
+ */
+function defaultOptions(): Required<LoggerOptions> {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined;
+  const format: LogFormat = process.env.LOG_FORMAT === "json" ? "json" : "pretty";
+  const sinks: LogSink[] = [new ConsoleLogSink(format)];
+
+  if (process.env.LOG_FILE) {
+    sinks.push(new FileLogSink(process.env.LOG_FILE));
+  }
+
+  return {
+    level: level && level in LEVEL_ORDER
+      ? level
+      : process.env.NODE_ENV === "development" || process.env.DEBUG ? "debug" : "info",
+    format,
+    sinks,
+    redact: process.env.LOG_REDACT !== "false",
+  };
+}
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
 export class Logger {
+  private static options: Required<LoggerOptions> = defaultOptions();
   private static logHistory: LogEntry[] = [];
   private static maxHistorySize = 100;
 
+  /**
+   * Change level, format, sinks or redaction; unspecified options keep their value
+   */
+  static configure(options: LoggerOptions): void {
+    const format = options.format ?? Logger.options.format;
+    // A new format applies to the existing stdout sinks
+    const sinks = options.sinks ?? Logger.options.sinks.map(sink =>
+      sink instanceof ConsoleLogSink && options.format ? new ConsoleLogSink(format) : sink
+    );
+
+    Logger.options = { ...Logger.options, ...options, format, sinks };
+  }
+
+  static addSink(sink: LogSink): void {
+    Logger.options.sinks = [...Logger.options.sinks, sink];
+  }
+
+  static removeSink(sink: LogSink): void {
+    Logger.options.sinks = Logger.options.sinks.filter(existing => existing !== sink);
+  }
+
+  /**
+   * Restore the environment defaults and clear the history
+   */
+  static reset(): void {
+    Logger.options = defaultOptions();
+    Logger.logHistory = [];
+  }
+
+  static isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[Logger.options.level];
+  }
+
+  /**
+   * Run `fn` with IDs that every log line inside it carries, across awaits;
+   * nested contexts inherit the IDs they do not set
+   */
+  static runWithContext<T>(context: LogContext, fn: () => T): T {
+    return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+  }
+
+  static getContext(): LogContext {
+    return { ...contextStorage.getStore() };
+  }
+
   /**
    * Log info message
    */
-  static info(message: string, data?: Record<string, any>): void {
-    this.log("info", message, data);
+  static info(message: string, data?: any): void {
+    Logger.log("info", message, data);
   }
 
   /**
    * Log warning message
    */
-  static warn(message: string, data?: Record<string, any>): void {
-    this.log("warn", message, data);
+  static warn(message: string, data?: any): void {
+    Logger.log("warn", message, data);
   }
 
   /**
    * Log error message
    */
-  static error(message: string, data?: Record<string, any>): void {
-    this.log("error", message, data);
+  static error(message: string, data?: any): void {
+    Logger.log("error", message, data);
   }
 
   /**
    * Log debug message
    */
-  static debug(message: string, data?: Record<string, any>): void {
-    if (process.env.NODE_ENV === "development" || process.env.DEBUG) {
-      this.log("debug", message, data);
-    }
+  static debug(message: string, data?: any): void {
+    Logger.log("debug", message, data);
+  }
+
+  /**
+   * Mask secret-looking keys and secrets or PII inside strings
+   */
+  static redact<T>(value: T): T {
+    return redactValue(value, new WeakSet()) as T;
   }
 
   /**
    * Core logging method
    */
-  private static log(level: LogEntry["level"], message: string, data?: Record<string, any>): void {
+  private static log(level: LogLevel, message: string, data?: any): void {
+    if (!Logger.isLevelEnabled(level)) {
+      return;
+    }
+
+    const redact = Logger.options.redact;
     const entry: LogEntry = {
       level,
-      message,
-      data,
-      timestamp: new Date().toISOString()
+      message: redact ? Logger.redact(message) : message,
+      ...(data !== undefined ? { data: redact ? Logger.redact(data) : data } : {}),
+      timestamp: new Date().toISOString(),
+      ...contextStorage.getStore(),
     };
 
     // Add to history
-    this.logHistory.push(entry);
-    
+    Logger.logHistory.push(entry);
+
     // Maintain max history size
-    if (this.logHistory.length > this.maxHistorySize) {
-      this.logHistory = this.logHistory.slice(-this.maxHistorySize);
+    if (Logger.logHistory.length > Logger.maxHistorySize) {
+      Logger.logHistory = Logger.logHistory.slice(-Logger.maxHistorySize);
     }
 
-    // Console output
-    const prefix = this.getPrefix(level);
-    const dataStr = data ? ` ${JSON.stringify(data, null, 2)}` : "";
-    
-    switch (level) {
-      case "info":
-        console.log(`${prefix} ${message}${dataStr}`);
-        break;
-      case "warn":
-        console.warn(`${prefix} ${message}${dataStr}`);
-        break;
-      case "error":
-        console.error(`${prefix} ${message}${dataStr}`);
-        break;
-      case "debug":
-        console.debug(`${prefix} ${message}${dataStr}`);
-        break;
+    for (const sink of Logger.options.sinks) {
+      try {
+        sink.write(entry);
+      } catch (error) {
+        // A broken sink must not take the caller down
+        console.error(`Log sink failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
     }
   }
 
-  /**
-   * Get emoji prefix for log level
-   */
-  private static getPrefix(level: LogEntry["level"]): string {
-    const prefixes = {
-      info: "ℹ️ ",
-      warn: "⚠️ ",
-      error: "❌",
-      debug: "🔍"
-    };
-    return prefixes[level];
-  }
-
   /**
    * Get log history
    */
   static getHistory(): LogEntry[] {
-    return [...this.logHistory];
+    return [...Logger.logHistory];
   }
 
   /**
    * Get log history filtered by level
    */
   static getHistoryByLevel(level: LogEntry["level"]): LogEntry[] {
-    return this.logHistory.filter(entry => entry.level === level);
+    return Logger.logHistory.filter(entry => entry.level === level);
   }
 
   /**
    * Clear log history
    */
   static clearHistory(): void {
-    this.logHistory = [];
+    Logger.logHistory = [];
   }
 
   /**
    * Export logs as JSON
    */
   static exportLogs(): string {
-    return JSON.stringify(this.logHistory, null, 2);
+    return JSON.stringify(Logger.logHistory, null, 2);
   }
 
   /**
@@ -134,8 +316,8 @@ export class Logger {
     warnings: number;
     operationsByType: Record<string, number>;
   } {
-    const operations = this.logHistory.filter(entry => 
-      entry.data?.latency !== undefined || 
+    const operations = Logger.logHistory.filter(entry =>
+      entry.data?.latency !== undefined ||
       entry.message.includes("completed") ||
       entry.message.includes("failed")
     );
@@ -144,17 +326,17 @@ export class Logger {
       .filter(entry => entry.data?.latency)
       .map(entry => entry.data!.latency as number);
 
-    const averageLatency = latencies.length > 0 
-      ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length 
+    const averageLatency = latencies.length > 0
+      ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length
       : 0;
 
-    const errors = this.getHistoryByLevel("error").length;
-    const warnings = this.getHistoryByLevel("warn").length;
+    const errors = Logger.getHistoryByLevel("error").length;
+    const warnings = Logger.getHistoryByLevel("warn").length;
 
     // Count operations by type
     const operationsByType: Record<string, number> = {};
     operations.forEach(entry => {
-      const operationType = this.extractOperationType(entry.message);
+      const operationType = Logger.extractOperationType(entry.message);
       operationsByType[operationType] = (operationsByType[operationType] || 0) + 1;
     });
 
@@ -172,7 +354,7 @@ export class Logger {
    */
   private static extractOperationType(message: string): string {
     const lowerMessage = message.toLowerCase();
-    
+
     if (lowerMessage.includes("text generation")) return "text_generation";
     if (lowerMessage.includes("streaming")) return "streaming";
     if (lowerMessage.includes("batch")) return "batch";
@@ -182,7 +364,34 @@ export class Logger {
     if (lowerMessage.includes("conversation")) return "conversation";
     if (lowerMessage.includes("comparison")) return "model_comparison";
     if (lowerMessage.includes("model created")) return "model_creation";
-    
+
     return "other";
   }
-}
\ No newline at end of file
+}
+
+function redactValue(value: unknown, seen: WeakSet<object>): unknown {
+  if (typeof value === "string") {
+    return REDACTION_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (seen.has(value)) {
+    return "[Circular]";
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redactValue(value.message, seen) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, seen));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      typeof item === "string" && SECRET_KEY_PATTERN.test(key) ? "[REDACTED]" : redactValue(item, seen),
+    ])
+  );
+}
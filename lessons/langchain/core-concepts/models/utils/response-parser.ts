@@ -4,6 +4,7 @@
  */
 
 import { AIMessage } from "@langchain/core/messages";
+import { Validator } from "@langchain/core/utils/json_schema";
 import { Logger } from "./logger.js";
 
 export interface ParsedResponse {
@@ -269,6 +270,32 @@ export class ResponseParser {
         }
       }
 
+      // Plain JSON Schema objects are checked with a JSON Schema validator
+      if (schema && typeof schema === "object") {
+        const errors = this.validateJsonSchema(parsed, schema);
+
+        if (errors.length === 0) {
+          Logger.info("Structured output validation successful", {
+            schemaName,
+            validatedKeys: Object.keys(parsed || {}),
+            timestamp: new Date().toISOString()
+          });
+        } else {
+          Logger.warn("Structured output validation failed", {
+            schemaName,
+            errors,
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        return {
+          parsed: parsed as T,
+          raw: { content: JSON.stringify(parsed) },
+          isValid: errors.length === 0,
+          validationErrors: errors.length > 0 ? errors : undefined
+        };
+      }
+
       // No schema validation, assume valid
       return {
         parsed: parsed as T,
@@ -306,6 +333,21 @@ export class ResponseParser {
     return [error instanceof Error ? error.message : String(error)];
   }
 
+  /**
+   * Validate against a JSON Schema, formatting errors like Zod issues ("path: message")
+   */
+  private static validateJsonSchema(value: unknown, schema: Record<string, any>): string[] {
+    const { errors } = new Validator(schema, "7", false).validate(value);
+
+    return errors
+      // "properties" and "items" errors only summarise the nested errors that follow them
+      .filter(error => error.keyword !== "properties" && error.keyword !== "items")
+      .map(error => {
+        const path = error.instanceLocation.replace(/^#\/?/, "").split("/").filter(Boolean).join(".");
+        return `${path}: ${error.error}`;
+      });
+  }
+
   /**
    * Format response for display
    */
@@ -51,6 +51,7 @@ export enum CheckpointerType {
   MEMORY = "memory",
   POSTGRES = "postgres",
   SQLITE = "sqlite",
+  FILE = "file",
 }
 
 /**
@@ -0,0 +1,147 @@
+/**
+ * File Checkpointer - MemorySaver that persists to a JSON file
+ * Zero-dependency local default for keeping threads across process restarts
+ */
+
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { MemorySaver } from "@langchain/langgraph";
+import type { Checkpoint, CheckpointMetadata } from "@langchain/langgraph";
+import type { RunnableConfig } from "@langchain/core/runnables";
+
+type PendingWrite = Parameters<MemorySaver["putWrites"]>[1];
+
+/**
+ * On-disk layout: MemorySaver storage with byte arrays encoded as base64
+ */
+interface SerializedCheckpointFile {
+  version: 1;
+  storage: Record<string, Record<string, Record<string, [string, string, string | undefined]>>>;
+  writes: Record<string, Record<string, [string, string, string]>>;
+}
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString("base64");
+const fromBase64 = (value: string) => new Uint8Array(Buffer.from(value, "base64"));
+
+/**
+ * File-backed checkpointer
+ *
+ * Keeps the in-memory layout of MemorySaver and rewrites the whole file after
+ * every mutation. Fine for local development and demos, not for concurrent writers.
+ */
+export class FileCheckpointSaver extends MemorySaver {
+  private flushQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.load();
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
+  ): Promise<RunnableConfig> {
+    const result = await super.put(config, checkpoint, metadata);
+    await this.flush();
+    return result;
+  }
+
+  async putWrites(
+    config: RunnableConfig,
+    writes: PendingWrite,
+    taskId: string
+  ): Promise<void> {
+    await super.putWrites(config, writes, taskId);
+    await this.flush();
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await super.deleteThread(threadId);
+    await this.flush();
+  }
+
+  /**
+   * Path of the backing file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    const raw = readFileSync(this.filePath, "utf-8");
+    if (!raw.trim()) {
+      return;
+    }
+
+    const data = JSON.parse(raw) as SerializedCheckpointFile;
+
+    for (const [threadId, namespaces] of Object.entries(data.storage ?? {})) {
+      this.storage[threadId] = {};
+      for (const [namespace, checkpoints] of Object.entries(namespaces)) {
+        this.storage[threadId][namespace] = {};
+        for (const [checkpointId, [checkpoint, metadata, parentId]] of Object.entries(checkpoints)) {
+          this.storage[threadId][namespace][checkpointId] = [
+            fromBase64(checkpoint),
+            fromBase64(metadata),
+            parentId ?? undefined,
+          ];
+        }
+      }
+    }
+
+    for (const [outerKey, entries] of Object.entries(data.writes ?? {})) {
+      this.writes[outerKey] = {};
+      for (const [innerKey, [taskId, channel, value]] of Object.entries(entries)) {
+        this.writes[outerKey][innerKey] = [taskId, channel, fromBase64(value)];
+      }
+    }
+  }
+
+  private serialize(): SerializedCheckpointFile {
+    const storage: SerializedCheckpointFile["storage"] = {};
+    for (const [threadId, namespaces] of Object.entries(this.storage)) {
+      storage[threadId] = {};
+      for (const [namespace, checkpoints] of Object.entries(namespaces)) {
+        storage[threadId][namespace] = {};
+        for (const [checkpointId, [checkpoint, metadata, parentId]] of Object.entries(checkpoints)) {
+          storage[threadId][namespace][checkpointId] = [
+            toBase64(checkpoint),
+            toBase64(metadata),
+            parentId,
+          ];
+        }
+      }
+    }
+
+    const writes: SerializedCheckpointFile["writes"] = {};
+    for (const [outerKey, entries] of Object.entries(this.writes)) {
+      writes[outerKey] = {};
+      for (const [innerKey, [taskId, channel, value]] of Object.entries(entries)) {
+        writes[outerKey][innerKey] = [taskId, channel, toBase64(value)];
+      }
+    }
+
+    return { version: 1, storage, writes };
+  }
+
+  /**
+   * Serialize writes so concurrent mutations never interleave on disk
+   */
+  private flush(): Promise<void> {
+    // A failed flush must not block the ones queued after it
+    this.flushQueue = this.flushQueue.catch(() => undefined).then(async () => {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, JSON.stringify(this.serialize()));
+      await rename(tempPath, this.filePath);
+    });
+
+    return this.flushQueue;
+  }
+}
@@ -5,6 +5,7 @@
 
 import { BaseMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { UsageLedger, type UsageAttribution } from "../../models/core/usage-ledger.js";
 
 /**
  * Summarization configuration
@@ -15,6 +16,8 @@ export interface SummarizerConfig {
   messagesToKeep?: number;
   summaryPrompt?: string;
   incrementalSummary?: boolean;
+  /** Thread and role the summarization calls are recorded under in the UsageLedger */
+  usage?: UsageAttribution;
 }
 
 /**
@@ -87,9 +90,9 @@ export class Summarizer {
       )}`;
     }
 
-    const response = await this.config.model.invoke([
-      new HumanMessage(prompt),
-    ]);
+    const response = await this.config.model.invoke([new HumanMessage(prompt)], {
+      callbacks: [UsageLedger.createCallbackHandler({ source: "summarizer", ...this.config.usage })],
+    });
 
     const summary =
       typeof response.content === "string"
@@ -226,7 +229,9 @@ export class SummarizationStrategies {
       )}`
     );
 
-    const finalResponse = await model.invoke([finalPrompt]);
+    const finalResponse = await model.invoke([finalPrompt], {
+      callbacks: [UsageLedger.createCallbackHandler({ source: "summarizer" })],
+    });
 
     return typeof finalResponse.content === "string"
       ? finalResponse.content
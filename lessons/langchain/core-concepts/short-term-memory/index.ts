@@ -6,6 +6,7 @@
 // Core exports
 export * from "./core/memory-manager.js";
 export * from "./core/summarizer.js";
+export * from "./core/file-checkpointer.js";
 
 // Config exports
 export * from "./config/constants.js";
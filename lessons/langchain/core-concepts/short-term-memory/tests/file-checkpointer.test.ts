@@ -0,0 +1,95 @@
+/**
+ * Tests for FileCheckpointSaver
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HumanMessage, AIMessage } from "@langchain/core/messages";
+import { StateGraph, MessagesAnnotation, START, END } from "@langchain/langgraph";
+import { FileCheckpointSaver } from "../core/file-checkpointer.js";
+import { CheckpointerUtils } from "../core/memory-manager.js";
+
+function createEchoGraph(checkpointer: FileCheckpointSaver) {
+  return new StateGraph(MessagesAnnotation)
+    .addNode("echo", (state) => ({
+      messages: [new AIMessage(`echo ${state.messages.length}`)],
+    }))
+    .addEdge(START, "echo")
+    .addEdge("echo", END)
+    .compile({ checkpointer });
+}
+
+describe("FileCheckpointSaver", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "checkpoints-"));
+    filePath = join(dir, "nested", "checkpoints.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should create the backing file on first write", async () => {
+    const saver = new FileCheckpointSaver(filePath);
+    const graph = createEchoGraph(saver);
+
+    await graph.invoke(
+      { messages: [new HumanMessage("hi")] },
+      CheckpointerUtils.createThreadConfig("thread_1")
+    );
+
+    expect(existsSync(filePath)).toBe(true);
+    expect(saver.getFilePath()).toBe(filePath);
+  });
+
+  test("should restore conversation state in a new instance", async () => {
+    const config = CheckpointerUtils.createThreadConfig("thread_1");
+
+    await createEchoGraph(new FileCheckpointSaver(filePath)).invoke(
+      { messages: [new HumanMessage("first")] },
+      config
+    );
+
+    const restored = new FileCheckpointSaver(filePath);
+    const result = await createEchoGraph(restored).invoke(
+      { messages: [new HumanMessage("second")] },
+      config
+    );
+
+    expect(result.messages.map((m) => m.content)).toEqual([
+      "first",
+      "echo 1",
+      "second",
+      "echo 3",
+    ]);
+  });
+
+  test("should persist thread deletion", async () => {
+    const saver = new FileCheckpointSaver(filePath);
+    await createEchoGraph(saver).invoke(
+      { messages: [new HumanMessage("hi")] },
+      CheckpointerUtils.createThreadConfig("thread_1")
+    );
+
+    await saver.deleteThread("thread_1");
+
+    const restored = new FileCheckpointSaver(filePath);
+    const tuple = await restored.getTuple(CheckpointerUtils.createThreadConfig("thread_1"));
+    expect(tuple).toBeUndefined();
+  });
+
+  test("should start empty when the file does not exist", async () => {
+    const saver = new FileCheckpointSaver(filePath);
+    const tuples = [];
+    for await (const tuple of saver.list({})) {
+      tuples.push(tuple);
+    }
+
+    expect(tuples).toHaveLength(0);
+  });
+});
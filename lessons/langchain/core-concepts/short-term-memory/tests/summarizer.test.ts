@@ -6,6 +6,8 @@ import { describe, test, expect, mock } from "bun:test";
 import { HumanMessage, AIMessage } from "@langchain/core/messages";
 import { Summarizer, SummarizationStrategies } from "../core/summarizer.js";
 import { ChatAnthropic } from "@langchain/anthropic";
+import { FakeChatModel } from "../../models/core/fake-chat-model.js";
+import { UsageLedger } from "../../models/core/usage-ledger.js";
 
 // Mock model for testing
 const mockModel = {
@@ -87,6 +89,24 @@ describe("Summarizer", () => {
     });
   });
 
+  describe("usage", () => {
+    test("should record summarization calls in the usage ledger", async () => {
+      const summarizer = new Summarizer({
+        model: new FakeChatModel({ responses: [{ content: "Summary", usage: { inputTokens: 40, outputTokens: 10 } }] }),
+        messagesToKeep: 1,
+        usage: { threadId: "thread-1" },
+      });
+
+      await summarizer.summarize([new HumanMessage("Message 1"), new AIMessage("Response 1")]);
+
+      const records = UsageLedger.getRecords({ source: "summarizer" });
+      UsageLedger.reset();
+      expect(records).toHaveLength(1);
+      expect(records[0].threadId).toBe("thread-1");
+      expect(records[0].totalTokens).toBe(50);
+    });
+  });
+
   describe("createMessagesWithSummary()", () => {
     test("should return original messages if no summarization needed", async () => {
       const summarizer = new Summarizer({
@@ -0,0 +1,192 @@
+/**
+ * Circuit Breaker - Stops calling a tool that keeps failing and lets a few
+ * probe calls through after a cool-down to find out whether it recovered
+ */
+
+import type { ToolFailureKind } from "./tool-errors.js";
+
+/**
+ * closed: calls run normally; open: calls are refused; half_open: probe calls decide
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerOptions {
+  /** Most recent calls the failure ratio is computed over */
+  windowSize?: number;
+  /** Calls needed in the window before the breaker can open */
+  minimumCalls?: number;
+  /** Failure ratio that opens the breaker, 0 to 1 */
+  failureThreshold?: number;
+  /** How long the breaker stays open before letting probe calls through (ms) */
+  openDuration?: number;
+  /** Successful probes needed to close the breaker again */
+  halfOpenProbes?: number;
+  /** Failure kinds that count against the tool */
+  countedFailures?: ToolFailureKind[];
+  /** Clock, replaceable in tests */
+  now?: () => number;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  /** Counted calls and failures in the window */
+  calls: number;
+  failures: number;
+  failureRate: number;
+  /** When the breaker last opened */
+  openedAt?: string;
+  /** When an open breaker starts letting probe calls through */
+  retryAt?: string;
+}
+
+// Bad arguments and denied calls say nothing about the tool's health
+const COUNTED_FAILURES: ToolFailureKind[] = ["timeout", "upstream", "unknown"];
+
+const DEFAULT_OPTIONS = {
+  windowSize: 20,
+  minimumCalls: 5,
+  failureThreshold: 0.5,
+  openDuration: 30000,
+  halfOpenProbes: 1,
+} as const;
+
+/**
+ * Circuit Breaker - one per tool, fed with the outcome of every call
+ */
+export class CircuitBreaker {
+  readonly windowSize: number;
+  readonly minimumCalls: number;
+  readonly failureThreshold: number;
+  readonly openDuration: number;
+  readonly halfOpenProbes: number;
+  private readonly countedFailures: ToolFailureKind[];
+  private readonly now: () => number;
+
+  /** true for a failed call, oldest first */
+  private window: boolean[] = [];
+  private openedAt?: number;
+  private probeStartedAt?: number;
+  private probeSuccesses = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.windowSize = options.windowSize ?? DEFAULT_OPTIONS.windowSize;
+    this.minimumCalls = options.minimumCalls ?? DEFAULT_OPTIONS.minimumCalls;
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_OPTIONS.failureThreshold;
+    this.openDuration = options.openDuration ?? DEFAULT_OPTIONS.openDuration;
+    this.halfOpenProbes = options.halfOpenProbes ?? DEFAULT_OPTIONS.halfOpenProbes;
+    this.countedFailures = options.countedFailures ?? COUNTED_FAILURES;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Open breakers turn half-open once openDuration has passed
+   */
+  get state(): CircuitState {
+    if (this.openedAt === undefined) {
+      return "closed";
+    }
+    return this.now() - this.openedAt < this.openDuration ? "open" : "half_open";
+  }
+
+  /**
+   * Whether a call may run now. Half-open breakers let one probe run at a time;
+   * a probe that never reports back frees its slot after openDuration.
+   */
+  tryAcquire(): boolean {
+    switch (this.state) {
+      case "closed":
+        return true;
+      case "open":
+        return false;
+      case "half_open": {
+        const now = this.now();
+        if (this.probeStartedAt !== undefined && now - this.probeStartedAt < this.openDuration) {
+          return false;
+        }
+        this.probeStartedAt = now;
+        return true;
+      }
+    }
+  }
+
+  /**
+   * Feed the outcome of a call; failures of kinds that are not counted are ignored
+   */
+  record(outcome: { success: boolean; failureKind?: ToolFailureKind }): void {
+    const failed = !outcome.success;
+    if (failed && !this.countedFailures.includes(outcome.failureKind ?? "unknown")) {
+      this.release();
+      return;
+    }
+
+    if (this.openedAt !== undefined) {
+      this.recordProbe(failed);
+      return;
+    }
+
+    this.window.push(failed);
+    if (this.window.length > this.windowSize) {
+      this.window.shift();
+    }
+
+    const { calls, failureRate } = this.getStatus();
+    if (calls >= this.minimumCalls && failureRate >= this.failureThreshold) {
+      this.open();
+    }
+  }
+
+  /**
+   * Free the probe slot of a call that ended without an outcome, e.g. one the caller cancelled
+   */
+  release(): void {
+    this.probeStartedAt = undefined;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const calls = this.window.length;
+    const failures = this.window.filter(Boolean).length;
+
+    return {
+      state: this.state,
+      calls,
+      failures,
+      failureRate: calls > 0 ? failures / calls : 0,
+      ...(this.openedAt !== undefined && {
+        openedAt: new Date(this.openedAt).toISOString(),
+        retryAt: new Date(this.openedAt + this.openDuration).toISOString(),
+      }),
+    };
+  }
+
+  /**
+   * Close the breaker and forget the window
+   */
+  reset(): void {
+    this.window = [];
+    this.openedAt = undefined;
+    this.probeStartedAt = undefined;
+    this.probeSuccesses = 0;
+  }
+
+  /**
+   * A failed probe reopens the breaker; enough successful ones close it.
+   * Calls that finish while the breaker is still open change nothing.
+   */
+  private recordProbe(failed: boolean): void {
+    this.probeStartedAt = undefined;
+    if (this.state !== "half_open") {
+      return;
+    }
+
+    if (failed) {
+      this.open();
+    } else if (++this.probeSuccesses >= this.halfOpenProbes) {
+      this.reset();
+    }
+  }
+
+  private open(): void {
+    this.openedAt = this.now();
+    this.probeSuccesses = 0;
+  }
+}
@@ -4,6 +4,10 @@
 
 export * from "./tool-builder.js";
 export * from "./tool-executor.js";
+export * from "./tool-arguments.js";
+export * from "./tool-errors.js";
+export * from "./retry-policy.js";
+export * from "./circuit-breaker.js";
 export * from "./tool-service.js";
 
 // Re-export LangChain tool function for convenience
@@ -0,0 +1,120 @@
+/**
+ * Retry Policy - Decides whether a failed tool call is retried and how long to wait:
+ * exponential backoff with jitter, bounded by attempts and total elapsed time
+ */
+
+import type { ToolFailureKind } from "./tool-errors.js";
+
+export interface RetryPolicyOptions {
+  /** Attempts including the first one; 1 disables retries */
+  maxAttempts?: number;
+  /** Delay before the first retry (ms) */
+  initialDelay?: number;
+  /** Factor applied to the delay after each retry */
+  multiplier?: number;
+  /** Upper bound for a single delay (ms) */
+  maxDelay?: number;
+  /** Fraction of each delay randomized in both directions, 0 to 1 */
+  jitter?: number;
+  /** No retry starts once it would begin later than this after the first attempt (ms) */
+  maxElapsedTime?: number;
+  /** Failure kinds worth retrying */
+  retryOn?: ToolFailureKind[];
+  /** Decides per error instead of `retryOn` */
+  isRetryable?: (error: unknown, kind: ToolFailureKind) => boolean;
+  /** Source of randomness for jitter; replace for deterministic delays */
+  random?: () => number;
+}
+
+// Bad arguments and denied calls fail the same way on every attempt
+const RETRYABLE_KINDS: ToolFailureKind[] = ["timeout", "upstream"];
+const ALL_BUT_PERMANENT: ToolFailureKind[] = ["timeout", "upstream", "unknown"];
+
+const DEFAULT_OPTIONS = {
+  maxAttempts: 3,
+  initialDelay: 200,
+  multiplier: 2,
+  maxDelay: 5000,
+  jitter: 0.2,
+  maxElapsedTime: 30000,
+} as const;
+
+/**
+ * Retry Policy - configured once, shared by every execution that uses it
+ */
+export class RetryPolicy {
+  /** Never retries */
+  static readonly none = new RetryPolicy({ maxAttempts: 1 });
+
+  readonly maxAttempts: number;
+  readonly initialDelay: number;
+  readonly multiplier: number;
+  readonly maxDelay: number;
+  readonly jitter: number;
+  readonly maxElapsedTime: number;
+  private readonly retryOn: ToolFailureKind[];
+  private readonly retryable?: (error: unknown, kind: ToolFailureKind) => boolean;
+  private readonly random: () => number;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_OPTIONS.maxAttempts);
+    this.initialDelay = options.initialDelay ?? DEFAULT_OPTIONS.initialDelay;
+    this.multiplier = options.multiplier ?? DEFAULT_OPTIONS.multiplier;
+    this.maxDelay = options.maxDelay ?? DEFAULT_OPTIONS.maxDelay;
+    this.jitter = Math.min(1, Math.max(0, options.jitter ?? DEFAULT_OPTIONS.jitter));
+    this.maxElapsedTime = options.maxElapsedTime ?? DEFAULT_OPTIONS.maxElapsedTime;
+    this.retryOn = options.retryOn ?? RETRYABLE_KINDS;
+    this.retryable = options.isRetryable;
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Same delay before every retry; used for the `retries`/`retryDelay` execution options
+   */
+  static fixed(retries: number, delay = 0): RetryPolicy {
+    return new RetryPolicy({
+      maxAttempts: retries + 1,
+      initialDelay: delay,
+      multiplier: 1,
+      maxDelay: delay,
+      jitter: 0,
+      maxElapsedTime: Infinity,
+      retryOn: ALL_BUT_PERMANENT,
+    });
+  }
+
+  /**
+   * Policy instance for options, or undefined when none are given
+   */
+  static from(policy: RetryPolicy | RetryPolicyOptions | undefined): RetryPolicy | undefined {
+    if (policy === undefined || policy instanceof RetryPolicy) {
+      return policy;
+    }
+    return new RetryPolicy(policy);
+  }
+
+  isRetryable(error: unknown, kind: ToolFailureKind): boolean {
+    return this.retryable ? this.retryable(error, kind) : this.retryOn.includes(kind);
+  }
+
+  /**
+   * Backoff before retry number `retry` (1 for the first retry), with jitter applied
+   */
+  getDelay(retry: number): number {
+    const base = Math.min(this.maxDelay, this.initialDelay * this.multiplier ** (retry - 1));
+    const spread = base * this.jitter * (2 * this.random() - 1);
+    return Math.max(0, Math.round(base + spread));
+  }
+
+  /**
+   * Delay before the next attempt after failed attempt `attempt`, or undefined to stop
+   */
+  nextDelay(attempt: number, error: unknown, kind: ToolFailureKind, elapsed: number): number | undefined {
+    if (attempt >= this.maxAttempts || !this.isRetryable(error, kind)) {
+      return undefined;
+    }
+
+    const delay = this.getDelay(attempt);
+    return elapsed + delay > this.maxElapsedTime ? undefined : delay;
+  }
+}
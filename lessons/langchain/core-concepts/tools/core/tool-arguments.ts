@@ -0,0 +1,190 @@
+/**
+ * Tool Arguments - Validates tool call arguments against the tool's Zod schema
+ * and repairs the mistakes models commonly make before the tool is invoked
+ */
+
+/**
+ * One reason the arguments were rejected
+ */
+export interface ToolArgumentIssue {
+  /** Dotted path of the argument, empty for the arguments object itself */
+  path: string;
+  message: string;
+}
+
+export type ToolArgumentValidation =
+  | {
+      success: true;
+      /** Parsed arguments, with defaults applied */
+      args: any;
+      /** Repairs applied before parsing, e.g. `limit: "5" -> 5` */
+      coercions: string[];
+    }
+  | {
+      success: false;
+      issues: ToolArgumentIssue[];
+      coercions: string[];
+    };
+
+interface SchemaIssue {
+  code: string;
+  expected?: string;
+  path: PropertyKey[];
+  message: string;
+}
+
+interface ParsableSchema {
+  safeParse(value: unknown): { success: boolean; data?: unknown; error?: { issues: SchemaIssue[] } };
+  shape?: Record<string, unknown>;
+}
+
+// Each pass can uncover issues nested in a value the previous pass repaired
+const MAX_COERCION_PASSES = 3;
+
+const NUMERIC_STRING = /^\s*-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?\s*$/i;
+
+/**
+ * Tool Argument Validator - parse and coerce tool call arguments.
+ * Handles Zod v3 and v4 schemas; tools without a Zod schema are passed through.
+ */
+export class ToolArgumentValidator {
+  /**
+   * Parse `args` against `schema`, coercing numeric strings, single values vs. arrays
+   * and snake_case/camelCase keys until they parse or no repair applies
+   */
+  static validate(schema: unknown, args: unknown): ToolArgumentValidation {
+    if (!this.isParsable(schema)) {
+      return { success: true, args, coercions: [] };
+    }
+
+    const coercions: string[] = [];
+    let candidate = this.normalizeKeys(schema, args, coercions);
+
+    for (let pass = 0; ; pass++) {
+      const result = schema.safeParse(candidate);
+
+      if (result.success) {
+        return { success: true, args: result.data, coercions };
+      }
+
+      const issues = result.error?.issues ?? [];
+      const repaired = pass < MAX_COERCION_PASSES ? this.coerce(candidate, issues, coercions) : undefined;
+
+      if (repaired === undefined) {
+        return { success: false, issues: issues.map(issue => this.toIssue(issue)), coercions };
+      }
+      candidate = repaired;
+    }
+  }
+
+  /**
+   * One line per issue, for error messages
+   */
+  static formatIssues(issues: ToolArgumentIssue[]): string {
+    return issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join("; ");
+  }
+
+  private static isParsable(schema: unknown): schema is ParsableSchema {
+    return typeof (schema as ParsableSchema | undefined)?.safeParse === "function";
+  }
+
+  /**
+   * Rename top-level keys the schema only knows in the other case style
+   */
+  private static normalizeKeys(schema: ParsableSchema, args: unknown, coercions: string[]): unknown {
+    if (!schema.shape || !this.isRecord(args)) {
+      return args;
+    }
+
+    const known = new Set(Object.keys(schema.shape));
+    const normalized: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(args)) {
+      const renamed = known.has(key) ? key : [this.toCamel(key), this.toSnake(key)].find(name => known.has(name));
+
+      if (renamed && renamed !== key && !(renamed in args)) {
+        coercions.push(`${key} -> ${renamed}`);
+        normalized[renamed] = value;
+      } else {
+        normalized[key] = value;
+      }
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Copy of `args` with the type issues repaired, or undefined when none could be
+   */
+  private static coerce(args: unknown, issues: SchemaIssue[], coercions: string[]): unknown {
+    const copy = structuredClone(args);
+    let changed = false;
+
+    for (const issue of issues) {
+      if (issue.code !== "invalid_type" || issue.path.length === 0) continue;
+
+      const parent = this.getAt(copy, issue.path.slice(0, -1));
+      const key = issue.path[issue.path.length - 1] as string | number;
+      if (!this.isRecord(parent) && !Array.isArray(parent)) continue;
+
+      const container = parent as Record<string | number, unknown>;
+      const value = this.coerceValue(container[key], issue.expected);
+
+      if (value !== undefined) {
+        coercions.push(`${this.formatPath(issue.path)}: ${JSON.stringify(container[key])} -> ${JSON.stringify(value)}`);
+        container[key] = value;
+        changed = true;
+      }
+    }
+
+    return changed ? copy : undefined;
+  }
+
+  private static coerceValue(value: unknown, expected: string | undefined): unknown {
+    if (value === undefined || value === null) return undefined;
+
+    // A lone value where a list is expected, or a one-item list where a value is
+    if (expected === "array") return Array.isArray(value) ? undefined : [value];
+    if (Array.isArray(value)) return value.length === 1 ? value[0] : undefined;
+
+    if ((expected === "number" || expected === "int" || expected === "integer") && typeof value === "string") {
+      return NUMERIC_STRING.test(value) ? Number(value) : undefined;
+    }
+    if (expected === "boolean" && typeof value === "string") {
+      const lower = value.trim().toLowerCase();
+      return lower === "true" ? true : lower === "false" ? false : undefined;
+    }
+    if (expected === "string" && (typeof value === "number" || typeof value === "boolean")) {
+      return String(value);
+    }
+
+    return undefined;
+  }
+
+  private static toIssue(issue: SchemaIssue): ToolArgumentIssue {
+    return { path: this.formatPath(issue.path), message: issue.message };
+  }
+
+  private static getAt(value: unknown, path: PropertyKey[]): unknown {
+    return path.reduce<unknown>(
+      (current, key) => (current as Record<PropertyKey, unknown> | undefined)?.[key],
+      value
+    );
+  }
+
+  private static formatPath(path: PropertyKey[]): string {
+    return path.map(String).join(".");
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  private static toCamel(key: string): string {
+    return key.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+  }
+
+  private static toSnake(key: string): string {
+    return key.replace(/[A-Z]/g, char => `_${char.toLowerCase()}`);
+  }
+}
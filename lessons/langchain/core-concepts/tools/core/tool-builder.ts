@@ -22,6 +22,8 @@ export interface ToolConfig {
   context?: ToolContext;
   store?: any;
   streamWriter?: (message: string) => void;
+  /** Aborted when the call is cancelled or times out; long-running tools should stop on it */
+  signal?: AbortSignal;
   [key: string]: any;
 }
 
@@ -41,6 +43,8 @@ export interface ToolDefinition<T = any> {
   description: string;
   schema: z.ZodSchema<T>;
   func: ToolFunction<T>;
+  /** With "content_and_artifact", func returns `[content, artifact]` */
+  responseFormat?: "content" | "content_and_artifact";
 }
 
 /**
@@ -177,17 +181,19 @@ export class ToolBuilder {
 
   /**
    * Create a tool with streaming updates
+   * Inside a LangGraph run the writer falls back to the graph's custom stream writer
    */
-  static createStreamingTool<T>(definition: ToolDefinition<T>) {
+  static createStreamingTool<S extends z.ZodObject<any>>(definition: ToolDefinition<z.infer<S>> & { schema: S }) {
     return tool(
-      (args: T, config?: ToolConfig) => {
-        const writer = config?.streamWriter;
+      (args: z.infer<S>, config?: ToolConfig) => {
+        const writer = config?.streamWriter ?? config?.writer;
         return definition.func(args, { ...config, streamWriter: writer });
       },
       {
         name: definition.name,
         description: definition.description,
         schema: definition.schema,
+        responseFormat: definition.responseFormat,
       }
     );
   }
@@ -0,0 +1,80 @@
+/**
+ * Tool Errors - Classifies tool failures so callers can decide between
+ * retrying and reporting the failure back to the model
+ */
+
+/**
+ * Why a tool call failed
+ */
+export type ToolFailureKind = "validation" | "timeout" | "upstream" | "permission" | "unknown";
+
+// Error names thrown for bad tool arguments (zod, LangChain input parsing, ToolNode)
+const VALIDATION_ERRORS = new Set(["ZodError", "ToolInputParsingException", "ToolInvocationError"]);
+
+const TIMEOUT_PATTERN = /timed? ?out|timeout|ETIMEDOUT/i;
+const PERMISSION_PATTERN = /permission|forbidden|unauthori[sz]ed|access denied|not allowed|EACCES|EPERM/i;
+const UPSTREAM_PATTERN = /ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|fetch failed|network|socket hang up|rate limit|unavailable|bad gateway/i;
+const VALIDATION_PATTERN = /invalid|validation|did not match expected schema|required/i;
+
+/**
+ * Model-facing advice per failure kind
+ */
+const GUIDANCE: Record<ToolFailureKind, string> = {
+  validation: "The arguments were rejected. Fix them to match the tool schema and call the tool again.",
+  timeout: "The tool took too long. Try a narrower request, or continue without this result.",
+  upstream: "The service behind this tool is unavailable. Continue with the information you already have.",
+  permission: "This tool call is not permitted. Do not retry it; continue without it.",
+  unknown: "The tool failed unexpectedly. Continue without this result or try different arguments.",
+};
+
+/**
+ * Tool Error Classifier - maps thrown errors to a ToolFailureKind
+ */
+export class ToolErrorClassifier {
+  /**
+   * Classify by HTTP status, then error name, then message
+   */
+  static classify(error: unknown): ToolFailureKind {
+    const status = this.getStatus(error);
+    if (status === 401 || status === 403) return "permission";
+    if (status === 408) return "timeout";
+    if (status === 429 || (status !== undefined && status >= 500)) return "upstream";
+    if (status !== undefined && status >= 400) return "validation";
+
+    const name = error instanceof Error ? error.name : "";
+    const message = this.getMessage(error);
+
+    if (VALIDATION_ERRORS.has(name)) return "validation";
+    if (name === "TimeoutError" || TIMEOUT_PATTERN.test(message)) return "timeout";
+    if (PERMISSION_PATTERN.test(message)) return "permission";
+    if (name === "SearchProviderError" || UPSTREAM_PATTERN.test(message)) return "upstream";
+    if (VALIDATION_PATTERN.test(message)) return "validation";
+
+    return "unknown";
+  }
+
+  /**
+   * What the model should do after a failure of this kind
+   */
+  static guidance(kind: ToolFailureKind): string {
+    return GUIDANCE[kind];
+  }
+
+  static getMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * HTTP status carried by the error, its response or its context
+   */
+  private static getStatus(error: unknown): number | undefined {
+    const source = error as {
+      status?: unknown;
+      statusCode?: unknown;
+      response?: { status?: unknown };
+      context?: { status?: unknown };
+    } | undefined;
+    const status = source?.status ?? source?.statusCode ?? source?.response?.status ?? source?.context?.status;
+    return typeof status === "number" ? status : undefined;
+  }
+}
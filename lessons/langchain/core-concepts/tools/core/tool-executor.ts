@@ -4,6 +4,23 @@
  */
 
 import type { ToolConfig } from "./tool-builder.js";
+import { ToolErrorClassifier, type ToolFailureKind } from "./tool-errors.js";
+import { ToolArgumentValidator, type ToolArgumentIssue } from "./tool-arguments.js";
+import { RetryPolicy, type RetryPolicyOptions } from "./retry-policy.js";
+import { Tracer, serializedSize, type Span } from "../../models/core/tracer.js";
+
+/**
+ * One invocation of the tool within an execution
+ */
+export interface ToolAttempt {
+  attempt: number;
+  success: boolean;
+  error?: string;
+  failureKind?: ToolFailureKind;
+  executionTime: number;
+  /** Backoff waited after this attempt before the next one (ms) */
+  delay?: number;
+}
 
 /**
  * Tool execution result
@@ -15,16 +32,47 @@ export interface ToolExecutionResult {
   executionTime: number;
   toolName: string;
   args: any;
+  /** Set on failures */
+  failureKind?: ToolFailureKind;
+  /** Why the arguments were rejected before the tool ran; set with failureKind "validation" */
+  validationIssues?: ToolArgumentIssue[];
+  /** Repairs applied to the arguments before the tool ran */
+  coercions?: string[];
+  /** Every invocation, retries included; executionTime spans all of them */
+  attempts?: ToolAttempt[];
+}
+
+/**
+ * Failure counts per ToolFailureKind
+ */
+export type FailureCounts = Record<ToolFailureKind, number>;
+
+/**
+ * Execution statistics of one tool
+ */
+export interface ToolStatistics {
+  count: number;
+  successRate: number;
+  averageTime: number;
+  failuresByKind: FailureCounts;
 }
 
 /**
  * Tool execution options
  */
 export interface ExecutionOptions {
+  /** Aborts the attempt's signal when exceeded */
   timeout?: number;
+  /** Cancels the execution; no further attempts start once aborted */
+  signal?: AbortSignal;
+  /** Takes precedence over `retries` and `retryDelay` */
+  retryPolicy?: RetryPolicy | RetryPolicyOptions;
+  /** Retries with a fixed delay, for any failure but bad arguments or denied calls */
   retries?: number;
   retryDelay?: number;
   onProgress?: (message: string) => void;
+  /** Called by executeTools as each execution finishes, with its position in the input */
+  onSettled?: (result: ToolExecutionResult, index: number) => void;
   maxParallel?: number;
   stopOnError?: boolean;
 }
@@ -41,7 +89,9 @@ export class ToolExecutor {
   }
 
   /**
-   * Execute a tool with error handling
+   * Execute a tool with error handling.
+   * Arguments are validated (and coerced) against the tool's schema first; arguments that
+   * still do not parse fail with failureKind "validation" without invoking the tool.
    */
   async executeTool(
     tool: any,
@@ -49,64 +99,155 @@ export class ToolExecutor {
     config?: ToolConfig,
     options?: ExecutionOptions
   ): Promise<ToolExecutionResult> {
-    const startTime = Date.now();
     const toolName = tool.name || "unknown_tool";
 
-    try {
-      // Set up timeout if specified
-      let result: any;
+    return Tracer.withSpan("tool.execute", {
+      "gen_ai.tool.name": toolName,
+      "tool.args_size": serializedSize(args),
+    }, async span => {
+      // A ToolCall envelope is validated by its inner args and invoked as a tool call
+      const isToolCall = args?.type === "tool_call";
+      const validation = ToolArgumentValidator.validate(tool.schema, isToolCall ? args.args : args);
 
-      if (options?.timeout) {
-        result = await this.executeWithTimeout(
-          tool.invoke(args, config),
-          options.timeout
-        );
-      } else {
-        result = await tool.invoke(args, config);
+      if (validation.coercions.length > 0) {
+        span.addEvent("args_coerced", { "tool.coercions": validation.coercions.join(", ") });
       }
 
-      const executionTime = Date.now() - startTime;
+      const result = validation.success
+        ? await this.runTool(
+            tool,
+            isToolCall ? { ...args, args: validation.args } : validation.args,
+            config,
+            options,
+            span,
+            validation.coercions
+          )
+        : this.rejectArgs(toolName, args, validation.issues, validation.coercions);
+
+      span.setAttributes({ "tool.success": result.success, "tool.failure_kind": result.failureKind });
+      if (!result.success) {
+        span.setStatus("error", result.error);
+      }
+      return result;
+    });
+  }
 
+  /**
+   * Invoke the tool until it succeeds or the retry policy gives up; the attempts are
+   * recorded on `span` and grouped into a single history entry
+   */
+  private async runTool(
+    tool: any,
+    args: any,
+    config: ToolConfig | undefined,
+    options: ExecutionOptions | undefined,
+    span: Span,
+    coercions: string[] = []
+  ): Promise<ToolExecutionResult> {
+    const toolName = tool.name || "unknown_tool";
+    const policy = this.getRetryPolicy(options);
+    const attempts: ToolAttempt[] = [];
+    const startTime = Date.now();
+    // Either signal cancels the execution, including the backoff between attempts
+    const signal = this.combineSignals(options?.signal, config?.signal);
+
+    const finish = (result: Omit<ToolExecutionResult, "executionTime" | "toolName" | "args" | "attempts">) => {
       const executionResult: ToolExecutionResult = {
-        success: true,
-        result,
-        executionTime,
+        ...result,
+        executionTime: Date.now() - startTime,
         toolName,
-        args
+        args,
+        attempts,
+        ...(coercions.length > 0 && { coercions })
       };
 
       this.addToHistory(executionResult);
       return executionResult;
-    } catch (error) {
-      const executionTime = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : String(error);
+    };
 
-      const executionResult: ToolExecutionResult = {
-        success: false,
-        error: errorMessage,
-        executionTime,
-        toolName,
-        args
-      };
+    for (let attempt = 1; ; attempt++) {
+      span.setAttribute("tool.attempts", attempt);
+      const attemptStart = Date.now();
+
+      try {
+        const result = await this.invokeTool(tool, args, config, options);
+
+        attempts.push({ attempt, success: true, executionTime: Date.now() - attemptStart });
+        return finish({ success: true, result });
+      } catch (error) {
+        const errorMessage = ToolErrorClassifier.getMessage(error);
+        const failureKind = ToolErrorClassifier.classify(error);
+        const failed: ToolAttempt = {
+          attempt,
+          success: false,
+          error: errorMessage,
+          failureKind,
+          executionTime: Date.now() - attemptStart
+        };
+        attempts.push(failed);
+
+        const delay = signal?.aborted
+          ? undefined
+          : policy.nextDelay(attempt, error, failureKind, Date.now() - startTime);
+
+        if (delay === undefined) {
+          return finish({ success: false, error: errorMessage, failureKind });
+        }
 
-      this.addToHistory(executionResult);
+        span.addEvent("retry", {
+          attempt,
+          "tool.failure_kind": failureKind,
+          "error.message": errorMessage,
+          "retry.delay_ms": delay
+        });
 
-      // Retry logic
-      if (options?.retries && options.retries > 0) {
-        if (options.retryDelay) {
-          await this.delay(options.retryDelay);
+        if (delay > 0) {
+          await this.delay(delay, signal);
         }
 
-        return this.executeTool(tool, args, config, {
-          ...options,
-          retries: options.retries - 1
-        });
+        // Cancelled during the backoff: report the last attempt instead of starting another
+        if (signal?.aborted) {
+          return finish({ success: false, error: errorMessage, failureKind });
+        }
+        failed.delay = delay;
       }
-
-      return executionResult;
     }
   }
 
+  /**
+   * `retryPolicy`, else a fixed policy from `retries`/`retryDelay`, else no retries
+   */
+  private getRetryPolicy(options: ExecutionOptions | undefined): RetryPolicy {
+    return (
+      RetryPolicy.from(options?.retryPolicy) ??
+      (options?.retries ? RetryPolicy.fixed(options.retries, options.retryDelay) : RetryPolicy.none)
+    );
+  }
+
+  /**
+   * Record arguments that failed validation; retrying them would fail the same way
+   */
+  private rejectArgs(
+    toolName: string,
+    args: any,
+    issues: ToolArgumentIssue[],
+    coercions: string[]
+  ): ToolExecutionResult {
+    const executionResult: ToolExecutionResult = {
+      success: false,
+      error: `Invalid arguments for ${toolName}: ${ToolArgumentValidator.formatIssues(issues)}`,
+      executionTime: 0,
+      toolName,
+      args,
+      failureKind: "validation",
+      validationIssues: issues,
+      ...(coercions.length > 0 && { coercions })
+    };
+
+    this.addToHistory(executionResult);
+    return executionResult;
+  }
+
   /**
    * Execute multiple tools in parallel
    */
@@ -119,32 +260,37 @@ export class ToolExecutor {
       return this.executeWithConcurrencyLimit(tools, options);
     }
 
-    const promises = tools.map(({ tool, args, config }) =>
-      this.executeTool(tool, args, config, options)
-    );
+    const promises = tools.map(async ({ tool, args, config }, index) => {
+      const result = await this.executeTool(tool, args, config, options);
+      options?.onSettled?.(result, index);
+      return result;
+    });
 
     return Promise.all(promises);
   }
 
   /**
-   * Execute tools with concurrency limit
+   * Execute tools with concurrency limit: a pool of maxParallel workers, each starting
+   * the next tool as soon as its previous one finishes. Results keep the input order.
    */
   private async executeWithConcurrencyLimit(
     tools: Array<{ tool: any; args: any; config?: ToolConfig }>,
     options: ExecutionOptions
   ): Promise<ToolExecutionResult[]> {
     const maxParallel = options.maxParallel || 1;
-    const results: ToolExecutionResult[] = [];
-
-    for (let i = 0; i < tools.length; i += maxParallel) {
-      const batch = tools.slice(i, i + maxParallel);
-      const batchPromises = batch.map(({ tool, args, config }) =>
-        this.executeTool(tool, args, config, options)
-      );
-      const batchResults = await Promise.all(batchPromises);
-      results.push(...batchResults);
-    }
+    const results: ToolExecutionResult[] = new Array(tools.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < tools.length) {
+        const index = next++;
+        const { tool, args, config } = tools[index];
+        results[index] = await this.executeTool(tool, args, config, options);
+        options.onSettled?.(results[index], index);
+      }
+    };
 
+    await Promise.all(Array.from({ length: Math.min(maxParallel, tools.length) }, worker));
     return results;
   }
 
@@ -177,25 +323,67 @@ export class ToolExecutor {
   }
 
   /**
-   * Execute with timeout
+   * Invoke with a signal that aborts on timeout or when the caller's signal does.
+   * The tool receives it as `config.signal`; the call is abandoned as soon as it fires,
+   * and a tool that honors it stops its side effects too.
+   */
+  private async invokeTool(
+    tool: any,
+    args: any,
+    config: ToolConfig | undefined,
+    options: ExecutionOptions | undefined
+  ): Promise<any> {
+    const controller = new AbortController();
+    const signals = [controller.signal, options?.signal, config?.signal].filter(
+      (signal): signal is AbortSignal => signal !== undefined
+    );
+    const signal = AbortSignal.any(signals);
+    const timer = options?.timeout
+      ? setTimeout(
+          () => controller.abort(new Error(`Execution timed out after ${options.timeout}ms`)),
+          options.timeout
+        )
+      : undefined;
+
+    try {
+      signal.throwIfAborted();
+      return await this.raceAbort(tool.invoke(args, { ...config, signal }), signal);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private combineSignals(...signals: Array<AbortSignal | undefined>): AbortSignal | undefined {
+    const defined = signals.filter((signal): signal is AbortSignal => signal !== undefined);
+    return defined.length > 1 ? AbortSignal.any(defined) : defined[0];
+  }
+
+  /**
+   * Reject with the signal's reason as soon as it aborts
    */
-  private async executeWithTimeout<T>(
-    promise: Promise<T>,
-    timeout: number
-  ): Promise<T> {
-    return Promise.race([
-      promise,
-      new Promise<T>((_, reject) =>
-        setTimeout(() => reject(new Error(`Execution timed out after ${timeout}ms`)), timeout)
-      )
-    ]);
+  private raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener("abort", onAbort, { once: true });
+
+      promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+    });
   }
 
   /**
-   * Delay helper for retries
+   * Delay helper for retries; ends early when `signal` aborts
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener("abort", done, { once: true });
+
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      }
+    });
   }
 
   /**
@@ -210,6 +398,13 @@ export class ToolExecutor {
     }
   }
 
+  /**
+   * Record an execution made outside executeTool, e.g. by agent middleware
+   */
+  record(result: ToolExecutionResult): void {
+    this.addToHistory(result);
+  }
+
   /**
    * Get execution history
    */
@@ -231,8 +426,10 @@ export class ToolExecutor {
     totalExecutions: number;
     successCount: number;
     failureCount: number;
+    /** Failures per kind, e.g. rejected arguments ("validation") vs. tool crashes ("unknown") */
+    failuresByKind: FailureCounts;
     averageExecutionTime: number;
-    byTool: Record<string, { count: number; successRate: number; averageTime: number }>;
+    byTool: Record<string, ToolStatistics>;
   } {
     const total = this.executionHistory.length;
     const successful = this.executionHistory.filter(r => r.success).length;
@@ -242,11 +439,11 @@ export class ToolExecutor {
       ? this.executionHistory.reduce((sum, r) => sum + r.executionTime, 0) / total
       : 0;
 
-    const byTool: Record<string, { count: number; successRate: number; averageTime: number }> = {};
+    const byTool: Record<string, ToolStatistics> = {};
 
     this.executionHistory.forEach(result => {
       if (!byTool[result.toolName]) {
-        byTool[result.toolName] = { count: 0, successRate: 0, averageTime: 0 };
+        byTool[result.toolName] = { count: 0, successRate: 0, averageTime: 0, failuresByKind: this.countFailures([]) };
       }
 
       byTool[result.toolName].count++;
@@ -258,17 +455,31 @@ export class ToolExecutor {
       const successes = toolResults.filter(r => r.success).length;
       byTool[toolName].successRate = successes / toolResults.length;
       byTool[toolName].averageTime = toolResults.reduce((sum, r) => sum + r.executionTime, 0) / toolResults.length;
+      byTool[toolName].failuresByKind = this.countFailures(toolResults);
     });
 
     return {
       totalExecutions: total,
       successCount: successful,
       failureCount: failed,
+      failuresByKind: this.countFailures(this.executionHistory),
       averageExecutionTime: avgTime,
       byTool
     };
   }
 
+  private countFailures(results: ToolExecutionResult[]): FailureCounts {
+    const counts: FailureCounts = { validation: 0, timeout: 0, upstream: 0, permission: 0, unknown: 0 };
+
+    results.forEach(result => {
+      if (!result.success) {
+        counts[result.failureKind ?? "unknown"]++;
+      }
+    });
+
+    return counts;
+  }
+
   /**
    * Clear execution history
    */
@@ -283,7 +494,9 @@ export class ToolExecutor {
     const status = result.success ? "✅ SUCCESS" : "❌ FAILED";
     const time = `${result.executionTime}ms`;
 
-    let output = `${status} [${result.toolName}] (${time})\n`;
+    const retried = result.attempts && result.attempts.length > 1 ? `, ${result.attempts.length} attempts` : "";
+
+    let output = `${status} [${result.toolName}] (${time}${retried})\n`;
     output += `Args: ${JSON.stringify(result.args)}\n`;
 
     if (result.success) {
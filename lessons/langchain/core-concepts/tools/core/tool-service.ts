@@ -4,7 +4,10 @@
  */
 
 import type { AIMessage } from "@langchain/core/messages";
-import { ToolExecutor, type ToolExecutionResult } from "./tool-executor.js";
+import { ToolExecutor, type ToolExecutionResult, type ToolStatistics } from "./tool-executor.js";
+import { ToolArgumentValidator } from "./tool-arguments.js";
+import { RetryPolicy, type RetryPolicyOptions } from "./retry-policy.js";
+import { CircuitBreaker, type CircuitBreakerOptions, type CircuitBreakerStatus } from "./circuit-breaker.js";
 import type { ToolConfig } from "./tool-builder.js";
 
 /**
@@ -16,6 +19,55 @@ export interface ToolCall {
   args: Record<string, any>;
 }
 
+/**
+ * Decisions a reviewer can make on a sensitive tool call
+ */
+export type ApprovalDecisionType = "approve" | "edit" | "reject";
+
+/**
+ * How calls to a sensitive tool are reviewed
+ */
+export interface ToolApprovalPolicy {
+  /** Defaults to approve, edit and reject */
+  allowedDecisions?: ApprovalDecisionType[];
+  /** Shown to the reviewer with the tool call */
+  description?: string;
+}
+
+/**
+ * Metadata accepted by registerTool
+ */
+export interface ToolMetadata {
+  category?: string;
+  tags?: string[];
+  /** Calls need a human decision before the tool runs; pass a policy to restrict the decisions */
+  sensitive?: boolean | ToolApprovalPolicy;
+  /** How failed calls are retried by executeToolCall; not retried when omitted */
+  retry?: RetryPolicy | RetryPolicyOptions;
+  /** Overrides the service's breaker options for this tool; false disables its breaker */
+  circuitBreaker?: CircuitBreakerOptions | false;
+}
+
+/**
+ * Options for a ToolService
+ */
+export interface ToolServiceOptions {
+  /** Breaker options for every registered tool; false registers tools without breakers */
+  circuitBreaker?: CircuitBreakerOptions | false;
+}
+
+/**
+ * Health of a registered tool
+ */
+export interface ToolHealth {
+  name: string;
+  /** Offered by getToolsForBinding */
+  available: boolean;
+  breaker?: CircuitBreakerStatus;
+  /** From the execution history; missing until the tool has been called */
+  stats?: ToolStatistics;
+}
+
 /**
  * Tool registry entry
  */
@@ -26,36 +78,49 @@ export interface RegisteredTool {
   schema: any;
   category?: string;
   tags?: string[];
+  sensitive?: boolean;
+  approval?: ToolApprovalPolicy & { allowedDecisions: ApprovalDecisionType[] };
+  retryPolicy?: RetryPolicy;
+  breaker?: CircuitBreaker;
 }
 
+const ALL_APPROVAL_DECISIONS: ApprovalDecisionType[] = ["approve", "edit", "reject"];
+
 /**
  * Tool Service - Manage tools and their execution
  */
 export class ToolService {
   private tools: Map<string, RegisteredTool> = new Map();
   private executor: ToolExecutor;
+  private readonly circuitBreaker: CircuitBreakerOptions | false;
 
-  constructor() {
+  constructor(options: ToolServiceOptions = {}) {
     this.executor = new ToolExecutor();
+    this.circuitBreaker = options.circuitBreaker ?? {};
   }
 
   /**
    * Register a tool
    */
-  registerTool(
-    tool: any,
-    metadata?: {
-      category?: string;
-      tags?: string[];
-    }
-  ): void {
+  registerTool(tool: any, metadata?: ToolMetadata): void {
+    const sensitive = metadata?.sensitive;
+    const breakerOptions = metadata?.circuitBreaker ?? this.circuitBreaker;
     const registered: RegisteredTool = {
       tool,
       name: tool.name,
       description: tool.description || "",
       schema: tool.schema,
       category: metadata?.category,
-      tags: metadata?.tags
+      tags: metadata?.tags,
+      sensitive: Boolean(sensitive),
+      approval: sensitive
+        ? {
+            ...(typeof sensitive === "object" ? sensitive : {}),
+            allowedDecisions: (typeof sensitive === "object" && sensitive.allowedDecisions) || ALL_APPROVAL_DECISIONS
+          }
+        : undefined,
+      retryPolicy: RetryPolicy.from(metadata?.retry),
+      breaker: breakerOptions === false ? undefined : new CircuitBreaker(breakerOptions)
     };
 
     this.tools.set(tool.name, registered);
@@ -96,6 +161,29 @@ export class ToolService {
     return this.getAllTools().filter(t => t.tags?.includes(tag));
   }
 
+  /**
+   * Get tools whose calls need human approval
+   */
+  getSensitiveTools(): RegisteredTool[] {
+    return this.getAllTools().filter(t => t.sensitive);
+  }
+
+  /**
+   * Check if calls to a tool need human approval
+   */
+  requiresApproval(name: string): boolean {
+    return this.getTool(name)?.sensitive ?? false;
+  }
+
+  /**
+   * Approval policy per sensitive tool name
+   */
+  getApprovalPolicies(): Record<string, NonNullable<RegisteredTool["approval"]>> {
+    return Object.fromEntries(
+      this.getSensitiveTools().map(t => [t.name, { ...t.approval! }])
+    );
+  }
+
   /**
    * Search tools by name or description
    */
@@ -142,7 +230,30 @@ export class ToolService {
       };
     }
 
-    return this.executor.executeTool(registered.tool, toolCall.args, config);
+    // Refused without invoking the tool, and not recorded: the call never happened
+    if (!this.allowCall(toolCall.name)) {
+      return {
+        success: false,
+        error: `Tool ${toolCall.name} is unavailable: its circuit breaker is open after repeated failures`,
+        executionTime: 0,
+        toolName: toolCall.name,
+        args: toolCall.args,
+        failureKind: "upstream"
+      };
+    }
+
+    const result = await this.executor.executeTool(registered.tool, toolCall.args, config, {
+      retryPolicy: registered.retryPolicy
+    });
+
+    // A call the caller cancelled says nothing about the tool's health
+    if (config?.signal?.aborted) {
+      registered.breaker?.release();
+    } else {
+      registered.breaker?.record(result);
+    }
+
+    return result;
   }
 
   /**
@@ -194,18 +305,17 @@ export class ToolService {
       };
     }
 
-    try {
-      registered.schema.parse(args);
+    // Same rules, coercions included, as ToolExecutor applies before invoking the tool
+    const validation = ToolArgumentValidator.validate(registered.schema, args);
+
+    if (validation.success) {
       return { valid: true };
-    } catch (error: any) {
-      const errors = error.errors?.map((e: any) => e.message) || [
-        error instanceof Error ? error.message : String(error)
-      ];
-      return {
-        valid: false,
-        errors
-      };
     }
+
+    return {
+      valid: false,
+      errors: validation.issues.map(issue => ToolArgumentValidator.formatIssues([issue]))
+    };
   }
 
   /**
@@ -220,7 +330,57 @@ export class ToolService {
    * Get tools in format suitable for model binding
    */
   getToolsForBinding(): any[] {
-    return this.getAllTools().map(t => t.tool);
+    return this.getAllTools().filter(t => this.isAvailable(t.name)).map(t => t.tool);
+  }
+
+  /**
+   * False while the tool's circuit breaker is open; unknown tools are not guarded here
+   */
+  isAvailable(name: string): boolean {
+    return this.getTool(name)?.breaker?.state !== "open";
+  }
+
+  /**
+   * Whether a call to the tool may run now. In the half-open state this claims
+   * the probe slot, so report the call's outcome with recordResult.
+   */
+  allowCall(name: string): boolean {
+    return this.getTool(name)?.breaker?.tryAcquire() ?? true;
+  }
+
+  /**
+   * End a call allowed by allowCall without an outcome, e.g. because the run was cancelled
+   */
+  releaseCall(name: string): void {
+    this.getTool(name)?.breaker?.release();
+  }
+
+  /**
+   * Record a call made outside executeToolCall, e.g. by agent middleware:
+   * adds it to the history and feeds the tool's circuit breaker
+   */
+  recordResult(result: ToolExecutionResult): void {
+    const registered = this.getTool(result.toolName);
+    if (!registered) {
+      return;
+    }
+
+    this.executor.record(result);
+    registered.breaker?.record(result);
+  }
+
+  /**
+   * Breaker state and execution statistics per registered tool
+   */
+  getHealth(): ToolHealth[] {
+    const { byTool } = this.executor.getStatistics();
+
+    return this.getAllTools().map(t => ({
+      name: t.name,
+      available: this.isAvailable(t.name),
+      ...(t.breaker && { breaker: t.breaker.getStatus() }),
+      ...(byTool[t.name] && { stats: byTool[t.name] })
+    }));
   }
 
   /**
@@ -281,13 +441,15 @@ export class ToolService {
     schema: any;
     category?: string;
     tags?: string[];
+    sensitive?: boolean;
   }> {
     return this.getAllTools().map(t => ({
       name: t.name,
       description: t.description,
       schema: t.schema,
       category: t.category,
-      tags: t.tags
+      tags: t.tags,
+      sensitive: t.sensitive
     }));
   }
 
@@ -296,6 +458,7 @@ export class ToolService {
    */
   createCatalog(): string {
     const tools = this.getAllTools();
+    const health = new Map(Object.entries(this.executor.getStatistics().byTool));
 
     let catalog = "# Tool Catalog\n\n";
 
@@ -322,12 +485,38 @@ export class ToolService {
           catalog += `**Tags:** ${tool.tags.join(", ")}\n\n`;
         }
 
+        if (tool.approval) {
+          catalog += `**Requires approval:** ${tool.approval.allowedDecisions.join(", ")}\n\n`;
+        }
+
+        if (tool.breaker) {
+          catalog += `**Status:** ${this.describeBreaker(tool.breaker.getStatus())}\n\n`;
+        }
+
+        const stats = health.get(tool.name);
+        if (stats) {
+          catalog += `**Health:** ${(stats.successRate * 100).toFixed(0)}% success over ${stats.count} calls, ${stats.averageTime.toFixed(0)}ms average\n\n`;
+        }
+
         catalog += `**Schema:**\n\`\`\`json\n${JSON.stringify(tool.schema, null, 2)}\n\`\`\`\n\n`;
       });
     });
 
     return catalog;
   }
+
+  private describeBreaker(status: CircuitBreakerStatus): string {
+    const recent = `${status.failures}/${status.calls} recent calls failed`;
+
+    switch (status.state) {
+      case "closed":
+        return `available (${recent})`;
+      case "open":
+        return `unavailable until ${status.retryAt} (${recent})`;
+      case "half_open":
+        return "recovering, probe calls allowed";
+    }
+  }
 }
 
 /**
@@ -338,10 +527,7 @@ export const defaultToolService = new ToolService();
 /**
  * Register a tool with the default service
  */
-export function registerTool(
-  tool: any,
-  metadata?: { category?: string; tags?: string[] }
-): void {
+export function registerTool(tool: any, metadata?: ToolMetadata): void {
   defaultToolService.registerTool(tool, metadata);
 }
 
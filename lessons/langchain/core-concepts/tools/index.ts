@@ -6,6 +6,9 @@
 // Core exports
 export * from "./core/tool-builder.js";
 export * from "./core/tool-executor.js";
+export * from "./core/tool-arguments.js";
+export * from "./core/retry-policy.js";
+export * from "./core/circuit-breaker.js";
 export * from "./core/tool-service.js";
 
 // Configuration exports
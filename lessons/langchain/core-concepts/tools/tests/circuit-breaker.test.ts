@@ -0,0 +1,143 @@
+/**
+ * Tests for CircuitBreaker
+ */
+
+import { describe, test, expect, beforeEach } from "bun:test";
+import { CircuitBreaker, type CircuitBreakerOptions } from "../core/circuit-breaker.js";
+
+const success = { success: true };
+const failure = { success: false, failureKind: "upstream" as const };
+
+describe("CircuitBreaker", () => {
+  let time: number;
+
+  beforeEach(() => {
+    time = 0;
+  });
+
+  function createBreaker(options: CircuitBreakerOptions = {}) {
+    return new CircuitBreaker({
+      windowSize: 4,
+      minimumCalls: 4,
+      failureThreshold: 0.5,
+      openDuration: 1000,
+      now: () => time,
+      ...options
+    });
+  }
+
+  function recordAll(breaker: CircuitBreaker, outcomes: Array<typeof success | typeof failure>) {
+    outcomes.forEach(outcome => breaker.record(outcome));
+  }
+
+  describe("closed", () => {
+    test("should open once the failure ratio reaches the threshold", () => {
+      const breaker = createBreaker();
+
+      recordAll(breaker, [failure, success, failure]);
+      expect(breaker.state).toBe("closed");
+
+      breaker.record(success);
+
+      expect(breaker.state).toBe("open");
+      expect(breaker.tryAcquire()).toBe(false);
+      expect(breaker.getStatus()).toMatchObject({ calls: 4, failures: 2, failureRate: 0.5 });
+    });
+
+    test("should only count the most recent calls", () => {
+      const breaker = createBreaker({ failureThreshold: 0.75 });
+
+      recordAll(breaker, [failure, failure, success, success, success, failure]);
+
+      expect(breaker.state).toBe("closed");
+      expect(breaker.getStatus()).toMatchObject({ calls: 4, failures: 1 });
+    });
+
+    test("should ignore bad arguments and denied calls", () => {
+      const breaker = createBreaker({ minimumCalls: 1 });
+
+      breaker.record({ success: false, failureKind: "validation" });
+      breaker.record({ success: false, failureKind: "permission" });
+
+      expect(breaker.state).toBe("closed");
+      expect(breaker.getStatus().calls).toBe(0);
+    });
+  });
+
+  describe("half-open", () => {
+    function openBreaker(options: CircuitBreakerOptions = {}) {
+      const breaker = createBreaker({ minimumCalls: 1, ...options });
+      breaker.record(failure);
+      time = 1000;
+      return breaker;
+    }
+
+    test("should let one probe through after openDuration", () => {
+      const breaker = openBreaker();
+
+      expect(breaker.state).toBe("half_open");
+      expect(breaker.tryAcquire()).toBe(true);
+      expect(breaker.tryAcquire()).toBe(false);
+    });
+
+    test("should close after a successful probe", () => {
+      const breaker = openBreaker();
+
+      breaker.tryAcquire();
+      breaker.record(success);
+
+      expect(breaker.state).toBe("closed");
+      expect(breaker.getStatus()).toMatchObject({ calls: 0, failures: 0 });
+    });
+
+    test("should reopen after a failed probe", () => {
+      const breaker = openBreaker();
+
+      breaker.tryAcquire();
+      breaker.record(failure);
+
+      expect(breaker.state).toBe("open");
+      expect(breaker.getStatus().retryAt).toBe(new Date(2000).toISOString());
+    });
+
+    test("should need halfOpenProbes successful probes to close", () => {
+      const breaker = openBreaker({ halfOpenProbes: 2 });
+
+      breaker.tryAcquire();
+      breaker.record(success);
+      expect(breaker.state).toBe("half_open");
+
+      expect(breaker.tryAcquire()).toBe(true);
+      breaker.record(success);
+      expect(breaker.state).toBe("closed");
+    });
+
+    test("should free the slot of a released probe", () => {
+      const breaker = openBreaker();
+
+      breaker.tryAcquire();
+      breaker.release();
+
+      expect(breaker.state).toBe("half_open");
+      expect(breaker.tryAcquire()).toBe(true);
+    });
+
+    test("should free the slot of a probe that never reports back", () => {
+      const breaker = openBreaker();
+
+      breaker.tryAcquire();
+      time = 2000;
+
+      expect(breaker.tryAcquire()).toBe(true);
+    });
+  });
+
+  test("should close and forget the window on reset", () => {
+    const breaker = createBreaker({ minimumCalls: 1 });
+    breaker.record(failure);
+
+    breaker.reset();
+
+    expect(breaker.getStatus()).toEqual({ state: "closed", calls: 0, failures: 0, failureRate: 0 });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for RetryPolicy
+ */
+
+import { describe, test, expect } from "bun:test";
+import { RetryPolicy } from "../core/retry-policy.js";
+
+const error = new Error("Service unavailable");
+
+describe("RetryPolicy", () => {
+  describe("getDelay", () => {
+    test("should back off exponentially up to maxDelay", () => {
+      const policy = new RetryPolicy({ initialDelay: 100, multiplier: 3, maxDelay: 1000, jitter: 0 });
+
+      expect([1, 2, 3, 4].map(retry => policy.getDelay(retry))).toEqual([100, 300, 900, 1000]);
+    });
+
+    test("should spread delays by the jitter fraction", () => {
+      const low = new RetryPolicy({ initialDelay: 100, jitter: 0.5, random: () => 0 });
+      const high = new RetryPolicy({ initialDelay: 100, jitter: 0.5, random: () => 1 });
+
+      expect(low.getDelay(1)).toBe(50);
+      expect(high.getDelay(1)).toBe(150);
+    });
+  });
+
+  describe("nextDelay", () => {
+    test("should retry timeouts and upstream errors by default", () => {
+      const policy = new RetryPolicy({ jitter: 0 });
+
+      expect(policy.nextDelay(1, error, "upstream", 0)).toBe(200);
+      expect(policy.nextDelay(1, error, "timeout", 0)).toBe(200);
+      expect(policy.nextDelay(1, error, "unknown", 0)).toBeUndefined();
+      expect(policy.nextDelay(1, error, "validation", 0)).toBeUndefined();
+      expect(policy.nextDelay(1, error, "permission", 0)).toBeUndefined();
+    });
+
+    test("should stop after maxAttempts", () => {
+      const policy = new RetryPolicy({ maxAttempts: 2, jitter: 0 });
+
+      expect(policy.nextDelay(1, error, "upstream", 0)).toBeDefined();
+      expect(policy.nextDelay(2, error, "upstream", 0)).toBeUndefined();
+    });
+
+    test("should stop when the retry would start after maxElapsedTime", () => {
+      const policy = new RetryPolicy({ initialDelay: 100, jitter: 0, maxElapsedTime: 1000 });
+
+      expect(policy.nextDelay(1, error, "upstream", 900)).toBe(100);
+      expect(policy.nextDelay(1, error, "upstream", 901)).toBeUndefined();
+    });
+
+    test("should use a custom predicate instead of retryOn", () => {
+      const policy = new RetryPolicy({
+        retryOn: ["upstream"],
+        isRetryable: err => (err as Error).message.includes("try again")
+      });
+
+      expect(policy.isRetryable(new Error("please try again"), "unknown")).toBe(true);
+      expect(policy.isRetryable(error, "upstream")).toBe(false);
+    });
+  });
+
+  describe("fixed", () => {
+    test("should wait the same delay for any transient failure", () => {
+      const policy = RetryPolicy.fixed(2, 50);
+
+      expect(policy.maxAttempts).toBe(3);
+      expect(policy.nextDelay(1, error, "unknown", 0)).toBe(50);
+      expect(policy.nextDelay(2, error, "unknown", 10_000)).toBe(50);
+      expect(policy.nextDelay(3, error, "unknown", 0)).toBeUndefined();
+      expect(policy.nextDelay(1, error, "permission", 0)).toBeUndefined();
+    });
+  });
+
+  test("should build a policy from options", () => {
+    const policy = new RetryPolicy();
+
+    expect(RetryPolicy.from(policy)).toBe(policy);
+    expect(RetryPolicy.from({ maxAttempts: 5 })?.maxAttempts).toBe(5);
+    expect(RetryPolicy.from(undefined)).toBeUndefined();
+    expect(RetryPolicy.none.maxAttempts).toBe(1);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for ToolArgumentValidator
+ */
+
+import { describe, test, expect } from "bun:test";
+import { z } from "zod";
+import z3 from "zod/v3";
+import { ToolArgumentValidator } from "../core/tool-arguments.js";
+
+const searchSchema = z.object({
+  query: z.string(),
+  maxResults: z.number().int().optional(),
+  tags: z.array(z.string()).default([]),
+  deep: z.boolean().optional()
+});
+
+describe("ToolArgumentValidator", () => {
+  test("should pass valid arguments through with defaults applied", () => {
+    const result = ToolArgumentValidator.validate(searchSchema, { query: "rag" });
+
+    expect(result).toEqual({ success: true, args: { query: "rag", tags: [] }, coercions: [] });
+  });
+
+  test("should coerce numeric and boolean strings", () => {
+    const result = ToolArgumentValidator.validate(searchSchema, { query: "rag", maxResults: "5", deep: "true" });
+
+    expect(result.success).toBe(true);
+    expect(result.success && result.args).toEqual({ query: "rag", maxResults: 5, deep: true, tags: [] });
+    expect(result.coercions).toEqual(['maxResults: "5" -> 5', 'deep: "true" -> true']);
+  });
+
+  test("should wrap a single value in an array and unwrap a one-item array", () => {
+    const result = ToolArgumentValidator.validate(searchSchema, { query: ["rag"], tags: "ai" });
+
+    expect(result.success && result.args).toEqual({ query: "rag", tags: ["ai"] });
+  });
+
+  test("should rename snake_case and camelCase keys to the schema's", () => {
+    const snakeSchema = z.object({ user_id: z.string() });
+
+    expect(ToolArgumentValidator.validate(searchSchema, { query: "rag", max_results: 3 })).toMatchObject({
+      success: true,
+      args: { maxResults: 3 },
+      coercions: ["max_results -> maxResults"]
+    });
+    expect(ToolArgumentValidator.validate(snakeSchema, { userId: "u1" })).toMatchObject({
+      success: true,
+      args: { user_id: "u1" }
+    });
+  });
+
+  test("should coerce values nested in arrays and objects", () => {
+    const schema = z.object({ points: z.array(z.object({ x: z.number() })) });
+
+    const result = ToolArgumentValidator.validate(schema, { points: { x: "1.5" } });
+
+    expect(result.success && result.args).toEqual({ points: [{ x: 1.5 }] });
+  });
+
+  test("should return structured issues for arguments it cannot repair", () => {
+    const result = ToolArgumentValidator.validate(searchSchema, { maxResults: "five" });
+
+    expect(result.success).toBe(false);
+    const paths = result.success ? [] : result.issues.map(issue => issue.path);
+    expect(paths).toEqual(["query", "maxResults"]);
+  });
+
+  test("should support Zod v3 schemas", () => {
+    const schema = z3.object({ limit: z3.number() });
+
+    expect(ToolArgumentValidator.validate(schema, { limit: "10" })).toMatchObject({ success: true, args: { limit: 10 } });
+  });
+
+  test("should pass arguments through when the tool has no Zod schema", () => {
+    const args = { anything: "goes" };
+
+    expect(ToolArgumentValidator.validate({ type: "object" }, args)).toEqual({ success: true, args, coercions: [] });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for ToolErrorClassifier
+ */
+
+import { describe, test, expect } from "bun:test";
+import { z } from "zod";
+import { ToolErrorClassifier } from "../core/tool-errors.js";
+
+function errorWith(message: string, fields: Record<string, unknown> = {}, name?: string): Error {
+  const error = Object.assign(new Error(message), fields);
+  if (name) error.name = name;
+  return error;
+}
+
+describe("ToolErrorClassifier", () => {
+  describe("classify", () => {
+    test("should classify schema failures as validation", () => {
+      const result = z.object({ query: z.string() }).safeParse({});
+
+      expect(ToolErrorClassifier.classify(result.error)).toBe("validation");
+      expect(ToolErrorClassifier.classify(errorWith("Received tool input did not match expected schema"))).toBe("validation");
+    });
+
+    test("should classify timeouts", () => {
+      expect(ToolErrorClassifier.classify(errorWith("Execution timed out after 50ms"))).toBe("timeout");
+      expect(ToolErrorClassifier.classify(errorWith("The operation was aborted", {}, "TimeoutError"))).toBe("timeout");
+    });
+
+    test("should classify by HTTP status first", () => {
+      expect(ToolErrorClassifier.classify(errorWith("Search failed", { context: { status: 403 } }))).toBe("permission");
+      expect(ToolErrorClassifier.classify(errorWith("Search failed", { status: 503 }))).toBe("upstream");
+      expect(ToolErrorClassifier.classify(errorWith("Slow down", { response: { status: 429 } }))).toBe("upstream");
+      expect(ToolErrorClassifier.classify(errorWith("Bad query", { statusCode: 400 }))).toBe("validation");
+    });
+
+    test("should classify permission and upstream messages", () => {
+      expect(ToolErrorClassifier.classify(errorWith("EACCES: permission denied, open '/etc/shadow'"))).toBe("permission");
+      expect(ToolErrorClassifier.classify(errorWith("connect ECONNREFUSED 127.0.0.1:80"))).toBe("upstream");
+      expect(ToolErrorClassifier.classify(errorWith("Search request failed", {}, "SearchProviderError"))).toBe("upstream");
+    });
+
+    test("should fall back to unknown", () => {
+      expect(ToolErrorClassifier.classify(errorWith("Cannot read properties of undefined"))).toBe("unknown");
+      expect(ToolErrorClassifier.classify("something broke")).toBe("unknown");
+    });
+  });
+
+  test("should give guidance for every kind", () => {
+    for (const kind of ["validation", "timeout", "upstream", "permission", "unknown"] as const) {
+      expect(ToolErrorClassifier.guidance(kind).length).toBeGreaterThan(0);
+    }
+  });
+});
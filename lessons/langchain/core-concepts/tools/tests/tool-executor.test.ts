@@ -6,6 +6,7 @@ import { describe, test, expect, beforeEach } from "bun:test";
 import { z } from "zod";
 import { ToolExecutor } from "../core/tool-executor.js";
 import { ToolBuilder } from "../core/tool-builder.js";
+import { Tracer, InMemorySpanExporter } from "../../models/core/tracer.js";
 
 describe("ToolExecutor", () => {
   let executor: ToolExecutor;
@@ -85,6 +86,107 @@ describe("ToolExecutor", () => {
 
       expect(result.success).toBe(false);
       expect(result.error).toContain("timed out");
+      expect(result.failureKind).toBe("timeout");
+    });
+
+    describe("cancellation", () => {
+      const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+      // Writes one entry every 10ms until its signal aborts
+      function createWriterTool(writes: number[]) {
+        return ToolBuilder.createTool({
+          name: "writer",
+          description: "Test",
+          schema: z.object({}),
+          func: async (_args, config) => {
+            for (let i = 0; i < 20; i++) {
+              if (config?.signal?.aborted) return "stopped";
+              writes.push(i);
+              await sleep(10);
+            }
+            return "done";
+          }
+        });
+      }
+
+      test("should abort the tool when it times out", async () => {
+        const writes: number[] = [];
+
+        const result = await executor.executeTool(createWriterTool(writes), {}, undefined, { timeout: 35 });
+        const writtenAtTimeout = writes.length;
+        await sleep(60);
+
+        expect(result.failureKind).toBe("timeout");
+        expect(writtenAtTimeout).toBeGreaterThan(0);
+        expect(writes.length).toBe(writtenAtTimeout);
+      });
+
+      test("should stop the tool when the caller aborts", async () => {
+        const writes: number[] = [];
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(new Error("Client disconnected")), 35);
+
+        const result = await executor.executeTool(createWriterTool(writes), {}, undefined, {
+          signal: controller.signal
+        });
+        const writtenAtAbort = writes.length;
+        await sleep(60);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe("Client disconnected");
+        expect(writes.length).toBe(writtenAtAbort);
+      });
+
+      test("should not invoke or retry the tool once aborted", async () => {
+        let calls = 0;
+        const tool = ToolBuilder.createTool({
+          name: "flaky",
+          description: "Test",
+          schema: z.object({}),
+          func: async () => {
+            calls++;
+            throw new Error("Service unavailable");
+          }
+        });
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 20);
+
+        const retried = await executor.executeTool(tool, {}, undefined, {
+          signal: controller.signal,
+          retryPolicy: { maxAttempts: 5, initialDelay: 1000 }
+        });
+        const skipped = await executor.executeTool(tool, {}, { signal: controller.signal });
+
+        expect(calls).toBe(1);
+        expect(retried.attempts).toHaveLength(1);
+        expect(retried.error).toBe("Service unavailable");
+        expect(skipped.success).toBe(false);
+      });
+
+      test("should stop waiting for a retry when the tool config's signal aborts", async () => {
+        let calls = 0;
+        const tool = ToolBuilder.createTool({
+          name: "flaky",
+          description: "Test",
+          schema: z.object({}),
+          func: async () => {
+            calls++;
+            throw new Error("Service unavailable");
+          }
+        });
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 20);
+
+        const startTime = Date.now();
+        const result = await executor.executeTool(tool, {}, { signal: controller.signal }, {
+          retryPolicy: { maxAttempts: 5, initialDelay: 1000 }
+        });
+
+        expect(Date.now() - startTime).toBeLessThan(500);
+        expect(calls).toBe(1);
+        expect(result.attempts).toEqual([expect.objectContaining({ attempt: 1, success: false })]);
+        expect(result.attempts![0].delay).toBeUndefined();
+      });
     });
 
     test("should pass config to tool", async () => {
@@ -159,6 +261,146 @@ describe("ToolExecutor", () => {
       expect(result.success).toBe(false);
       expect(attempts).toBe(3); // Initial + 2 retries
     });
+
+    test("should group attempts under one history entry", async () => {
+      let calls = 0;
+
+      const tool = ToolBuilder.createTool({
+        name: "flaky",
+        description: "Test",
+        schema: z.object({}),
+        func: async () => {
+          calls++;
+          if (calls < 3) {
+            throw new Error("Service unavailable");
+          }
+          return "ok";
+        }
+      });
+
+      const result = await executor.executeTool(tool, {}, undefined, {
+        retryPolicy: { maxAttempts: 4, initialDelay: 5, multiplier: 2, jitter: 0 }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.attempts?.map(a => [a.success, a.failureKind, a.delay])).toEqual([
+        [false, "upstream", 5],
+        [false, "upstream", 10],
+        [true, undefined, undefined]
+      ]);
+      expect(executor.getHistory()).toHaveLength(1);
+      expect(executor.getStatistics().totalExecutions).toBe(1);
+    });
+
+    test("should not retry failures the policy does not cover", async () => {
+      let calls = 0;
+
+      const tool = ToolBuilder.createTool({
+        name: "guarded",
+        description: "Test",
+        schema: z.object({}),
+        func: async () => {
+          calls++;
+          throw new Error("Permission denied");
+        }
+      });
+
+      const result = await executor.executeTool(tool, {}, undefined, {
+        retryPolicy: { maxAttempts: 3, initialDelay: 1 }
+      });
+
+      expect(calls).toBe(1);
+      expect(result.failureKind).toBe("permission");
+      expect(result.attempts).toHaveLength(1);
+    });
+
+    test("should trace a call and its retries as one span", async () => {
+      const exporter = new InMemorySpanExporter();
+      Tracer.configure({ exporters: [exporter] });
+
+      const tool = ToolBuilder.createTool({
+        name: "flaky_search",
+        description: "Test",
+        schema: z.object({ query: z.string() }),
+        func: async () => {
+          throw new Error("Service unavailable");
+        }
+      });
+
+      try {
+        await executor.executeTool(tool, { query: "bun" }, undefined, { retries: 1 });
+      } finally {
+        Tracer.reset();
+      }
+
+      const [span] = exporter.getFinishedSpans();
+      expect(exporter.getFinishedSpans()).toHaveLength(1);
+      expect(span.name).toBe("tool.execute");
+      expect(span.attributes["gen_ai.tool.name"]).toBe("flaky_search");
+      expect(span.attributes["tool.args_size"]).toBe(JSON.stringify({ query: "bun" }).length);
+      expect(span.attributes["tool.attempts"]).toBe(2);
+      expect(span.attributes["tool.failure_kind"]).toBe("upstream");
+      expect(span.events.map(event => event.name)).toEqual(["retry"]);
+      expect(span.status.code).toBe("error");
+    });
+
+    test("should reject invalid arguments without invoking the tool", async () => {
+      let invoked = 0;
+
+      const tool = ToolBuilder.createTool({
+        name: "lookup",
+        description: "Test",
+        schema: z.object({ id: z.number() }),
+        func: async () => {
+          invoked++;
+          return "found";
+        }
+      });
+
+      const result = await executor.executeTool(tool, { id: "abc" }, undefined, { retries: 2 });
+
+      expect(invoked).toBe(0);
+      expect(result.success).toBe(false);
+      expect(result.failureKind).toBe("validation");
+      expect(result.validationIssues?.[0].path).toBe("id");
+      expect(result.error).toContain("Invalid arguments for lookup: id:");
+    });
+
+    test("should invoke the tool with coerced arguments", async () => {
+      const tool = ToolBuilder.createTool({
+        name: "paginate",
+        description: "Test",
+        schema: z.object({ page: z.number(), ids: z.array(z.string()) }),
+        func: async ({ page, ids }) => `${page}:${ids.join(",")}`
+      });
+
+      const result = await executor.executeTool(tool, { page: "2", ids: "a" });
+
+      expect(result.success).toBe(true);
+      expect(result.result).toBe("2:a");
+      expect(result.args).toEqual({ page: 2, ids: ["a"] });
+      expect(result.coercions).toEqual(['page: "2" -> 2', 'ids: "a" -> ["a"]']);
+    });
+
+    test("should validate the args of a tool call", async () => {
+      const tool = ToolBuilder.createTool({
+        name: "paginate",
+        description: "Test",
+        schema: z.object({ page: z.number() }),
+        func: async ({ page }) => `page ${page}`
+      });
+
+      const result = await executor.executeTool(tool, {
+        type: "tool_call",
+        id: "call_1",
+        name: "paginate",
+        args: { page: "3" }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.content).toBe("page 3");
+      expect(result.args.args).toEqual({ page: 3 });
+    });
   });
 
   describe("executeTools (parallel)", () => {
@@ -271,6 +513,31 @@ describe("ToolExecutor", () => {
 
       expect(maxConcurrent).toBeLessThanOrEqual(2);
     });
+
+    test("should start the next tool as soon as a slot frees up", async () => {
+      const events: string[] = [];
+      const tool = ToolBuilder.createTool({
+        name: "timed_tool",
+        description: "Test",
+        schema: z.object({ id: z.number(), ms: z.number() }),
+        func: async ({ id, ms }) => {
+          events.push(`start-${id}`);
+          await new Promise(resolve => setTimeout(resolve, ms));
+          events.push(`end-${id}`);
+          return `done-${id}`;
+        }
+      });
+      const settled: number[] = [];
+
+      const results = await executor.executeTools(
+        [60, 5, 5].map((ms, id) => ({ tool, args: { id, ms } })),
+        { maxParallel: 2, onSettled: (_result, index) => settled.push(index) }
+      );
+
+      expect(events.indexOf("start-2")).toBeLessThan(events.indexOf("end-0"));
+      expect(settled).toEqual([1, 2, 0]);
+      expect(results.map(result => result.result)).toEqual(["done-0", "done-1", "done-2"]);
+    });
   });
 
   describe("executeToolsSequential", () => {
@@ -452,6 +719,29 @@ describe("ToolExecutor", () => {
       expect(stats.byTool.tool2.successRate).toBe(0);
     });
 
+    test("should count rejected arguments apart from tool crashes", async () => {
+      const tool = ToolBuilder.createTool({
+        name: "strict_tool",
+        description: "Test",
+        schema: z.object({ count: z.number() }),
+        func: async ({ count }) => {
+          if (count < 0) throw new Error("Crashed");
+          return "ok";
+        }
+      });
+
+      await executor.executeTool(tool, { count: "many" });
+      await executor.executeTool(tool, { count: -1 });
+      await executor.executeTool(tool, { count: "3" });
+
+      const stats = executor.getStatistics();
+
+      expect(stats.failureCount).toBe(2);
+      expect(stats.failuresByKind.validation).toBe(1);
+      expect(stats.failuresByKind.unknown).toBe(1);
+      expect(stats.byTool.strict_tool.failuresByKind).toMatchObject({ validation: 1, unknown: 1 });
+    });
+
     test("should calculate average execution time", async () => {
       const tool = ToolBuilder.createTool({
         name: "timed_tool",
@@ -492,6 +782,23 @@ describe("ToolExecutor", () => {
       expect(history[1].args.id).toBe(2);
     });
 
+    test("should include recorded executions", () => {
+      executor.record({
+        success: false,
+        error: "Search backend responded with 503",
+        failureKind: "upstream",
+        executionTime: 12,
+        toolName: "search",
+        args: { query: "rag" }
+      });
+
+      const stats = executor.getStatistics();
+
+      expect(executor.getToolHistory("search")[0].failureKind).toBe("upstream");
+      expect(stats.failureCount).toBe(1);
+      expect(stats.byTool.search.successRate).toBe(0);
+    });
+
     test("should limit history size", async () => {
       const customExecutor = new ToolExecutor(50); // Max 50 entries
 
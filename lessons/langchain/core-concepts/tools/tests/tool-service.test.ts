@@ -195,6 +195,141 @@ describe("ToolService", () => {
     });
   });
 
+  describe("sensitive tools", () => {
+    test("should require approval for tools registered as sensitive", () => {
+      service.registerTool(ToolBuilder.createCalculatorTool());
+      service.registerTool(ToolBuilder.createWeatherTool(async () => "sunny"), { sensitive: true });
+
+      expect(service.requiresApproval("get_weather")).toBe(true);
+      expect(service.requiresApproval("calculator")).toBe(false);
+      expect(service.getSensitiveTools().map(t => t.name)).toEqual(["get_weather"]);
+      expect(service.getApprovalPolicies()).toEqual({
+        get_weather: { allowedDecisions: ["approve", "edit", "reject"] }
+      });
+    });
+
+    test("should keep the approval policy passed at registration", () => {
+      service.registerTool(ToolBuilder.createWeatherTool(async () => "sunny"), {
+        sensitive: { allowedDecisions: ["approve", "reject"], description: "Calls an external API" }
+      });
+
+      expect(service.getApprovalPolicies().get_weather).toEqual({
+        allowedDecisions: ["approve", "reject"],
+        description: "Calls an external API"
+      });
+      expect(service.createCatalog()).toContain("**Requires approval:** approve, reject");
+    });
+  });
+
+  describe("circuit breakers", () => {
+    let calls: number;
+
+    beforeEach(() => {
+      calls = 0;
+      service = new ToolService({ circuitBreaker: { minimumCalls: 2, failureThreshold: 0.5, openDuration: 60_000 } });
+      service.registerTool(ToolBuilder.createCalculatorTool());
+      service.registerTool(ToolBuilder.createTool({
+        name: "flaky_api",
+        description: "Always down",
+        schema: z.object({}),
+        func: async () => {
+          calls++;
+          throw new Error("Service unavailable");
+        }
+      }));
+    });
+
+    async function breakFlakyApi() {
+      for (let i = 0; i < 2; i++) {
+        await service.executeToolCall({ id: `call_${i}`, name: "flaky_api", args: {} });
+      }
+    }
+
+    test("should hide a tool from binding while its breaker is open", async () => {
+      await breakFlakyApi();
+
+      expect(service.isAvailable("flaky_api")).toBe(false);
+      expect(service.getToolsForBinding().map(t => t.name)).toEqual(["calculator"]);
+    });
+
+    test("should refuse calls without invoking the tool while open", async () => {
+      await breakFlakyApi();
+
+      const result = await service.executeToolCall({ id: "call_3", name: "flaky_api", args: {} });
+
+      expect(calls).toBe(2);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("circuit breaker is open");
+      expect(service.getExecutionHistory()).toHaveLength(2);
+    });
+
+    test("should feed recorded results to the breaker", () => {
+      for (let i = 0; i < 2; i++) {
+        service.recordResult({ success: false, failureKind: "timeout", executionTime: 5, toolName: "calculator", args: {} });
+      }
+
+      expect(service.isAvailable("calculator")).toBe(false);
+      expect(service.getExecutionStats().byTool.calculator.count).toBe(2);
+    });
+
+    test("should report breaker state and statistics", async () => {
+      await service.executeToolCall({ id: "call_0", name: "calculator", args: { expression: "1+1" } });
+      await breakFlakyApi();
+
+      const health = service.getHealth();
+      const catalog = service.createCatalog();
+
+      expect(health.map(t => [t.name, t.available, t.breaker?.state])).toEqual([
+        ["calculator", true, "closed"],
+        ["flaky_api", false, "open"]
+      ]);
+      expect(health[1].stats).toMatchObject({ count: 2, successRate: 0 });
+      expect(catalog).toContain("**Status:** available (0/1 recent calls failed)");
+      expect(catalog).toMatch(/\*\*Status:\*\* unavailable until \S+ \(2\/2 recent calls failed\)/);
+      expect(catalog).toContain("**Health:** 0% success over 2 calls");
+    });
+
+    test("should not count calls the caller cancelled", async () => {
+      service.registerTool(ToolBuilder.createTool({
+        name: "slow_api",
+        description: "Waits until cancelled",
+        schema: z.object({}),
+        func: (_args, config) => new Promise((_resolve, reject) => {
+          config?.signal?.addEventListener("abort", () => reject(config.signal!.reason), { once: true });
+        })
+      }));
+
+      for (let i = 0; i < 2; i++) {
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(new Error("Client disconnected")), 5);
+        const result = await service.executeToolCall(
+          { id: `call_${i}`, name: "slow_api", args: {} },
+          { signal: controller.signal }
+        );
+        expect(result.success).toBe(false);
+      }
+
+      expect(service.isAvailable("slow_api")).toBe(true);
+      expect(service.getHealth().find(t => t.name === "slow_api")?.breaker).toMatchObject({ calls: 0 });
+    });
+
+    test("should register tools without a breaker when disabled", async () => {
+      service.registerTool(ToolBuilder.createTool({
+        name: "flaky_api",
+        description: "Always down",
+        schema: z.object({}),
+        func: async () => {
+          throw new Error("Service unavailable");
+        }
+      }), { circuitBreaker: false });
+
+      await breakFlakyApi();
+
+      expect(service.isAvailable("flaky_api")).toBe(true);
+      expect(service.getHealth().find(t => t.name === "flaky_api")?.breaker).toBeUndefined();
+    });
+  });
+
   describe("searchTools", () => {
     test("should search tools by name", () => {
       service.registerTool(ToolBuilder.createCalculatorTool());
@@ -314,6 +449,31 @@ describe("ToolService", () => {
       expect(result.result).toBe("2+2 = 4");
     });
 
+    test("should retry with the tool's registered policy", async () => {
+      let calls = 0;
+
+      const flaky = ToolBuilder.createTool({
+        name: "flaky",
+        description: "Test",
+        schema: z.object({}),
+        func: async () => {
+          calls++;
+          if (calls === 1) {
+            throw new Error("Request timed out");
+          }
+          return "ok";
+        }
+      });
+
+      service.registerTool(flaky, { retry: { maxAttempts: 2, initialDelay: 1 } });
+
+      const result = await service.executeToolCall({ id: "call_1", name: "flaky", args: {} });
+
+      expect(result.success).toBe(true);
+      expect(result.attempts).toHaveLength(2);
+      expect(service.getTool("flaky")?.retryPolicy?.maxAttempts).toBe(2);
+    });
+
     test("should return error for unknown tool", async () => {
       const result = await service.executeToolCall({
         id: "call_1",
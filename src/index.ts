@@ -1,7 +1,12 @@
 import express from "express";
 import cors from "cors";
 import dotenv from "dotenv";
-//? import agentRoutes from "./routes/agent.routes.js";
+import agentRoutes from "./routes/agent.routes.js";
+import threadRoutes from "./routes/thread.routes.js";
+import usageRoutes from "./routes/usage.routes.js";
+import approvalRoutes from "./routes/approval.routes.js";
+import toolRoutes from "./routes/tool.routes.js";
+import { traceRequests } from "./services/http.services.js";
 
 dotenv.config();
 
@@ -11,9 +16,14 @@ const PORT = process.env.PORT || 3000;
 // Middleware
 app.use(cors());
 app.use(express.json());
+app.use(traceRequests);
 
 // Routes
-//? example app.use("/api/agent", agentRoutes);
+app.use("/api/agent", agentRoutes);
+app.use("/api/threads", threadRoutes);
+app.use("/api/usage", usageRoutes);
+app.use("/api/approvals", approvalRoutes);
+app.use("/api/tools", toolRoutes);
 
 // Health check
 app.get("/health", (req, res) => {
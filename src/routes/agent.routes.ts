@@ -1 +1,98 @@
-//TODO: Agent routes
+import { Router } from "express";
+import z from "zod/v3";
+import { contextSchema, personaIdSchema } from "../../lessons/langchain/core-concepts/agents/config/personas.js";
+import { agentApiService } from "../services/agent.services.js";
+import { apiErrorHandler, parseBody, toApiError } from "../services/http.services.js";
+import { EventStream } from "../services/sse.services.js";
+
+// Request body schemas built on top of the agent context schema
+export const generateArticleRequestSchema = contextSchema.extend({
+  prompt: z.string().trim().min(1, "prompt is required"),
+});
+
+export const compareRolesRequestSchema = z.object({
+  prompt: z.string().trim().min(1, "prompt is required"),
+  roles: z.array(personaIdSchema).min(1).optional(),
+});
+
+const router = Router();
+
+router.get("/", (req, res) => {
+  res.json({
+    endpoints: [
+      { method: "POST", path: "/api/agent/generate", body: "{ prompt, userRole, maxCostUsd?, budget? }" },
+      { method: "GET", path: "/api/agent/personas" },
+      { method: "POST", path: "/api/agent/compare", body: "{ prompt, roles? }" },
+      { method: "POST", path: "/api/agent/stream", body: "{ prompt, userRole }" },
+      { method: "GET", path: "/api/agent/events", query: "?prompt=&userRole=" },
+    ],
+  });
+});
+
+router.post("/generate", async (req, res) => {
+  const input = parseBody(generateArticleRequestSchema, req.body);
+  res.json(await agentApiService.generateArticle(input));
+});
+
+router.get("/personas", (req, res) => {
+  res.json({ personas: agentApiService.listPersonas() });
+});
+
+// Compares every persona unless `roles` narrows the set
+router.post("/compare", async (req, res) => {
+  const { prompt, roles } = parseBody(compareRolesRequestSchema, req.body);
+  res.json(await agentApiService.compareRoleResponses(prompt, roles));
+});
+
+// Streams ChunkData as newline-delimited JSON
+router.post("/stream", async (req, res) => {
+  const input = parseBody(generateArticleRequestSchema, req.body);
+  const controller = new AbortController();
+  const stream = agentApiService.streamResponse(input, controller.signal);
+
+  // A client disconnect cancels the run, including in-flight model and tool calls
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      controller.abort(new Error("Client disconnected"));
+    }
+  });
+
+  res.status(200).type("application/x-ndjson");
+
+  try {
+    for await (const chunk of stream) {
+      res.write(`${JSON.stringify(chunk)}\n`);
+    }
+  } catch (error) {
+    // Headers are already sent, so report the failure in-band unless nobody is listening
+    if (!controller.signal.aborted) {
+      res.write(`${JSON.stringify({ type: "error", ...toApiError(error).body })}\n`);
+    }
+  }
+
+  res.end();
+});
+
+// Server-Sent Events: `content` / `tool_call` per chunk, then `done` or `error`
+router.get("/events", async (req, res) => {
+  const input = parseBody(generateArticleRequestSchema, req.query);
+  const events = new EventStream(res);
+
+  try {
+    for await (const chunk of agentApiService.streamResponse(input, events.signal)) {
+      events.send(chunk.type, chunk);
+    }
+    events.send("done", { timestamp: new Date().toISOString() });
+  } catch (error) {
+    // A client disconnect surfaces as an abort error - nobody is listening anymore
+    if (events.isOpen) {
+      events.send("error", toApiError(error).body);
+    }
+  } finally {
+    events.close();
+  }
+});
+
+router.use(apiErrorHandler);
+
+export default router;
@@ -0,0 +1,56 @@
+import { Router } from "express";
+import z from "zod/v3";
+import { approvalService } from "../services/approval.services.js";
+import { apiErrorHandler, parseBody } from "../services/http.services.js";
+import { sendMessageResult } from "./thread.routes.js";
+
+// The approval's interruptId, from GET /:threadId; with it a stale decision gets 409 instead of applying
+const interruptId = z.string().min(1).optional();
+
+export const approveApprovalRequestSchema = z.object({
+  interruptId,
+});
+
+// A single object is accepted when one action is pending
+export const editApprovalRequestSchema = z.object({
+  args: z
+    .union([z.record(z.any()), z.array(z.record(z.any())).min(1)])
+    .transform(args => (Array.isArray(args) ? args : [args])),
+  interruptId,
+});
+
+export const rejectApprovalRequestSchema = z.object({
+  message: z.string().trim().min(1).optional(),
+  interruptId,
+});
+
+const router = Router();
+
+// Threads waiting for a decision on sensitive tool calls
+router.get("/", async (req, res) => {
+  res.json({ approvals: await approvalService.listApprovals() });
+});
+
+router.get("/:threadId", async (req, res) => {
+  res.json(await approvalService.getApproval(req.params.threadId));
+});
+
+// Each decision resumes the run; it may pause again on the next sensitive call
+router.post("/:threadId/approve", async (req, res) => {
+  const { interruptId } = parseBody(approveApprovalRequestSchema, req.body);
+  sendMessageResult(res, await approvalService.decide(req.params.threadId, { type: "approve", interruptId }));
+});
+
+router.post("/:threadId/edit", async (req, res) => {
+  const { args, interruptId } = parseBody(editApprovalRequestSchema, req.body);
+  sendMessageResult(res, await approvalService.decide(req.params.threadId, { type: "edit", args, interruptId }));
+});
+
+router.post("/:threadId/reject", async (req, res) => {
+  const { message, interruptId } = parseBody(rejectApprovalRequestSchema, req.body);
+  sendMessageResult(res, await approvalService.decide(req.params.threadId, { type: "reject", message, interruptId }));
+});
+
+router.use(apiErrorHandler);
+
+export default router;
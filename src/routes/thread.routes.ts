@@ -0,0 +1,52 @@
+import { Router, type Response } from "express";
+import z from "zod/v3";
+import { contextSchema } from "../../lessons/langchain/core-concepts/agents/config/personas.js";
+import { apiErrorHandler, parseBody } from "../services/http.services.js";
+import { threadService, type ThreadMessageResult } from "../services/thread.services.js";
+
+// Request body schemas built on top of the agent context schema
+export const createThreadRequestSchema = contextSchema.extend({
+  title: z.string().trim().min(1).optional(),
+  userId: z.string().trim().min(1).optional(),
+});
+
+export const threadMessageRequestSchema = contextSchema.partial().extend({
+  prompt: z.string().trim().min(1, "prompt is required"),
+});
+
+/**
+ * 202 while the run waits for approval, 200 once the article is done
+ */
+export function sendMessageResult(res: Response, result: ThreadMessageResult) {
+  res.status(result.status === "pending_approval" ? 202 : 200).json(result);
+}
+
+const router = Router();
+
+router.post("/", async (req, res) => {
+  const input = parseBody(createThreadRequestSchema, req.body);
+  res.status(201).json(await threadService.createThread(input));
+});
+
+router.get("/", async (req, res) => {
+  res.json({ threads: await threadService.listThreads() });
+});
+
+router.get("/:threadId", async (req, res) => {
+  res.json(await threadService.getThread(req.params.threadId));
+});
+
+router.delete("/:threadId", async (req, res) => {
+  await threadService.deleteThread(req.params.threadId);
+  res.status(204).end();
+});
+
+// Continues the stored conversation; userRole defaults to the thread's role
+router.post("/:threadId/messages", async (req, res) => {
+  const input = parseBody(threadMessageRequestSchema, req.body);
+  sendMessageResult(res, await threadService.sendMessage(req.params.threadId, input));
+});
+
+router.use(apiErrorHandler);
+
+export default router;
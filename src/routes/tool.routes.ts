@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { apiErrorHandler } from "../services/http.services.js";
+import { toolApiService } from "../services/tool.services.js";
+
+const router = Router();
+
+// Circuit breaker state and call statistics per agent tool
+router.get("/health", (req, res) => {
+  res.json(toolApiService.getHealth());
+});
+
+router.use(apiErrorHandler);
+
+export default router;
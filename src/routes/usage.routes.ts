@@ -0,0 +1,25 @@
+import { Router } from "express";
+import z from "zod/v3";
+import { apiErrorHandler, parseBody } from "../services/http.services.js";
+import { usageApiService } from "../services/usage.services.js";
+
+// Every field narrows the records the totals are computed from
+export const usageQuerySchema = z.object({
+  threadId: z.string().trim().min(1).optional(),
+  userRole: z.string().trim().min(1).optional(),
+  tool: z.string().trim().min(1).optional(),
+  model: z.string().trim().min(1).optional(),
+  source: z.string().trim().min(1).optional(),
+});
+
+const router = Router();
+
+// Token and cost totals, overall and grouped by model, thread, user role and tool
+router.get("/", (req, res) => {
+  const filter = parseBody(usageQuerySchema, req.query);
+  res.json(usageApiService.getUsage(filter));
+});
+
+router.use(apiErrorHandler);
+
+export default router;
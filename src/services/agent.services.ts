@@ -1 +1,133 @@
-//TODO: Services logic
+import type { Decision } from "langchain";
+import { AgentFactory } from "../../lessons/langchain/core-concepts/agents/core/agent-factory.js";
+import { AgentService } from "../../lessons/langchain/core-concepts/agents/core/agent-service.js";
+import { articleSchema, type Budget, type Persona } from "../../lessons/langchain/core-concepts/agents/config/schemas.js";
+import { PersonaRegistry } from "../../lessons/langchain/core-concepts/agents/config/personas.js";
+import type { RoutingDecision } from "../../lessons/langchain/core-concepts/agents/core/routing-policy.js";
+import {
+  AgentConfigurationError,
+  ResponseParsingError,
+  type AgentOptions,
+  type ArticleFormat,
+  type ChunkData,
+  type GenerateOptions,
+  type ParsedResponse,
+  type PendingApproval,
+  type UserRole,
+} from "../../lessons/langchain/core-concepts/agents/core/types.js";
+
+export interface GenerateArticleInput {
+  prompt: string;
+  userRole: UserRole;
+  maxCostUsd?: number;
+  budget?: Budget;
+}
+
+export interface ArticleResult {
+  userRole: UserRole;
+  article: ArticleFormat;
+  /** Model routing decision for the last model call, when available */
+  routing?: RoutingDecision;
+  /** Trace of the agent run, for looking it up in the tracing backend */
+  traceId?: string;
+}
+
+/**
+ * Thin HTTP-facing wrapper around AgentService.
+ * The agent is created lazily so the server can boot without provider keys.
+ */
+export class AgentApiService {
+  private service?: AgentService;
+
+  constructor(private readonly agentOptions: AgentOptions = {}) {}
+
+  private getService(): AgentService {
+    if (!this.service) {
+      try {
+        this.service = new AgentService(AgentFactory.createArticleAgent(this.agentOptions));
+      } catch (error) {
+        throw new AgentConfigurationError(
+          `Failed to create article agent: ${error instanceof Error ? error.message : String(error)}`,
+          { cause: error }
+        );
+      }
+    }
+
+    return this.service;
+  }
+
+  async generateArticle(
+    { prompt, userRole, maxCostUsd, budget }: GenerateArticleInput,
+    options: GenerateOptions = {}
+  ): Promise<ArticleResult> {
+    const response = await this.getService().generateArticle(prompt, userRole, { maxCostUsd, budget, ...options });
+    return this.toArticleResult(userRole, response);
+  }
+
+  /**
+   * Resume a thread paused for approval with one decision per pending action
+   */
+  async resumeArticle(
+    threadId: string,
+    decisions: Decision[],
+    { userRole, maxCostUsd, budget }: Omit<GenerateArticleInput, "prompt">,
+    options: { userId?: string } = {}
+  ): Promise<ArticleResult> {
+    const response = await this.getService().resumeArticle(threadId, decisions, userRole, { maxCostUsd, budget, ...options });
+    return this.toArticleResult(userRole, response);
+  }
+
+  getPendingApproval(threadId: string, userId?: string): Promise<PendingApproval | undefined> {
+    return this.getService().getPendingApproval(threadId, userId);
+  }
+
+  async compareRoleResponses(prompt: string, roles?: UserRole[]): Promise<Record<string, ArticleFormat>> {
+    const responses = await this.getService().compareRoleResponses(prompt, roles);
+
+    return Object.fromEntries(
+      Object.entries(responses).map(([role, response]) => [
+        role,
+        this.validateArticle(response.structuredResponse),
+      ])
+    );
+  }
+
+  listPersonas(): Persona[] {
+    return PersonaRegistry.list();
+  }
+
+  streamResponse(
+    { prompt, userRole, maxCostUsd, budget }: GenerateArticleInput,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChunkData> {
+    return this.getService().streamResponse(prompt, { userRole, signal, maxCostUsd, budget });
+  }
+
+  private toArticleResult(userRole: UserRole, response: ParsedResponse): ArticleResult {
+    return {
+      userRole,
+      article: this.validateArticle(response.structuredResponse),
+      routing: this.findRoutingDecision(response.messages),
+      traceId: response.traceId,
+    };
+  }
+
+  // Set by the DynamicModelSelection middleware on every model response
+  private findRoutingDecision(messages: any[]): RoutingDecision | undefined {
+    return [...messages].reverse().find(message => message?.response_metadata?.routing)?.response_metadata.routing;
+  }
+
+  private validateArticle(article: unknown): ArticleFormat {
+    const result = articleSchema.safeParse(article);
+
+    if (!result.success) {
+      throw new ResponseParsingError("Agent response does not match articleSchema", {
+        issues: result.error.issues,
+      });
+    }
+
+    return result.data;
+  }
+}
+
+export const agentApiService = new AgentApiService();
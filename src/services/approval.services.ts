@@ -0,0 +1,89 @@
+import type { Decision, DecisionType } from "langchain";
+import type { PendingApproval } from "../../lessons/langchain/core-concepts/agents/core/types.js";
+import { ConflictError, NotFoundError, RequestValidationError } from "./http.services.js";
+import { threadService, type ThreadMessageResult, type ThreadService } from "./thread.services.js";
+
+/**
+ * A reviewer's decision, applied to every pending action of a thread.
+ * `interruptId` names the approval the reviewer saw; a decision for any other is refused.
+ */
+export type ApprovalDecisionInput = (
+  | { type: "approve" }
+  | { type: "edit"; args: Record<string, any>[] }
+  | { type: "reject"; message?: string }
+) & { interruptId?: string };
+
+/**
+ * Review of sensitive tool calls. A paused run is found through its thread's
+ * persisted interrupt, so approvals survive a server restart; deciding resumes the
+ * run from that checkpoint.
+ */
+export class ApprovalService {
+  constructor(private readonly threads: ThreadService) {}
+
+  listApprovals(): Promise<PendingApproval[]> {
+    return this.threads.listPendingApprovals();
+  }
+
+  async getApproval(threadId: string): Promise<PendingApproval> {
+    const approval = await this.threads.getPendingApproval(threadId);
+
+    if (!approval) {
+      throw new NotFoundError(`Thread ${threadId} has no pending approval`);
+    }
+
+    return approval;
+  }
+
+  /**
+   * Decisions and messages on a thread run one at a time, so an interrupt is resumed at most once.
+   * Without `interruptId` the decision is for the approval pending when it arrived;
+   * if that one was decided in the meantime, a ConflictError is thrown.
+   */
+  async decide(threadId: string, input: ApprovalDecisionInput): Promise<ThreadMessageResult> {
+    const interruptId = input.interruptId ?? (await this.getApproval(threadId)).interruptId;
+
+    return this.threads.serialize(threadId, async () => {
+      const approval = await this.threads.getPendingApproval(threadId);
+
+      if (!approval || approval.interruptId !== interruptId) {
+        throw new ConflictError(`Approval ${interruptId} on thread ${threadId} was already decided`);
+      }
+
+      return this.threads.resumeMessage(threadId, this.toDecisions(approval, input));
+    });
+  }
+
+  /**
+   * One decision per pending action; edited args replace the actions' args in order
+   */
+  private toDecisions(approval: PendingApproval, input: ApprovalDecisionInput): Decision[] {
+    if (input.type === "edit" && input.args.length !== approval.actionRequests.length) {
+      throw new RequestValidationError(
+        `Expected edited args for ${approval.actionRequests.length} action(s), got ${input.args.length}`
+      );
+    }
+
+    return approval.actionRequests.map((action, index): Decision => {
+      const allowed: DecisionType[] =
+        approval.reviewConfigs.find(config => config.actionName === action.name)?.allowedDecisions ?? [];
+
+      if (!allowed.includes(input.type)) {
+        throw new RequestValidationError(`Decision "${input.type}" is not allowed for ${action.name}`, [
+          { action: action.name, allowedDecisions: allowed },
+        ]);
+      }
+
+      switch (input.type) {
+        case "approve":
+          return { type: "approve" };
+        case "edit":
+          return { type: "edit", editedAction: { name: action.name, args: input.args[index] } };
+        case "reject":
+          return { type: "reject", message: input.message };
+      }
+    });
+  }
+}
+
+export const approvalService = new ApprovalService(threadService);
@@ -0,0 +1,153 @@
+import type { NextFunction, Request, Response } from "express";
+import type z from "zod/v3";
+import {
+  AgentConfigurationError,
+  ResponseParsingError,
+} from "../../lessons/langchain/core-concepts/agents/core/types.js";
+import { Tracer } from "../../lessons/langchain/core-concepts/models/core/tracer.js";
+
+export type ApiErrorType =
+  | "ValidationError"
+  | "NotFoundError"
+  | "ConflictError"
+  | "ResponseParsingError"
+  | "AgentConfigurationError"
+  | "InternalError";
+
+export interface ApiErrorResponse {
+  error: {
+    type: ApiErrorType;
+    message: string;
+    details?: unknown;
+  };
+}
+
+/**
+ * Raised when a request body does not match its schema
+ */
+export class RequestValidationError extends Error {
+  constructor(message: string, public issues: unknown[] = []) {
+    super(message);
+    this.name = "RequestValidationError";
+  }
+}
+
+/**
+ * Raised when a requested resource does not exist
+ */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Raised when a request conflicts with the resource's current state
+ */
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * Validate a request body (or query) against a Zod schema
+ */
+export function parseBody<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  const result = schema.safeParse(body ?? {});
+
+  if (!result.success) {
+    throw new RequestValidationError("Invalid request body", result.error.issues);
+  }
+
+  return result.data;
+}
+
+/**
+ * Map any thrown error to an HTTP status and a typed JSON body
+ */
+export function toApiError(error: unknown): { status: number; body: ApiErrorResponse } {
+  if (error instanceof RequestValidationError) {
+    return {
+      status: 400,
+      body: { error: { type: "ValidationError", message: error.message, details: error.issues } },
+    };
+  }
+
+  if (error instanceof NotFoundError) {
+    return {
+      status: 404,
+      body: { error: { type: "NotFoundError", message: error.message } },
+    };
+  }
+
+  if (error instanceof ConflictError) {
+    return {
+      status: 409,
+      body: { error: { type: "ConflictError", message: error.message } },
+    };
+  }
+
+  if (error instanceof ResponseParsingError) {
+    return {
+      status: 502,
+      body: {
+        error: {
+          type: "ResponseParsingError",
+          message: error.message,
+          details: error.context?.issues,
+        },
+      },
+    };
+  }
+
+  if (error instanceof AgentConfigurationError) {
+    return {
+      status: 500,
+      body: { error: { type: "AgentConfigurationError", message: error.message } },
+    };
+  }
+
+  return {
+    status: 500,
+    body: {
+      error: {
+        type: "InternalError",
+        message: error instanceof Error ? error.message : String(error),
+      },
+    },
+  };
+}
+
+/**
+ * Router-level error handler that renders errors with toApiError
+ */
+export function apiErrorHandler(error: unknown, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  const { status, body } = toApiError(error);
+  res.status(status).json(body);
+}
+
+/**
+ * Run each request in a server span and return its trace ID in the `X-Trace-Id` header;
+ * agent runs started by the request join the same trace
+ */
+export function traceRequests(req: Request, res: Response, next: NextFunction) {
+  const span = Tracer.startSpan(`${req.method} ${req.path}`, {
+    "http.request.method": req.method,
+    "url.path": req.path,
+  }, { kind: "server" });
+
+  res.setHeader("X-Trace-Id", span.traceId);
+  res.on("close", () => {
+    span.setAttribute("http.response.status_code", res.statusCode);
+    span.setStatus(res.statusCode >= 500 ? "error" : "ok").end();
+  });
+
+  Tracer.withActiveSpan(span, next);
+}
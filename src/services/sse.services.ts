@@ -0,0 +1,79 @@
+import type { Response } from "express";
+
+export const SSE_HEARTBEAT_INTERVAL_MS = 15_000;
+
+export interface EventStreamOptions {
+  heartbeatIntervalMs?: number;
+}
+
+/**
+ * Server-Sent Events writer bound to a single HTTP response.
+ * Sends periodic heartbeat comments and aborts `signal` when the client disconnects.
+ */
+export class EventStream {
+  private readonly controller = new AbortController();
+  private readonly heartbeat: NodeJS.Timeout;
+  private eventId = 0;
+  private closed = false;
+
+  constructor(private readonly res: Response, options: EventStreamOptions = {}) {
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    // `close` on the response fires for both normal completion and client disconnects
+    res.on("close", () => {
+      if (!this.closed) {
+        this.controller.abort(new Error("Client disconnected"));
+      }
+      this.dispose();
+    });
+
+    this.heartbeat = setInterval(
+      () => this.write(`: heartbeat ${new Date().toISOString()}\n\n`),
+      options.heartbeatIntervalMs ?? SSE_HEARTBEAT_INTERVAL_MS
+    );
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get isOpen(): boolean {
+    return !this.closed && !this.controller.signal.aborted;
+  }
+
+  /**
+   * Send a named event with a JSON payload
+   */
+  send(event: string, data: unknown): void {
+    this.eventId++;
+    this.write(`id: ${this.eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * End the stream from the server side
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.dispose();
+    this.res.end();
+  }
+
+  private write(payload: string): void {
+    if (this.isOpen) {
+      this.res.write(payload);
+    }
+  }
+
+  private dispose(): void {
+    this.closed = true;
+    clearInterval(this.heartbeat);
+  }
+}
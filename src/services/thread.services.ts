@@ -0,0 +1,283 @@
+import { emptyCheckpoint, type BaseCheckpointSaver, type CheckpointTuple } from "@langchain/langgraph";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { Decision } from "langchain";
+import { CheckpointerUtils } from "../../lessons/langchain/core-concepts/short-term-memory/core/memory-manager.js";
+import { FileCheckpointSaver } from "../../lessons/langchain/core-concepts/short-term-memory/core/file-checkpointer.js";
+import { MessageParser } from "../../lessons/langchain/core-concepts/messages/core/message-parser.js";
+import {
+  ConversationHistory,
+  type ConversationUsage,
+} from "../../lessons/langchain/core-concepts/messages/core/message-service.js";
+import {
+  ApprovalRequiredError,
+  type AgentOptions,
+  type PendingApproval,
+  type UserRole,
+} from "../../lessons/langchain/core-concepts/agents/core/types.js";
+import { AgentApiService, type ArticleResult, type GenerateArticleInput } from "./agent.services.js";
+import { ConflictError, NotFoundError } from "./http.services.js";
+
+export const DEFAULT_CHECKPOINT_FILE = ".data/checkpoints.json";
+
+/**
+ * Metadata stored on the creation checkpoint of every thread
+ */
+interface ThreadMetadata {
+  threadCreatedAt: string;
+  title?: string;
+  userId?: string;
+  userRole: UserRole;
+}
+
+/**
+ * Options of a message paused for approval, stored on its checkpoint's metadata
+ * because the agent's context is not checkpointed
+ */
+type PausedMessage = Omit<GenerateArticleInput, "prompt">;
+
+export interface CreateThreadInput {
+  title?: string;
+  userId?: string;
+  userRole: UserRole;
+}
+
+export interface ThreadSummary extends ThreadMetadata {
+  threadId: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export interface ThreadDetail extends ThreadSummary {
+  messages: Record<string, any>[];
+  /** Usage recorded for this thread since the server started */
+  usage: ConversationUsage;
+}
+
+/**
+ * A message either completes with an article or pauses until a reviewer decides on its sensitive tool calls
+ */
+export type ThreadMessageResult =
+  | (ArticleResult & { threadId: string; status: "completed" })
+  | { threadId: string; status: "pending_approval"; approval: PendingApproval };
+
+/**
+ * Conversation threads stored in a LangGraph checkpointer.
+ * Creating a thread writes an empty checkpoint carrying the thread metadata;
+ * every message afterwards continues from the latest checkpoint of that thread.
+ */
+export class ThreadService {
+  private readonly agentService: AgentApiService;
+  // Message or decision in progress per thread; the next one waits for it
+  private readonly runs = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly checkpointer: BaseCheckpointSaver, agentOptions: Omit<AgentOptions, "checkpointer"> = {}) {
+    this.agentService = new AgentApiService({ ...agentOptions, checkpointer });
+  }
+
+  async createThread({ title, userId, userRole }: CreateThreadInput): Promise<ThreadSummary> {
+    const threadId = CheckpointerUtils.generateThreadId();
+    const metadata: ThreadMetadata = {
+      threadCreatedAt: new Date().toISOString(),
+      title,
+      userId,
+      userRole,
+    };
+
+    const checkpoint = emptyCheckpoint();
+    await this.checkpointer.put(
+      CheckpointerUtils.createThreadConfig(threadId, userId),
+      checkpoint,
+      { source: "input", step: -1, parents: {}, ...metadata },
+      {}
+    );
+
+    return { threadId, ...metadata, updatedAt: checkpoint.ts, messageCount: 0 };
+  }
+
+  async listThreads(): Promise<ThreadSummary[]> {
+    // list() yields newest checkpoints first, so the last tuple per thread is its creation checkpoint
+    const threads = new Map<string, { latest: CheckpointTuple; first: CheckpointTuple }>();
+
+    for await (const tuple of this.checkpointer.list({})) {
+      const threadId = tuple.config.configurable?.thread_id as string;
+      const entry = threads.get(threadId);
+      threads.set(threadId, { latest: entry?.latest ?? tuple, first: tuple });
+    }
+
+    return [...threads.entries()]
+      .flatMap(([threadId, { latest, first }]) => {
+        const summary = this.toSummary(threadId, latest, first);
+        return summary ? [summary] : [];
+      })
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async getThread(threadId: string): Promise<ThreadDetail> {
+    const { latest, first } = await this.loadThread(threadId);
+    const summary = this.toSummary(threadId, latest, first);
+
+    if (!summary) {
+      throw new NotFoundError(`Thread ${threadId} not found`);
+    }
+
+    const messages = this.getMessages(latest);
+
+    return {
+      ...summary,
+      messages: MessageParser.toSimpleObjects(messages),
+      usage: new ConversationHistory(messages, undefined, threadId).getTotalUsage(),
+    };
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.loadThread(threadId);
+    await this.checkpointer.deleteThread(threadId);
+  }
+
+  /**
+   * Send a prompt to the article agent, continuing the thread's conversation.
+   * A thread waiting for approval takes no new messages until the approval is decided.
+   */
+  async sendMessage(
+    threadId: string,
+    { prompt, userRole, maxCostUsd, budget }: Partial<GenerateArticleInput> & { prompt: string }
+  ): Promise<ThreadMessageResult> {
+    return this.serialize(threadId, async () => {
+      const thread = await this.getThread(threadId);
+      const approval = await this.agentService.getPendingApproval(threadId, thread.userId);
+
+      if (approval) {
+        throw new ConflictError(`Thread ${threadId} is waiting for approval ${approval.interruptId}`);
+      }
+
+      const message: PausedMessage = { userRole: userRole ?? thread.userRole, maxCostUsd, budget };
+      return this.settle(threadId, message, () => this.agentService.generateArticle(
+        { prompt, ...message },
+        { threadId, userId: thread.userId }
+      ));
+    });
+  }
+
+  /**
+   * The approval the thread's last message is waiting for, if any
+   */
+  async getPendingApproval(threadId: string): Promise<PendingApproval | undefined> {
+    const thread = await this.getThread(threadId);
+    return this.agentService.getPendingApproval(threadId, thread.userId);
+  }
+
+  async listPendingApprovals(): Promise<PendingApproval[]> {
+    const approvals = await Promise.all(
+      (await this.listThreads()).map(thread => this.agentService.getPendingApproval(thread.threadId, thread.userId))
+    );
+    return approvals.filter(approval => approval !== undefined);
+  }
+
+  /**
+   * Resume the paused message with the reviewer's decisions, under the persona and
+   * budget it was sent with (the thread's persona for messages paused before they were stored)
+   */
+  async resumeMessage(threadId: string, decisions: Decision[]): Promise<ThreadMessageResult> {
+    const thread = await this.getThread(threadId);
+    const { latest } = await this.loadThread(threadId);
+    const message =
+      (latest.metadata as { pausedMessage?: PausedMessage } | undefined)?.pausedMessage ?? { userRole: thread.userRole };
+
+    return this.settle(threadId, message, () => this.agentService.resumeArticle(
+      threadId,
+      decisions,
+      message,
+      { userId: thread.userId }
+    ));
+  }
+
+  /**
+   * Run after any message or decision already in progress on the thread,
+   * so each one starts from the checkpoint the previous one left
+   */
+  async serialize<T>(threadId: string, run: () => Promise<T>): Promise<T> {
+    const previous = this.runs.get(threadId) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(run);
+    this.runs.set(threadId, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.runs.get(threadId) === current) {
+        this.runs.delete(threadId);
+      }
+    }
+  }
+
+  private async settle(
+    threadId: string,
+    message: PausedMessage,
+    run: () => Promise<ArticleResult>
+  ): Promise<ThreadMessageResult> {
+    try {
+      return { threadId, status: "completed", ...(await run()) };
+    } catch (error) {
+      if (error instanceof ApprovalRequiredError) {
+        await this.savePausedMessage(threadId, message);
+        return { threadId, status: "pending_approval", approval: error.approval };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Rewrite the paused checkpoint with the message's options in its metadata;
+   * its pending writes, including the interrupt, are kept by checkpoint ID
+   */
+  private async savePausedMessage(threadId: string, pausedMessage: PausedMessage): Promise<void> {
+    const { latest } = await this.loadThread(threadId);
+    const metadata = { ...latest.metadata!, pausedMessage };
+
+    await this.checkpointer.put(latest.parentConfig ?? CheckpointerUtils.createThreadConfig(threadId), latest.checkpoint, metadata, {});
+  }
+
+  private async loadThread(threadId: string): Promise<{ latest: CheckpointTuple; first: CheckpointTuple }> {
+    let latest: CheckpointTuple | undefined;
+    let first: CheckpointTuple | undefined;
+
+    for await (const tuple of this.checkpointer.list(CheckpointerUtils.createThreadConfig(threadId))) {
+      latest ??= tuple;
+      first = tuple;
+    }
+
+    if (!latest || !first) {
+      throw new NotFoundError(`Thread ${threadId} not found`);
+    }
+
+    return { latest, first };
+  }
+
+  /**
+   * Only threads created through this service carry ThreadMetadata
+   */
+  private toSummary(threadId: string, latest: CheckpointTuple, first: CheckpointTuple): ThreadSummary | undefined {
+    const metadata = first.metadata as Partial<ThreadMetadata> | undefined;
+
+    if (!metadata?.threadCreatedAt || !metadata.userRole) {
+      return undefined;
+    }
+
+    return {
+      threadId,
+      threadCreatedAt: metadata.threadCreatedAt,
+      title: metadata.title,
+      userId: metadata.userId,
+      userRole: metadata.userRole,
+      updatedAt: latest.checkpoint.ts,
+      messageCount: this.getMessages(latest).length,
+    };
+  }
+
+  private getMessages(tuple: CheckpointTuple): BaseMessage[] {
+    return (tuple.checkpoint.channel_values?.messages as BaseMessage[] | undefined) ?? [];
+  }
+}
+
+export const threadService = new ThreadService(
+  new FileCheckpointSaver(process.env.CHECKPOINT_FILE ?? DEFAULT_CHECKPOINT_FILE)
+);
@@ -0,0 +1,29 @@
+import { agentToolService } from "../../lessons/langchain/core-concepts/agents/core/tools/index.js";
+import type { ToolHealth, ToolService } from "../../lessons/langchain/core-concepts/tools/core/tool-service.js";
+
+export interface ToolHealthReport {
+  /** "degraded" while any tool's circuit breaker is open */
+  status: "ok" | "degraded";
+  tools: ToolHealth[];
+  timestamp: string;
+}
+
+/**
+ * Read-only view of the agent's tool registry. Breakers and statistics are in memory,
+ * so they reset when the server restarts.
+ */
+export class ToolApiService {
+  constructor(private readonly tools: ToolService) {}
+
+  getHealth(): ToolHealthReport {
+    const tools = this.tools.getHealth();
+
+    return {
+      status: tools.every(tool => tool.available) ? "ok" : "degraded",
+      tools,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+export const toolApiService = new ToolApiService(agentToolService);
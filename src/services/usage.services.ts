@@ -0,0 +1,20 @@
+import {
+  UsageLedger,
+  type UsageFilter,
+  type UsageSummary,
+} from "../../lessons/langchain/core-concepts/models/core/usage-ledger.js";
+
+export interface UsageReport extends UsageSummary {
+  filter: UsageFilter;
+}
+
+/**
+ * Read-only view of the process-wide UsageLedger
+ */
+export class UsageApiService {
+  getUsage(filter: UsageFilter = {}): UsageReport {
+    return { filter, ...UsageLedger.summarize(filter) };
+  }
+}
+
+export const usageApiService = new UsageApiService();
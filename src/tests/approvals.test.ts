@@ -0,0 +1,175 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { MemorySaver } from "@langchain/langgraph";
+import { tool } from "langchain";
+import * as z from "zod";
+import { AgentModels } from "../../lessons/langchain/core-concepts/agents/config/models.js";
+import { FakeChatModel } from "../../lessons/langchain/core-concepts/models/core/fake-chat-model.js";
+import { ToolService } from "../../lessons/langchain/core-concepts/tools/core/tool-service.js";
+import { ApprovalService } from "../services/approval.services.js";
+import { ConflictError, RequestValidationError, toApiError } from "../services/http.services.js";
+import { ThreadService, type ThreadMessageResult } from "../services/thread.services.js";
+
+const article = { title: "Launch", subtitle: "Newsletter", content: "We launched.", readingTime: 1, date: "2025-01-01" };
+
+describe("Thread approvals", () => {
+  let sent: string[];
+  let threads: ThreadService;
+
+  beforeEach(() => {
+    sent = [];
+    const sendEmail = tool(async ({ to }) => {
+      sent.push(to);
+      return `Sent to ${to}`;
+    }, {
+      name: "send_email",
+      description: "Send an email",
+      schema: z.object({ to: z.string() }),
+    });
+    const toolService = new ToolService();
+    toolService.registerTool(sendEmail, { sensitive: { allowedDecisions: ["approve", "edit"] } });
+
+    // The email call spends 1000 tokens, then the article
+    AgentModels.override(new FakeChatModel({
+      responses: [
+        { toolCalls: [{ id: "call_1", name: "send_email", args: { to: "team@example.com" } }], usage: { inputTokens: 800, outputTokens: 200 } },
+        { structured: article },
+        { structured: { ...article, title: "Follow-up" } },
+      ],
+    }));
+    threads = new ThreadService(new MemorySaver(), { toolService });
+  });
+
+  afterEach(() => {
+    AgentModels.reset();
+  });
+
+  async function pause(message: Parameters<ThreadService["sendMessage"]>[1] = { prompt: "Announce the launch" }) {
+    const { threadId } = await threads.createThread({ title: "Launch", userRole: "expert" });
+    const result = await threads.sendMessage(threadId, message);
+
+    expect(result.status).toBe("pending_approval");
+    return threadId;
+  }
+
+  function completed(result: ThreadMessageResult) {
+    if (result.status !== "completed") throw new Error(`Expected a completed message, got ${result.status}`);
+    return result;
+  }
+
+  test("should resume under the paused message's persona", async () => {
+    const threadId = await pause({ prompt: "Announce the launch", userRole: "executive" });
+
+    const result = completed(await threads.resumeMessage(threadId, [{ type: "approve" }]));
+
+    expect(sent).toEqual(["team@example.com"]);
+    expect(result.userRole).toBe("executive");
+    expect(result.article.title).toBe("Launch");
+  });
+
+  test("should resume under the paused message's budget", async () => {
+    const threadId = await pause({ prompt: "Announce the launch", budget: { maxTokens: 1000, onHardLimit: "end" } });
+
+    const result = completed(await threads.resumeMessage(threadId, [{ type: "approve" }]));
+
+    expect(sent).toEqual(["team@example.com"]);
+    expect(result.userRole).toBe("expert");
+    expect(result.article.title).toContain("Partial article");
+  });
+
+  test("should refuse messages while an approval is pending", async () => {
+    const threadId = await pause();
+
+    await expect(threads.sendMessage(threadId, { prompt: "Never mind" })).rejects.toBeInstanceOf(ConflictError);
+    expect((await threads.getPendingApproval(threadId))?.actionRequests[0].name).toBe("send_email");
+  });
+
+  test("should run a message sent during a decision after it", async () => {
+    const threadId = await pause();
+    const { interruptId } = (await threads.getPendingApproval(threadId))!;
+
+    const [decided, followUp] = await Promise.all([
+      new ApprovalService(threads).decide(threadId, { type: "approve", interruptId }),
+      threads.sendMessage(threadId, { prompt: "Write a follow-up" }),
+    ]);
+
+    expect(sent).toEqual(["team@example.com"]);
+    expect(completed(decided).article.title).toBe("Launch");
+    expect(completed(followUp).article.title).toBe("Follow-up");
+  });
+
+  describe("ApprovalService", () => {
+    async function rejection(decision: Promise<unknown>): Promise<unknown> {
+      try {
+        await decision;
+      } catch (error) {
+        return error;
+      }
+      throw new Error("Decision was not refused");
+    }
+
+    test("should resume an approval once when two decisions race", async () => {
+      const threadId = await pause();
+      const approvals = new ApprovalService(threads);
+
+      const results = await Promise.allSettled([
+        approvals.decide(threadId, { type: "approve" }),
+        approvals.decide(threadId, { type: "approve" }),
+      ]);
+      const resumed = results.filter(result => result.status === "fulfilled");
+      const refused = results.filter(result => result.status === "rejected");
+
+      expect(sent).toEqual(["team@example.com"]);
+      expect(resumed).toHaveLength(1);
+      expect(refused).toHaveLength(1);
+      expect((refused[0] as PromiseRejectedResult).reason).toBeInstanceOf(ConflictError);
+      expect(toApiError((refused[0] as PromiseRejectedResult).reason).status).toBe(409);
+    });
+
+    test("should refuse a decision for an earlier approval", async () => {
+      AgentModels.override(new FakeChatModel({
+        responses: [
+          { toolCalls: [{ id: "call_1", name: "send_email", args: { to: "team@example.com" } }] },
+          { toolCalls: [{ id: "call_2", name: "send_email", args: { to: "press@example.com" } }] },
+          { structured: article },
+        ],
+      }));
+      const threadId = await pause();
+      const approvals = new ApprovalService(threads);
+      const first = await approvals.getApproval(threadId);
+
+      const paused = await approvals.decide(threadId, { type: "approve", interruptId: first.interruptId });
+      const error = await rejection(approvals.decide(threadId, { type: "approve", interruptId: first.interruptId }));
+
+      expect(paused.status).toBe("pending_approval");
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(sent).toEqual(["team@example.com"]);
+      expect((await approvals.getApproval(threadId)).actionRequests[0].args).toEqual({ to: "press@example.com" });
+    });
+
+    test("should refuse edits without one set of args per pending call", async () => {
+      const threadId = await pause();
+      const approvals = new ApprovalService(threads);
+
+      const error = await rejection(approvals.decide(threadId, { type: "edit", args: [{ to: "a@example.com" }, { to: "b@example.com" }] }));
+
+      expect(error).toBeInstanceOf(RequestValidationError);
+      expect(toApiError(error).status).toBe(400);
+      expect(sent).toHaveLength(0);
+      expect(await threads.getPendingApproval(threadId)).toBeDefined();
+    });
+
+    test("should refuse decisions the tool's policy does not allow", async () => {
+      const threadId = await pause();
+      const approvals = new ApprovalService(threads);
+
+      const error = await rejection(approvals.decide(threadId, { type: "reject", message: "No" }));
+
+      expect(error).toBeInstanceOf(RequestValidationError);
+      expect(toApiError(error).status).toBe(400);
+      expect((error as RequestValidationError).issues).toEqual([
+        { action: "send_email", allowedDecisions: ["approve", "edit"] },
+      ]);
+      expect(await threads.getPendingApproval(threadId)).toBeDefined();
+    });
+  });
+});
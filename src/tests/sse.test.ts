@@ -0,0 +1,114 @@
+import { describe, test, expect, afterEach, spyOn } from "bun:test";
+import { EventEmitter } from "node:events";
+import type { Response } from "express";
+import { EventStream } from "../services/sse.services.js";
+
+/**
+ * Just enough of an Express response for EventStream; `end()` emits `close` like a finished response
+ */
+class MockResponse extends EventEmitter {
+  statusCode = 0;
+  headers: Record<string, string> = {};
+  writes: string[] = [];
+  ended = false;
+
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+
+  set(headers: Record<string, string>) {
+    Object.assign(this.headers, headers);
+    return this;
+  }
+
+  flushHeaders() {}
+
+  write(payload: string) {
+    this.writes.push(payload);
+    return true;
+  }
+
+  end() {
+    this.ended = true;
+    this.emit("close");
+    return this;
+  }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("EventStream", () => {
+  let streams: EventStream[] = [];
+
+  afterEach(() => {
+    streams.forEach(stream => stream.close());
+    streams = [];
+  });
+
+  function open(heartbeatIntervalMs = 10) {
+    const res = new MockResponse();
+    const stream = new EventStream(res as unknown as Response, { heartbeatIntervalMs });
+    streams.push(stream);
+    return { res, stream };
+  }
+
+  test("should send SSE headers and numbered events", () => {
+    const { res, stream } = open(60_000);
+
+    stream.send("content", { content: "Hi" });
+    stream.send("done", {});
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["Content-Type"]).toBe("text/event-stream");
+    expect(res.writes).toEqual([
+      'id: 1\nevent: content\ndata: {"content":"Hi"}\n\n',
+      "id: 2\nevent: done\ndata: {}\n\n",
+    ]);
+  });
+
+  test("should send a heartbeat comment every interval", async () => {
+    const { res } = open();
+
+    await wait(35);
+
+    expect(res.writes.length).toBeGreaterThanOrEqual(2);
+    expect(res.writes.every(payload => payload.startsWith(": heartbeat "))).toBe(true);
+  });
+
+  test("should abort the signal and clear the heartbeat when the client disconnects", async () => {
+    const setIntervalSpy = spyOn(globalThis, "setInterval");
+    const clearIntervalSpy = spyOn(globalThis, "clearInterval");
+
+    try {
+      const { res, stream } = open();
+      const timer = setIntervalSpy.mock.results[0].value;
+
+      res.emit("close");
+      const writes = res.writes.length;
+      await wait(30);
+      stream.send("content", { content: "late" });
+
+      expect(stream.signal.aborted).toBe(true);
+      expect(stream.isOpen).toBe(false);
+      expect(clearIntervalSpy).toHaveBeenCalledWith(timer);
+      expect(res.writes).toHaveLength(writes);
+    } finally {
+      setIntervalSpy.mockRestore();
+      clearIntervalSpy.mockRestore();
+    }
+  });
+
+  test("should end the response on close without aborting the signal", async () => {
+    const { res, stream } = open();
+
+    stream.close();
+    stream.close();
+    await wait(30);
+
+    expect(res.ended).toBe(true);
+    expect(stream.isOpen).toBe(false);
+    expect(stream.signal.aborted).toBe(false);
+    expect(res.writes).toHaveLength(0);
+  });
+});
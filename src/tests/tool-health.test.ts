@@ -0,0 +1,50 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import * as z from "zod";
+import { ToolBuilder } from "../../lessons/langchain/core-concepts/tools/core/tool-builder.js";
+import { ToolService } from "../../lessons/langchain/core-concepts/tools/core/tool-service.js";
+import { ToolApiService } from "../services/tool.services.js";
+
+describe("ToolApiService", () => {
+  let tools: ToolService;
+  let health: ToolApiService;
+
+  beforeEach(() => {
+    tools = new ToolService({ circuitBreaker: { minimumCalls: 2, failureThreshold: 0.5, openDuration: 60_000 } });
+    tools.registerTool(ToolBuilder.createCalculatorTool());
+    tools.registerTool(ToolBuilder.createTool({
+      name: "flaky_api",
+      description: "Always down",
+      schema: z.object({}),
+      func: async () => {
+        throw new Error("Service unavailable");
+      },
+    }));
+    health = new ToolApiService(tools);
+  });
+
+  test("should report ok while every breaker is closed", () => {
+    const report = health.getHealth();
+
+    expect(report.status).toBe("ok");
+    expect(report.tools.map(tool => [tool.name, tool.available, tool.breaker?.state])).toEqual([
+      ["calculator", true, "closed"],
+      ["flaky_api", true, "closed"],
+    ]);
+  });
+
+  test("should report a tripped breaker and leave its tool out of binding", async () => {
+    for (let i = 0; i < 2; i++) {
+      await tools.executeToolCall({ id: `call_${i}`, name: "flaky_api", args: {} });
+    }
+
+    const report = health.getHealth();
+    const flaky = report.tools.find(tool => tool.name === "flaky_api");
+
+    expect(report.status).toBe("degraded");
+    expect(flaky?.available).toBe(false);
+    expect(flaky?.breaker).toMatchObject({ state: "open", calls: 2, failures: 2 });
+    expect(flaky?.breaker?.retryAt).toBeDefined();
+    expect(flaky?.stats).toMatchObject({ count: 2, successRate: 0 });
+    expect(tools.getToolsForBinding().map(tool => tool.name)).toEqual(["calculator"]);
+  });
+});